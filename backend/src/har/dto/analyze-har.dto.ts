@@ -1,5 +1,20 @@
-import { IsBoolean, IsNotEmpty, IsObject, IsOptional, IsString, IsUUID } from 'class-validator';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
 import { Transform } from 'class-transformer';
+import { SNIPPET_LANGUAGES, SnippetLanguage } from '../utils/snippet-generator';
 
 export class UploadHarResponseDto {
   id: string;
@@ -10,6 +25,9 @@ export class UploadHarResponseDto {
     status: number;
     responseType: string;
     responseSize: number;
+    graphql?: string;
+    websocket?: string;
+    streaming?: 'sse' | 'ndjson';
   }>;
   allEntries: Array<{
     index: number;
@@ -18,6 +36,9 @@ export class UploadHarResponseDto {
     status: number;
     responseType: string;
     responseSize: number;
+    graphql?: string;
+    websocket?: string;
+    streaming?: 'sse' | 'ndjson';
   }>;
   stats: {
     total: number;
@@ -35,6 +56,131 @@ export class UploadHarResponseDto {
   };
 }
 
+/** Metadata about a stored HAR (GET /har, GET /har/:id) */
+export class HarSummaryDto {
+  id: string;
+  filename: string;
+  createdAt: string;
+  expiresAt: string;
+  stats: UploadHarResponseDto['stats'];
+  filterBreakdown: UploadHarResponseDto['filterBreakdown'];
+}
+
+/** Which entry list an index refers to: filtered API requests or all raw entries */
+export type EntryScope = 'filtered' | 'all';
+
+/** Query parameters for endpoints that address a single entry by index */
+export class EntryScopeQueryDto {
+  /** Which list the index refers to. Default: filtered */
+  @IsIn(['filtered', 'all'])
+  @IsOptional()
+  scope?: EntryScope = 'filtered';
+}
+
+/** Query parameters for GET /har/:id/entries */
+export class ListEntriesQueryDto extends EntryScopeQueryDto {
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  @Transform(({ value }) => Number(value))
+  offset?: number = 0;
+
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  @Transform(({ value }) => Number(value))
+  limit?: number = 100;
+
+  /** Exact HTTP method (case-insensitive) */
+  @IsString()
+  @IsOptional()
+  method?: string;
+
+  /** Exact response status code */
+  @IsInt()
+  @IsOptional()
+  @Transform(({ value }) => Number(value))
+  status?: number;
+
+  /** Case-insensitive substring of the URL */
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  /** Case-insensitive substring of the response MIME type */
+  @IsString()
+  @IsOptional()
+  type?: string;
+}
+
+export class ListEntriesResponseDto {
+  total: number;
+  offset: number;
+  limit: number;
+  entries: UploadHarResponseDto['entries'];
+}
+
+/** Full detail for one entry (GET /har/:id/entries/:index); sensitive headers are redacted */
+export class EntryDetailDto {
+  index: number;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: Array<{ name: string; value: string }>;
+    queryString: Array<{ name: string; value: string }>;
+    postData?: {
+      mimeType: string;
+      text: string;
+      params?: Array<{ name: string; value: string }>;
+    };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: Array<{ name: string; value: string }>;
+    mimeType: string;
+    size: number;
+    redirectURL: string;
+  };
+  timings: {
+    blocked?: number;
+    dns?: number;
+    connect?: number;
+    ssl?: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  /** WebSocket connections: the frames exchanged (binary data is base64) */
+  webSocketMessages?: Array<{
+    type: 'send' | 'receive';
+    time: number;
+    opcode: number;
+    data: string;
+  }>;
+}
+
+/**
+ * How /analyze picks the matching request:
+ * - llm: ask the configured LLM provider
+ * - lexical: rank patterns locally with BM25 (no LLM call, zero tokens)
+ * - hybrid: use the lexical match when it is confident, otherwise the LLM
+ */
+export type Matcher = 'llm' | 'lexical' | 'hybrid';
+
+/**
+ * What /analyze returns:
+ * - single: the matching request and its curl
+ * - flow: also the earlier requests it depends on (login, CSRF fetch, …),
+ *   chained into one shell script
+ */
+export type AnalyzeMode = 'single' | 'flow';
+
 export class AnalyzeHarDto {
   @IsUUID()
   @IsNotEmpty()
@@ -50,6 +196,12 @@ export class AnalyzeHarDto {
   @Transform(({ value }) => value === 'true' || value === true)
   deduplication?: boolean = true;
 
+  /** When true (and deduplicating), collapses IDs, UUIDs, hashes, dates and slugs in paths into {id}. Default: true */
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  pathTemplating?: boolean = true;
+
   /** When true, asks LLM for candidate list with confidence scores. Default: true */
   @IsBoolean()
   @IsOptional()
@@ -61,10 +213,94 @@ export class AnalyzeHarDto {
   @IsOptional()
   @Transform(({ value }) => value === 'true' || value === true)
   reasoning?: boolean = true;
+
+  /** When true, each summary line also carries the request's operation name and body keys and the response's key structure (costs prompt tokens). Default: false */
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  bodyContext?: boolean = false;
+
+  /** Extra code snippet languages to generate alongside curl. Default: none */
+  @IsArray()
+  @IsIn(SNIPPET_LANGUAGES, { each: true })
+  @IsOptional()
+  languages?: SnippetLanguage[] = [];
+
+  /** How the match is found: llm, lexical or hybrid. Default: llm */
+  @IsIn(['llm', 'lexical', 'hybrid'])
+  @IsOptional()
+  matcher?: Matcher = 'llm';
+
+  /** Most relevant patterns (lexically pre-ranked) sent to the LLM; the rest are dropped. Default: 200 */
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  @IsOptional()
+  maxPatterns?: number = 200;
+
+  /** single or flow (adds the prerequisite requests and a script chaining them). Default: single */
+  @IsIn(['single', 'flow'])
+  @IsOptional()
+  mode?: AnalyzeMode = 'single';
+
+  /** When false, asks the LLM even if an identical analysis is cached (the new answer is still cached). Default: true */
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  cache?: boolean = true;
+}
+
+/** A reply to an analysis result, e.g. "no, the one that returns paginated results" */
+export class RefineAnalysisDto {
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+}
+
+/** One message of an analysis conversation */
+export class AnalysisTurnDto {
+  /** user: the description or a reply; assistant: a match */
+  role: 'user' | 'assistant';
+  content: string;
+  /** Assistant turns: the entry that was matched */
+  index?: number;
+}
+
+/** A request value that an earlier response returned first (one edge of the dependency graph) */
+export class ValueDependencyDto {
+  /** Entry that sends the value */
+  index: number;
+  location: { kind: 'header' | 'cookie' | 'query' | 'body'; name: string };
+  /** Entry whose response returned the value first */
+  fromIndex: number;
+  /** Where the response carried it; `name` is the JSON path for json and the preceding text for text */
+  source: { kind: 'header' | 'cookie' | 'json' | 'text'; name: string };
+  /** Start of the value, enough to recognise it without exposing a whole token */
+  preview: string;
+  /** e.g. "authorization header: data.token field of #0 POST https://…/login" */
+  description: string;
+}
+
+/** Response from GET /har/:id/dependencies */
+export class DependencyGraphDto {
+  /** Number of entries in scope; indices refer to this list */
+  entries: number;
+  dependencies: ValueDependencyDto[];
 }
 
 export class AnalyzeHarResponseDto {
   curl: string;
+  /** Code snippets for the requested languages (same redaction as curl) */
+  snippets?: Partial<Record<SnippetLanguage, string>>;
+  /** WebSocket matches: replay scripts (curl then holds the websocat one) */
+  websocket?: {
+    websocat: string;
+    /** Node script using the `ws` package */
+    node: string;
+    /** Frames sent and received in the capture */
+    sent: number;
+    received: number;
+  };
   requestDetails: {
     url: string;
     method: string;
@@ -78,7 +314,12 @@ export class AnalyzeHarResponseDto {
     status: number;
     responseType: string;
     responseSize: number;
+    graphql?: string;
+    websocket?: string;
+    streaming?: 'sse' | 'ndjson';
   };
+  /** Values the matched request sends that earlier responses returned */
+  dependsOn: ValueDependencyDto[];
   explanation: string;
   reasoning: string;
   candidates: Array<{ index: number; url: string; reason: string; confidence: number }>;
@@ -88,9 +329,74 @@ export class AnalyzeHarResponseDto {
     total: number;
   };
   model: string;
+  /** Which matcher produced the result (hybrid resolves to one of these) */
+  matcher: 'llm' | 'lexical';
+  /** True when the LLM answer came from the analysis cache (token usage is then zero) */
+  cached: boolean;
   entriesAnalyzed: number;
+  /** Unique patterns left out of the LLM prompt by pre-ranking (see maxPatterns) */
+  patternsDropped: number;
+  /** Estimated prompt tokens spent on body context (0 unless bodyContext was on and the LLM was asked) */
+  contextTokens: number;
   totalEntries: number;
   llmLatency: number;
+  /** Flow mode only: the requests to run in order, ending with the match */
+  flow?: {
+    steps: Array<AnalyzeHarResponseDto['matchedEntry'] & { purpose: string }>;
+    /** Bash script running the steps with captured values passed along */
+    script: string;
+  };
+  /** Single mode only: the conversation to reply to (POST /har/analyze/:sessionId/refine) */
+  session?: {
+    id: string;
+    turns: AnalysisTurnDto[];
+  };
+}
+
+/** Query parameters for GET /har/:id/entries/:index/curl */
+export class GenerateCurlQueryDto extends EntryScopeQueryDto {
+  /** Comma-separated snippet languages to generate alongside curl */
+  @IsArray()
+  @IsIn(SNIPPET_LANGUAGES, { each: true })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+  )
+  languages?: SnippetLanguage[] = [];
+}
+
+/** Query parameters for GET /har/:id/postman */
+export class PostmanExportQueryDto extends EntryScopeQueryDto {
+  /** Comma-separated entry indices to export */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value.split(',').filter(Boolean).map(Number)
+      : value,
+  )
+  indices: number[];
+}
+
+/** Query parameters for GET /har/:id/openapi */
+export class OpenApiQueryDto extends EntryScopeQueryDto {
+  /** Output format. Default: json */
+  @IsIn(['json', 'yaml'])
+  @IsOptional()
+  format?: 'json' | 'yaml' = 'json';
+}
+
+/** Response from GET /har/:id/entries/:index/curl (no LLM involved) */
+export class GenerateCurlResponseDto {
+  curl: string;
+  snippets?: AnalyzeHarResponseDto['snippets'];
+  websocket?: AnalyzeHarResponseDto['websocket'];
+  requestDetails: AnalyzeHarResponseDto['requestDetails'];
+  matchedEntry: AnalyzeHarResponseDto['matchedEntry'];
+  dependsOn: AnalyzeHarResponseDto['dependsOn'];
 }
 
 export class ExecuteRequestDto {
@@ -109,6 +415,25 @@ export class ExecuteRequestDto {
   @IsString()
   @IsOptional()
   body?: string;
+
+  /** Cap on the response bytes returned; can only lower the server's EXECUTE_MAX_BYTES */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxBytes?: number;
+}
+
+export class RedirectHopDto {
+  /** URL that answered with the redirect */
+  url: string;
+  status: number;
+  statusText: string;
+  /** Absolute URL it redirected to */
+  location: string;
+  /** Milliseconds from sending the request to receiving the redirect */
+  duration: number;
+  /** Why the Location was not requested, when it failed the SSRF checks */
+  refused?: string;
 }
 
 export class ExecuteResponseDto {
@@ -116,5 +441,13 @@ export class ExecuteResponseDto {
   statusText: string;
   headers: Record<string, string>;
   body: string;
+  /** Set when the body is binary and `body` holds its bytes as base64 */
+  encoding?: 'base64';
+  /** Bytes of the upstream body returned */
+  size?: number;
+  /** The upstream body was longer than the byte cap and was cut at it */
+  truncated?: boolean;
+  /** Redirects followed, or refused (a blocked Location, the hop cap), in order */
+  redirects?: RedirectHopDto[];
   duration: number;
 }
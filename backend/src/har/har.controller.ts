@@ -1,21 +1,48 @@
 import {
   Controller,
+  Get,
   Post,
+  Delete,
   Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  HttpCode,
+  Header,
+  Res,
+  StreamableFile,
   UploadedFile,
   UseInterceptors,
   BadRequestException,
   Logger,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { Readable } from 'stream';
 import { HarService } from './har.service';
 import {
   AnalyzeHarDto,
   AnalyzeHarResponseDto,
+  DependencyGraphDto,
+  EntryDetailDto,
+  EntryScopeQueryDto,
   ExecuteRequestDto,
   ExecuteResponseDto,
+  GenerateCurlQueryDto,
+  GenerateCurlResponseDto,
+  HarSummaryDto,
+  OpenApiQueryDto,
+  PostmanExportQueryDto,
+  RefineAnalysisDto,
+  ListEntriesQueryDto,
+  ListEntriesResponseDto,
   UploadHarResponseDto,
 } from './dto/analyze-har.dto';
+import { extractHarSources, isSupportedHarUpload } from './utils/har-archive';
+import { PostmanCollection } from './utils/postman-exporter';
+import { OpenApiDocument, toYaml } from './utils/openapi-generator';
+import { relayStreamEvents } from './utils/streaming';
 
 @Controller('har')
 export class HarController {
@@ -25,6 +52,8 @@ export class HarController {
 
   /**
    * Upload a .har file for parsing and filtering.
+   * Accepts plain HAR as well as .har.gz, .har.br and .zip archives (all .har
+   * members of a zip are merged into one capture).
    * Returns compact entry summaries and a storage ID for subsequent analysis.
    */
   @Post('upload')
@@ -32,12 +61,11 @@ export class HarController {
     FileInterceptor('file', {
       limits: { fileSize: 150 * 1024 * 1024 }, // 150MB max
       fileFilter: (_req, file, cb) => {
-        if (
-          !file.originalname.endsWith('.har') &&
-          file.mimetype !== 'application/json'
-        ) {
+        if (!isSupportedHarUpload(file.originalname, file.mimetype)) {
           return cb(
-            new BadRequestException('Only .har files are allowed'),
+            new BadRequestException(
+              'Only .har files (optionally gzip, brotli or zip compressed) are allowed',
+            ),
             false,
           );
         }
@@ -56,29 +84,208 @@ export class HarController {
       `Received HAR file: ${file.originalname} (${(file.size / 1024).toFixed(1)} KB)`,
     );
 
-    const content = file.buffer.toString('utf-8');
-    return this.harService.upload(content);
+    // Decompress if needed and hand the raw bytes to the streaming parser —
+    // no UTF-8 string copy of the whole file
+    const sources = extractHarSources(file.buffer, file.originalname);
+    return this.harService.upload(sources, file.originalname);
+  }
+
+  /**
+   * List all stored HAR files with their metadata (newest first).
+   */
+  @Get()
+  async list(): Promise<HarSummaryDto[]> {
+    return this.harService.listHars();
+  }
+
+  /**
+   * Get metadata for a stored HAR file: creation/expiry time, counts and filter breakdown.
+   */
+  @Get(':id')
+  async get(@Param('id', ParseUUIDPipe) id: string): Promise<HarSummaryDto> {
+    return this.harService.getHar(id);
+  }
+
+  /**
+   * Page through a stored HAR's entries, optionally filtered by method, status, URL or type.
+   */
+  @Get(':id/entries')
+  async entries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ListEntriesQueryDto,
+  ): Promise<ListEntriesResponseDto> {
+    return this.harService.getEntries(id, query);
+  }
+
+  /**
+   * Get full detail for one entry: headers, query string, body and timings (sensitive headers redacted).
+   */
+  @Get(':id/entries/:index')
+  async entry(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Query() query: EntryScopeQueryDto,
+  ): Promise<EntryDetailDto> {
+    return this.harService.getEntryDetail(id, index, query.scope);
+  }
+
+  /**
+   * Generate a curl command for a chosen entry directly — no LLM call, no tokens spent.
+   * Use `scope=all` to address entries from the unfiltered list and
+   * `languages=python,go` to also get code snippets.
+   */
+  @Get(':id/entries/:index/curl')
+  async curl(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Query() query: GenerateCurlQueryDto,
+  ): Promise<GenerateCurlResponseDto> {
+    return this.harService.generateCurlForEntry(
+      id,
+      index,
+      query.scope,
+      query.languages,
+    );
+  }
+
+  /**
+   * Get the value dependency graph: for each request, the header, cookie,
+   * query or body values that an earlier response returned first.
+   */
+  @Get(':id/dependencies')
+  async dependencies(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: EntryScopeQueryDto,
+  ): Promise<DependencyGraphDto> {
+    return this.harService.getDependencies(id, query.scope);
+  }
+
+  /**
+   * Download the chosen entries as a Postman Collection v2.1 file, e.g.
+   * `?indices=3,7&scope=all`. Auth headers become collection variables.
+   */
+  @Get(':id/postman')
+  @Header('Content-Type', 'application/json')
+  @Header(
+    'Content-Disposition',
+    'attachment; filename="har-export.postman_collection.json"',
+  )
+  async postman(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: PostmanExportQueryDto,
+  ): Promise<PostmanCollection> {
+    return this.harService.exportPostman(id, query.indices, query.scope);
+  }
+
+  /**
+   * Infer an OpenAPI 3.1 document from the stored requests.
+   * Returns JSON by default, or YAML with `format=yaml`.
+   */
+  @Get(':id/openapi')
+  async openapi(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: OpenApiQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<OpenApiDocument | string> {
+    const document = await this.harService.generateOpenApi(id, query.scope);
+    if (query.format === 'yaml') {
+      res.type('application/yaml');
+      return toYaml(document);
+    }
+    return document;
+  }
+
+  /**
+   * Delete a stored HAR file before it expires.
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.harService.deleteHar(id);
   }
 
   /**
    * Analyze a stored HAR file to find the best-matching API request.
-   * Uses an LLM to identify the match and returns a curl command.
+   * Uses an LLM and/or the local lexical matcher to identify the match and
+   * returns a curl command — in flow mode also a script that runs the
+   * requests it depends on first.
    */
   @Post('analyze')
   async analyze(@Body() dto: AnalyzeHarDto): Promise<AnalyzeHarResponseDto> {
     return this.harService.analyze(dto.harId, dto.description, {
       deduplication: dto.deduplication,
+      pathTemplating: dto.pathTemplating,
       candidates: dto.candidates,
       reasoning: dto.reasoning,
+      bodyContext: dto.bodyContext,
+      languages: dto.languages,
+      matcher: dto.matcher,
+      maxPatterns: dto.maxPatterns,
+      mode: dto.mode,
+      cache: dto.cache,
     });
   }
 
+  /**
+   * Reply to an analysis result ("no, the one that returns paginated
+   * results") and get the new match. The session ID comes from the
+   * /analyze response.
+   */
+  @Post('analyze/:sessionId/refine')
+  async refine(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: RefineAnalysisDto,
+  ): Promise<AnalyzeHarResponseDto> {
+    return this.harService.refine(sessionId, dto.message);
+  }
+
   /**
    * Execute an HTTP request as a server-side proxy.
    * This avoids CORS issues when testing API calls from the browser.
+   * Streaming responses (SSE, NDJSON) are relayed as they arrive, as a
+   * text/event-stream of response/chunk/end events (see streaming.ts).
    */
   @Post('execute')
-  async execute(@Body() dto: ExecuteRequestDto): Promise<ExecuteResponseDto> {
-    return this.harService.execute(dto);
+  async execute(
+    @Body() dto: ExecuteRequestDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ExecuteResponseDto | StreamableFile> {
+    const result = await this.harService.execute(dto);
+    if (!('chunks' in result)) return result;
+
+    const events = Readable.from(relayStreamEvents(result));
+    // Stop reading upstream when the browser goes away
+    res.on('close', () => events.destroy());
+    res.set({ 'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no' });
+    return new StreamableFile(events, { type: 'text/event-stream' });
+  }
+
+  /**
+   * Execute a request through the proxy and download the response body
+   * byte for byte, as it arrives, up to the byte cap. The upstream status is
+   * sent as X-Upstream-Status; X-Truncated is true when the upstream
+   * declared a body longer than X-Max-Bytes, which then ends at the cap. An
+   * undeclared body that long, an upstream silent for the proxy timeout, or
+   * any other failure after the headers went out ends the connection
+   * without completing the response, so the client sees the download fail.
+   */
+  @Post('execute/download')
+  async executeDownload(
+    @Body() dto: ExecuteRequestDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const result = await this.harService.executeDownload(dto);
+    const body = Readable.from(result.chunks);
+    // Stop reading upstream when the browser goes away
+    res.on('close', () => body.destroy());
+    res.set({
+      'X-Upstream-Status': String(result.status),
+      'X-Max-Bytes': String(result.maxBytes),
+      'X-Truncated': String(result.truncated),
+    });
+    return new StreamableFile(body, {
+      type: result.headers['content-type'] ?? 'application/octet-stream',
+      disposition: `attachment; filename="${result.filename}"`,
+    }).setErrorHandler(() => res.destroy());
   }
 }
@@ -2,10 +2,20 @@ import { Module } from '@nestjs/common';
 import { LlmModule } from '../llm/llm.module';
 import { HarController } from './har.controller';
 import { HarService } from './har.service';
+import {
+  analysisCacheProvider,
+  analysisSessionStoreProvider,
+  harStoreProvider,
+} from './storage/har-store.provider';
 
 @Module({
   imports: [LlmModule],
   controllers: [HarController],
-  providers: [HarService],
+  providers: [
+    HarService,
+    harStoreProvider,
+    analysisSessionStoreProvider,
+    analysisCacheProvider,
+  ],
 })
 export class HarModule {}
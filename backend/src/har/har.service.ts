@@ -1,69 +1,215 @@
-import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  RequestTimeoutException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { randomUUID } from 'crypto';
+import { FlowStepAnswer, MAX_FLOW_STEPS } from '../llm/flow-response';
 import { LlmService } from '../llm/llm.service';
+import { estimateTokens } from '../llm/token-budget';
 import {
+  AnalysisTurnDto,
   AnalyzeHarResponseDto,
+  AnalyzeMode,
+  DependencyGraphDto,
+  EntryDetailDto,
+  EntryScope,
   ExecuteRequestDto,
   ExecuteResponseDto,
+  GenerateCurlResponseDto,
+  HarSummaryDto,
+  Matcher,
+  ListEntriesQueryDto,
+  ListEntriesResponseDto,
   UploadHarResponseDto,
+  ValueDependencyDto,
 } from './dto/analyze-har.dto';
 import { generateCurl } from './utils/curl-generator';
-import { assertHttpOrHttpsUrl, validateUrl } from './utils/url-validator';
+import { generateSnippets, SnippetLanguage } from './utils/snippet-generator';
+import {
+  PostmanCollection,
+  toPostmanCollection,
+} from './utils/postman-exporter';
+import { OpenApiDocument, toOpenApiDocument } from './utils/openapi-generator';
+import { toEntryDetail } from './utils/entry-detail';
+import { generateFlowScript } from './utils/flow-script';
+import {
+  describeValueLocation,
+  describeValueSource,
+  findRequestDependencies,
+  findValueDependencies,
+  formatJsonPath,
+  prerequisitesOf,
+  ValueDependency,
+} from './utils/value-flow';
+import {
+  isConfidentMatch,
+  matchLexically,
+  selectTopPatterns,
+} from './utils/lexical-matcher';
+import {
+  assertHttpOrHttpsUrl,
+  assertWebSocketUrl,
+  validateUrl,
+} from './utils/url-validator';
+import { generateWebSocketScripts, isWebSocketEntry } from './utils/websocket';
 import {
+  decodeTextStream,
+  StreamingExecuteResult,
+  streamingKindOfType,
+} from './utils/streaming';
+import {
+  BodyLimitError,
+  DEFAULT_EXECUTE_MAX_BYTES,
+  DownloadExecuteResult,
+  downloadFilename,
+  encodeBody,
+  readBody,
+  readCappedBody,
+} from './utils/response-body';
+import {
+  fetchFollowingRedirects,
+  RedirectBlockedError,
+  RedirectHop,
+  TooManyRedirectsError,
+} from './utils/redirects';
+import {
+  classifyEntry,
   CompactEntry,
-  filterEntries,
+  emptyFilterBreakdown,
   HarEntry,
-  parseHarFile,
-  stripBodies,
-  toCompactEntries,
+  hasRetainableBody,
+  stripBody,
+  SummaryPattern,
+  toCompactEntry,
   createLlmSummary,
+  formatSummaryLine,
 } from './utils/har-parser';
-
-interface StoredHar {
-  entries: HarEntry[];
-  compactEntries: CompactEntry[];
-  createdAt: Date;
-}
+import { HarStore, StoredHar, StoredHarMetadata } from './storage/har-store';
+import {
+  AnalysisSession,
+  AnalysisSessionStore,
+} from './storage/analysis-session.store';
+import { AnalysisCache, analysisCacheKey } from './storage/analysis-cache';
+import { HarSource } from './utils/har-archive';
+import { streamHarEntries } from './utils/har-stream-parser';
 
 @Injectable()
 export class HarService {
   private readonly logger = new Logger(HarService.name);
-  private readonly store = new Map<string, StoredHar>();
-
-  // Auto-cleanup interval: remove HAR data older than 30 minutes
-  private readonly TTL_MS = 30 * 60 * 1000;
+  /** Most bytes of an upstream body execute returns (EXECUTE_MAX_BYTES) */
+  private readonly executeMaxBytes: number;
 
-  constructor(private readonly llmService: LlmService) {
-    // Periodically clean up old stored HAR files
-    setInterval(() => this.cleanup(), 5 * 60 * 1000);
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly store: HarStore,
+    private readonly sessions: AnalysisSessionStore,
+    private readonly cache: AnalysisCache,
+    configService: ConfigService,
+  ) {
+    this.executeMaxBytes = Number(
+      configService.get<string>('EXECUTE_MAX_BYTES') ??
+        DEFAULT_EXECUTE_MAX_BYTES,
+    );
+    if (!Number.isFinite(this.executeMaxBytes) || this.executeMaxBytes <= 0) {
+      throw new Error('EXECUTE_MAX_BYTES must be a positive number');
+    }
   }
 
   /** Maximum number of entries allowed in a single HAR file (DoS protection) */
   private readonly MAX_ENTRIES = 50_000;
 
+  /** Total response body bytes kept per HAR for OpenAPI response schemas and value flow */
+  private readonly MAX_RETAINED_RESPONSE_TOTAL = 50 * 1024 * 1024;
+
+  /** Lexical confidence at which the hybrid matcher skips the LLM */
+  private readonly HYBRID_MIN_CONFIDENCE = 70;
+
+  /** Default cap on unique patterns sent to the LLM */
+  private readonly DEFAULT_MAX_PATTERNS = 200;
+
+  /** Replies allowed per analysis session */
+  private readonly MAX_REFINEMENTS = 10;
+
+  /** Proxy timeout for executed requests, including reading their body */
+  private readonly EXECUTE_TIMEOUT_MS = 30_000;
+
+  /** Redirects an executed request may follow */
+  private readonly MAX_EXECUTE_REDIRECTS = 10;
+
   /**
    * Parse and store an uploaded HAR file.
+   *
+   * Entries are read one at a time from the raw byte stream, filtered and
+   * stripped as they arrive, so the full HAR document is never held in memory.
+   * Multiple sources (e.g. the .har members of a zip) are merged in order.
    */
-  async upload(fileContent: string): Promise<UploadHarResponseDto> {
-    const harFile = parseHarFile(fileContent);
-    const entries = harFile.log.entries;
-    if (entries.length > this.MAX_ENTRIES) {
-      throw new BadRequestException(
-        `HAR file has too many entries (${entries.length}). Maximum allowed is ${this.MAX_ENTRIES}.`,
-      );
+  async upload(
+    sources: HarSource[],
+    filename: string,
+  ): Promise<UploadHarResponseDto> {
+    const allCompactEntries: CompactEntry[] = [];
+    const compactEntries: CompactEntry[] = [];
+    const allLightweight: HarEntry[] = [];
+    const lightweight: HarEntry[] = [];
+    const breakdown = emptyFilterBreakdown();
+    let total = 0;
+    let retainedBytes = 0;
+
+    for (const source of sources) {
+      for await (const entry of streamHarEntries(source)) {
+        if (total >= this.MAX_ENTRIES) {
+          throw new BadRequestException(
+            `HAR file has too many entries (more than ${this.MAX_ENTRIES}). Maximum allowed is ${this.MAX_ENTRIES}.`,
+          );
+        }
+        allCompactEntries.push(toCompactEntry(entry, total));
+        total++;
+
+        // Strip response bodies to save memory — we only need request details for curl,
+        // plus small text bodies (within a total budget) for OpenAPI response schemas
+        // and for finding the responses that hand out tokens and IDs.
+        // Unfiltered entries are kept too so any row can be turned into a curl.
+        const bodyLength = entry.response.content.text?.length ?? 0;
+        const keepBody =
+          hasRetainableBody(entry) &&
+          retainedBytes + bodyLength <= this.MAX_RETAINED_RESPONSE_TOTAL;
+        if (keepBody) retainedBytes += bodyLength;
+        const stripped = stripBody(entry, keepBody);
+        allLightweight.push(stripped);
+
+        const reason = classifyEntry(entry);
+        if (reason) {
+          breakdown[reason]++;
+          continue;
+        }
+
+        compactEntries.push(toCompactEntry(entry, lightweight.length));
+        lightweight.push(stripped);
+      }
     }
-    const allCompactEntries = toCompactEntries(entries);
-    const { filtered, stats, breakdown } = filterEntries(entries);
-    const compactEntries = toCompactEntries(filtered);
 
-    // Strip response bodies to save memory — we only need request details for curl
-    const lightweight = stripBodies(filtered);
+    const stats = {
+      total,
+      removed: total - lightweight.length,
+      kept: lightweight.length,
+    };
 
     const id = randomUUID();
-    this.store.set(id, {
+    await this.store.set({
+      id,
+      filename,
+      createdAt: new Date(),
+      stats,
+      filterBreakdown: breakdown,
       entries: lightweight,
       compactEntries,
-      createdAt: new Date(),
+      allEntries: allLightweight,
+      allCompactEntries,
     });
 
     this.logger.log(
@@ -74,37 +220,168 @@ export class HarService {
   }
 
   /**
-   * Use the LLM to find the best-matching request and generate a curl command.
+   * Find the best-matching request and generate a curl command.
+   *
+   * The `matcher` option chooses between the LLM, the local lexical matcher
+   * (no tokens spent), or a hybrid that only calls the LLM when the lexical
+   * match is weak or ambiguous. Captures with more than `maxPatterns` unique
+   * patterns are lexically pre-ranked so only the most relevant reach the LLM.
+   *
+   * In flow mode the result also carries the earlier requests the match
+   * depends on, as proposed by the LLM and completed by value-flow analysis
+   * (see buildFlow), plus a script chaining them. In single mode it starts
+   * an analysis session the user can reply to (see refine).
+   *
+   * LLM answers are cached by summary, description, model and flags, so
+   * repeating an analysis costs no tokens unless `cache` is false.
+   *
+   * With `bodyContext`, summary lines also describe request and response
+   * bodies (see createLlmSummary); `contextTokens` reports what that costs.
    */
   async analyze(
     harId: string,
     description: string,
-    options: { deduplication?: boolean; candidates?: boolean; reasoning?: boolean } = {},
+    options: {
+      deduplication?: boolean;
+      pathTemplating?: boolean;
+      candidates?: boolean;
+      reasoning?: boolean;
+      bodyContext?: boolean;
+      languages?: SnippetLanguage[];
+      matcher?: Matcher;
+      maxPatterns?: number;
+      mode?: AnalyzeMode;
+      cache?: boolean;
+    } = {},
   ): Promise<AnalyzeHarResponseDto> {
     const deduplicate = options.deduplication !== false; // default true
+    const templatePaths = options.pathTemplating !== false; // default true
     const withCandidates = options.candidates !== false; // default true
     const reasoning = options.reasoning !== false; // default true
+    const bodyContext = options.bodyContext === true; // default false
+    const matcher = options.matcher ?? 'llm';
+    const maxPatterns = options.maxPatterns ?? this.DEFAULT_MAX_PATTERNS;
+    const mode = options.mode ?? 'single';
 
-    const stored = this.store.get(harId);
-    if (!stored) {
-      throw new NotFoundException(
-        `HAR file not found (id: ${harId}). It may have expired. Please re-upload.`,
-      );
-    }
+    const stored = await this.requireHar(harId);
 
     // Create summary for the LLM (deduplicated + compacted when flag is on)
-    const { summary, uniquePatterns, originalEntries } =
-      createLlmSummary(stored.compactEntries, deduplicate);
+    const { patterns, uniquePatterns, originalEntries } = createLlmSummary(
+      stored.compactEntries,
+      deduplicate,
+      templatePaths,
+      bodyContext ? stored.entries : undefined,
+    );
 
     this.logger.log(
-      `Analyzing HAR ${harId}: ${originalEntries} entries → ${uniquePatterns} unique patterns for LLM [dedup=${deduplicate}, candidates=${withCandidates}, reasoning=${reasoning}]`,
+      `Analyzing HAR ${harId}: ${originalEntries} entries → ${uniquePatterns} unique patterns for LLM [mode=${mode}, matcher=${matcher}, dedup=${deduplicate}, templating=${templatePaths}, candidates=${withCandidates}, reasoning=${reasoning}, bodyContext=${bodyContext}]`,
     );
 
-    // Query the LLM to identify the best match
     const llmStart = Date.now();
-    const { index, explanation, reasoning: llmReasoning, candidates, tokenUsage, model } =
-      await this.llmService.identifyRequest(summary, description, { candidates: withCandidates, reasoning });
+    let patternsSent = uniquePatterns;
+    let contextTokens = 0;
+    let match: { index: number } & Pick<
+      AnalyzeHarResponseDto,
+      | 'explanation'
+      | 'reasoning'
+      | 'candidates'
+      | 'tokenUsage'
+      | 'model'
+      | 'matcher'
+    >;
+    // Flow mode: the steps chosen by the matcher, ending with the match
+    let flowSteps: FlowStepAnswer[] | undefined;
+    // Set when the LLM is asked (or its cached answer is used)
+    let cacheKey: string | undefined;
+    let cached = false;
+
+    // Rank locally first unless only the LLM was asked for
+    const lexical =
+      matcher !== 'llm' ? matchLexically(patterns, description) : undefined;
+    const useLexical =
+      lexical &&
+      (matcher === 'lexical' ||
+        isConfidentMatch(lexical, this.HYBRID_MIN_CONFIDENCE));
+
+    if (lexical && useLexical) {
+      match = {
+        index: lexical.index,
+        explanation: lexical.explanation,
+        reasoning: reasoning ? lexical.reasoning : '',
+        candidates: withCandidates ? lexical.candidates : [],
+        tokenUsage: { prompt: 0, completion: 0, total: 0 },
+        model: 'lexical',
+        matcher: 'lexical',
+      };
+      if (mode === 'flow') {
+        flowSteps = [{ index: lexical.index, purpose: 'Target request' }];
+      }
+    } else {
+      if (lexical) {
+        this.logger.log(
+          `Lexical match not confident (${lexical.confidence}%), asking the LLM`,
+        );
+      }
+      const summary = this.buildPrompt(patterns, description, maxPatterns);
+      const { prompt } = summary;
+      patternsSent = summary.patternsSent;
+      contextTokens = summary.contextTokens;
+
+      cacheKey = analysisCacheKey({
+        summary: prompt,
+        description,
+        model: this.llmService.modelId,
+        flags: {
+          mode,
+          deduplication: deduplicate,
+          pathTemplating: templatePaths,
+          candidates: withCandidates,
+          reasoning,
+          bodyContext,
+          maxPatterns,
+        },
+      });
+      const hit =
+        options.cache !== false ? this.cache.get(cacheKey) : undefined;
+
+      if (hit) {
+        this.logger.log('Answering from the analysis cache');
+        cached = true;
+        flowSteps = hit.flowSteps;
+        match = {
+          index: hit.index,
+          explanation: hit.explanation,
+          reasoning: hit.reasoning,
+          candidates: hit.candidates,
+          tokenUsage: { prompt: 0, completion: 0, total: 0 },
+          model: hit.model,
+          matcher: 'llm',
+        };
+      } else if (mode === 'flow') {
+        // Ask for the ordered steps; the last one is the match
+        const flow = await this.llmService.identifyFlow(prompt, description);
+        flowSteps = flow.steps;
+        match = {
+          index: flow.steps[flow.steps.length - 1].index,
+          explanation: flow.explanation,
+          reasoning: '',
+          candidates: [],
+          tokenUsage: flow.tokenUsage,
+          model: flow.model,
+          matcher: 'llm',
+        };
+      } else {
+        // Query the LLM to identify the best match
+        const llmMatch = await this.llmService.identifyRequest(
+          prompt,
+          description,
+          { candidates: withCandidates, reasoning },
+        );
+        match = { ...llmMatch, matcher: 'llm' };
+      }
+    }
     const llmDuration = Date.now() - llmStart;
+    const { index } = match;
 
     // Validate the returned index
     if (index < 0 || index >= stored.entries.length) {
@@ -113,90 +390,368 @@ export class HarService {
       );
     }
 
-    // Generate curl command from the matched entry
-    const matchedEntry = stored.entries[index];
-    assertHttpOrHttpsUrl(matchedEntry.request.url);
-    const curl = generateCurl(matchedEntry);
+    if (cacheKey && !cached) {
+      this.cache.set(cacheKey, {
+        index,
+        explanation: match.explanation,
+        reasoning: match.reasoning,
+        candidates: match.candidates,
+        model: match.model,
+        flowSteps,
+      });
+    }
 
-    // Extract full request details for the Execute button
-    const requestHeaders: Record<string, string> = {};
-    for (const h of matchedEntry.request.headers) {
-      const name = h.name.toLowerCase();
-      // Skip pseudo-headers and auto-set headers
-      if (!name.startsWith(':') && name !== 'host' && name !== 'connection' && name !== 'content-length') {
-        requestHeaders[h.name] = h.value;
-      }
+    let session: AnalysisSession | undefined;
+    if (mode === 'single') {
+      session = {
+        id: randomUUID(),
+        harId,
+        description,
+        options: {
+          deduplication: deduplicate,
+          pathTemplating: templatePaths,
+          candidates: withCandidates,
+          reasoning,
+          bodyContext,
+          languages: options.languages ?? [],
+          maxPatterns,
+        },
+        answer: { index, explanation: match.explanation },
+        refinements: [],
+        updatedAt: new Date(),
+      };
+      this.sessions.set(session);
     }
 
+    // Generate curl command from the matched entry
     return {
-      curl,
-      matchedEntry: stored.compactEntries[index],
-      requestDetails: {
-        url: matchedEntry.request.url,
-        method: matchedEntry.request.method,
-        headers: requestHeaders,
-        body: matchedEntry.request.postData?.text || undefined,
-      },
-      explanation,
-      reasoning: llmReasoning,
-      candidates,
-      tokenUsage,
-      model,
-      entriesAnalyzed: uniquePatterns,
+      ...this.buildCurlResult(
+        stored.entries,
+        stored.compactEntries,
+        index,
+        options.languages,
+      ),
+      explanation: match.explanation,
+      reasoning: match.reasoning,
+      candidates: match.candidates,
+      tokenUsage: match.tokenUsage,
+      model: match.model,
+      matcher: match.matcher,
+      cached,
+      entriesAnalyzed: patternsSent,
+      patternsDropped: uniquePatterns - patternsSent,
+      contextTokens,
       totalEntries: originalEntries,
       llmLatency: llmDuration,
+      flow: flowSteps && this.buildFlow(stored, flowSteps),
+      session: session && this.toSessionDto(session),
     };
   }
 
   /**
-   * Execute an HTTP request as a proxy (so the browser doesn't hit CORS issues).
-   * Includes a 15-second timeout to avoid hanging on unresponsive servers.
+   * Reply to an analysis result, e.g. "no, the one that returns paginated
+   * results" or "exclude graphql". The LLM is asked again with the original
+   * description, its earlier answers and every reply so far, and the new
+   * match replaces the session's current one.
    */
-  async execute(dto: ExecuteRequestDto): Promise<ExecuteResponseDto> {
-    const startTime = Date.now();
-    const TIMEOUT_MS = 30_000;
+  async refine(
+    sessionId: string,
+    message: string,
+  ): Promise<AnalyzeHarResponseDto> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new NotFoundException(
+        `Analysis session not found (id: ${sessionId}). It may have expired. Please analyze again.`,
+      );
+    }
+    if (session.refinements.length >= this.MAX_REFINEMENTS) {
+      throw new BadRequestException(
+        `Analysis session has reached ${this.MAX_REFINEMENTS} replies. Please analyze again with a new description.`,
+      );
+    }
 
-    // SSRF protection: validate URL before making the request
-    await validateUrl(dto.url);
+    const stored = await this.requireHar(session.harId);
+    const { options } = session;
+    const refinements = [
+      ...session.refinements,
+      { ...session.answer, reply: message },
+    ];
 
-    this.logger.log(`Executing ${dto.method} ${dto.url}`);
+    const { patterns, uniquePatterns, originalEntries } = createLlmSummary(
+      stored.compactEntries,
+      options.deduplication,
+      options.pathTemplating,
+      options.bodyContext ? stored.entries : undefined,
+    );
+    // Pre-rank with the replies too, so an endpoint they point at is listed
+    const { prompt, patternsSent, contextTokens } = this.buildPrompt(
+      patterns,
+      [session.description, ...refinements.map((turn) => turn.reply)].join(' '),
+      options.maxPatterns,
+    );
 
-    const fetchOptions: RequestInit = {
-      method: dto.method,
-      headers: dto.headers || {},
-      signal: AbortSignal.timeout(TIMEOUT_MS),
+    this.logger.log(
+      `Refining session ${sessionId} (reply ${refinements.length} of ${this.MAX_REFINEMENTS})`,
+    );
+    const llmStart = Date.now();
+    const match = await this.llmService.refineRequest(
+      prompt,
+      session.description,
+      refinements,
+      { candidates: options.candidates, reasoning: options.reasoning },
+    );
+    const llmDuration = Date.now() - llmStart;
+
+    if (match.index < 0 || match.index >= stored.entries.length) {
+      throw new Error(
+        `LLM returned invalid index ${match.index} (valid range: 0-${stored.entries.length - 1})`,
+      );
+    }
+
+    const updated: AnalysisSession = {
+      ...session,
+      answer: { index: match.index, explanation: match.explanation },
+      refinements,
+      updatedAt: new Date(),
+    };
+    this.sessions.set(updated);
+
+    return {
+      ...this.buildCurlResult(
+        stored.entries,
+        stored.compactEntries,
+        match.index,
+        options.languages,
+      ),
+      explanation: match.explanation,
+      reasoning: match.reasoning,
+      candidates: match.candidates,
+      tokenUsage: match.tokenUsage,
+      model: match.model,
+      matcher: 'llm',
+      cached: false,
+      entriesAnalyzed: patternsSent,
+      patternsDropped: uniquePatterns - patternsSent,
+      contextTokens,
+      totalEntries: originalEntries,
+      llmLatency: llmDuration,
+      session: this.toSessionDto(updated),
+    };
+  }
+
+  /**
+   * Build the LLM prompt from the summary patterns. Huge captures are
+   * lexically pre-ranked so the prompt only carries the top `maxPatterns`.
+   * `contextTokens` estimates what the patterns' body context adds.
+   */
+  private buildPrompt(
+    patterns: SummaryPattern[],
+    description: string,
+    maxPatterns: number,
+  ): { prompt: string; patternsSent: number; contextTokens: number } {
+    const promptPatterns = selectTopPatterns(
+      patterns,
+      description,
+      maxPatterns,
+    );
+    if (promptPatterns.length < patterns.length) {
+      this.logger.log(
+        `Pre-ranking kept ${promptPatterns.length} of ${patterns.length} patterns for the LLM`,
+      );
+    }
+    const prompt = promptPatterns.map(formatSummaryLine).join('\n');
+    const withoutContext = promptPatterns
+      .map((pattern) => formatSummaryLine({ ...pattern, context: undefined }))
+      .join('\n');
+    return {
+      prompt,
+      patternsSent: promptPatterns.length,
+      contextTokens: estimateTokens(prompt) - estimateTokens(withoutContext),
     };
+  }
+
+  /** The conversation of a session, as shown to the user. */
+  private toSessionDto(
+    session: AnalysisSession,
+  ): NonNullable<AnalyzeHarResponseDto['session']> {
+    const turns: AnalysisTurnDto[] = [
+      { role: 'user', content: session.description },
+    ];
+    for (const turn of session.refinements) {
+      turns.push(
+        { role: 'assistant', content: turn.explanation, index: turn.index },
+        { role: 'user', content: turn.reply },
+      );
+    }
+    turns.push({
+      role: 'assistant',
+      content: session.answer.explanation,
+      index: session.answer.index,
+    });
+    return { id: session.id, turns };
+  }
 
-    if (dto.body && dto.method !== 'GET' && dto.method !== 'HEAD') {
-      fetchOptions.body = dto.body;
+  /**
+   * Turn the steps chosen by the matcher into the flow returned by analyze.
+   *
+   * The matcher only sees URLs, so its steps are completed with every earlier
+   * entry whose response returned a value the steps send (a token, cookie or
+   * CSRF value), found transitively. Steps are run in capture order, and
+   * steps captured after the match are dropped since it cannot depend on them.
+   */
+  private buildFlow(
+    stored: StoredHar,
+    chosen: FlowStepAnswer[],
+  ): NonNullable<AnalyzeHarResponseDto['flow']> {
+    const target = chosen[chosen.length - 1].index;
+    const purposes = new Map(
+      chosen
+        .filter((step) => step.index <= target)
+        .map((step) => [step.index, step.purpose]),
+    );
+
+    const dependencies = findValueDependencies(
+      stored.entries.slice(0, target + 1),
+    );
+    for (const index of [...purposes.keys()]) {
+      for (const prerequisite of prerequisitesOf(dependencies, index)) {
+        if (purposes.has(prerequisite)) continue;
+        const provided = new Set(
+          dependencies
+            .filter((d) => d.fromIndex === prerequisite)
+            .map((d) => describeValueLocation(d.location)),
+        );
+        purposes.set(
+          prerequisite,
+          `Provides values sent later: ${[...provided].join(', ')}`,
+        );
+      }
     }
 
+    let indices = [...purposes.keys()].sort((a, b) => a - b);
+    if (indices.length > MAX_FLOW_STEPS) {
+      this.logger.log(
+        `Flow has ${indices.length} steps, keeping the last ${MAX_FLOW_STEPS}`,
+      );
+      indices = indices.slice(-MAX_FLOW_STEPS);
+    }
+
+    const steps = indices.map((index) => {
+      const entry = stored.entries[index];
+      assertHttpOrHttpsUrl(entry.request.url);
+      return { index, entry, purpose: purposes.get(index) ?? '' };
+    });
+    return {
+      steps: steps.map(({ index, purpose }) => ({
+        ...stored.compactEntries[index],
+        purpose,
+      })),
+      script: generateFlowScript(steps).script,
+    };
+  }
+
+  /**
+   * Generate a curl command for a chosen entry directly, without the LLM.
+   * `scope` selects whether the index refers to filtered or all entries.
+   */
+  async generateCurlForEntry(
+    harId: string,
+    index: number,
+    scope: EntryScope = 'filtered',
+    languages: SnippetLanguage[] = [],
+  ): Promise<GenerateCurlResponseDto> {
+    const stored = await this.requireHar(harId);
+    const { entries, compactEntries } = this.entriesInScope(stored, scope);
+    this.entryAt(entries, index);
+    return this.buildCurlResult(entries, compactEntries, index, languages);
+  }
+
+  /**
+   * Execute an HTTP request as a proxy (so the browser doesn't hit CORS issues).
+   * Includes a 30-second timeout to avoid hanging on unresponsive servers.
+   * The body is read up to the byte cap (EXECUTE_MAX_BYTES, or the request's
+   * lower `maxBytes`) and returned as text, or as base64 when it is binary.
+   * SSE and NDJSON responses are returned unread, for the controller to relay
+   * as they arrive; the timeout then only ends a stream that goes quiet (see
+   * readStream), and the cap also ends it.
+   * Redirects are followed hop by hop, each target SSRF-checked, and the
+   * chain is returned as `redirects`, ending with the refused hop when a
+   * target is blocked.
+   */
+  async execute(
+    dto: ExecuteRequestDto,
+  ): Promise<ExecuteResponseDto | StreamingExecuteResult> {
+    const startTime = Date.now();
+    const maxBytes = this.executeMaxBytesFor(dto);
+
+    // SSRF protection: validate URL before making the request
+    await validateUrl(dto.url);
+
+    const redirects: RedirectHop[] = [];
+    const upstream = new AbortController();
+    const timeout = this.abortAfterTimeout(upstream);
     try {
-      const response = await fetch(dto.url, fetchOptions);
+      const response = await this.fetchUpstream(
+        dto,
+        redirects,
+        upstream.signal,
+      );
       const duration = Date.now() - startTime;
+      const headers = this.responseHeaders(response);
 
-      // Read response body as text
-      const body = await response.text();
+      if (
+        response.body &&
+        streamingKindOfType(response.headers.get('content-type'))
+      ) {
+        return {
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          redirects,
+          startTime,
+          chunks: this.readStream(response.body, maxBytes, upstream),
+        };
+      }
 
-      // Convert headers to a plain object
-      const headers: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        headers[key] = value;
-      });
+      // Read the body up to the cap, keeping binary bodies as bytes
+      const read = response.body
+        ? await readBody(response.body, maxBytes)
+        : { bytes: Buffer.alloc(0), truncated: false };
 
       return {
         status: response.status,
         statusText: response.statusText,
         headers,
-        body,
+        ...encodeBody(read, response.headers.get('content-type')),
+        size: read.bytes.length,
+        truncated: read.truncated,
+        redirects,
         duration,
       };
     } catch (error) {
       const duration = Date.now() - startTime;
 
+      // Keep the chain so the user can see where the request was sent
+      if (error instanceof RedirectBlockedError) {
+        this.logger.warn(`Request to ${dto.url} redirected to a blocked URL`);
+        return {
+          status: 502,
+          statusText: 'Bad Gateway',
+          headers: {},
+          body: JSON.stringify({
+            error: 'Redirect blocked',
+            message: error.message,
+            suggestion:
+              'The proxy only follows redirects to public addresses. The Redirects tab shows where the request was sent.',
+          }),
+          redirects,
+          duration,
+        };
+      }
+
       if (error.name === 'TimeoutError' || error.name === 'AbortError') {
         this.logger.warn(
-          `Request to ${dto.url} timed out after ${TIMEOUT_MS}ms`,
+          `Request to ${dto.url} timed out after ${this.EXECUTE_TIMEOUT_MS}ms`,
         );
         return {
           status: 408,
@@ -204,10 +759,28 @@ export class HarService {
           headers: {},
           body: JSON.stringify({
             error: 'Request timed out',
-            message: `The server at ${new URL(dto.url).hostname} did not respond within ${TIMEOUT_MS / 1000} seconds. This often happens when the API requires an active session, valid cookies, or has rate limiting.`,
+            message: `The server at ${new URL(dto.url).hostname} did not respond within ${this.EXECUTE_TIMEOUT_MS / 1000} seconds. This often happens when the API requires an active session, valid cookies, or has rate limiting.`,
             suggestion:
               'Try copying the curl command and running it directly in your terminal — it includes all the original headers and cookies from the HAR capture.',
           }),
+          redirects,
+          duration,
+        };
+      }
+
+      if (error instanceof TooManyRedirectsError) {
+        this.logger.warn(`Request to ${dto.url} redirected too often`);
+        return {
+          status: 502,
+          statusText: 'Bad Gateway',
+          headers: {},
+          body: JSON.stringify({
+            error: 'Too many redirects',
+            message: `${error.message}; the last one pointed to ${redirects[redirects.length - 1].location}.`,
+            suggestion:
+              'Redirect loops often mean the session has expired and the server keeps sending the request to a login page.',
+          }),
+          redirects,
           duration,
         };
       }
@@ -223,36 +796,469 @@ export class HarService {
           suggestion:
             'The target server may be unreachable. Try copying the curl command and running it in your terminal.',
         }),
+        redirects,
         duration,
       };
+    } finally {
+      // A buffered body had until now; a stream has its idle timeout instead
+      clearTimeout(timeout);
     }
   }
 
   /**
-   * Get all entries for a stored HAR file (for the inspector).
+   * Execute an HTTP request as a proxy and hand its body back unread, for
+   * the controller to pipe to the client as a raw download. The proxy
+   * timeout covers the response headers; the body may take longer as long as
+   * it keeps arriving (see readDownload). It stops at the byte cap, which is
+   * known up front only when the upstream declares a longer Content-Length;
+   * an undeclared body over the cap fails mid-download. Redirects are
+   * followed as in execute. Upstream failures are thrown as 408/502 errors,
+   * since there is no JSON response to carry them.
    */
-  getEntries(harId: string): CompactEntry[] {
-    const stored = this.store.get(harId);
-    if (!stored) {
+  async executeDownload(
+    dto: ExecuteRequestDto,
+  ): Promise<DownloadExecuteResult> {
+    const maxBytes = this.executeMaxBytesFor(dto);
+
+    // SSRF protection: validate URL before making the request
+    await validateUrl(dto.url);
+
+    const upstream = new AbortController();
+    const headersTimeout = this.abortAfterTimeout(upstream);
+    let response: Response;
+    try {
+      response = await this.fetchUpstream(dto, [], upstream.signal);
+    } catch (error) {
+      if (error instanceof RedirectBlockedError) {
+        throw new BadRequestException(error.message);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new RequestTimeoutException(
+          `The server at ${new URL(dto.url).hostname} did not respond within ${this.EXECUTE_TIMEOUT_MS / 1000} seconds.`,
+        );
+      }
+      this.logger.error(`Request to ${dto.url} failed: ${message}`);
+      throw new BadGatewayException(`Request failed: ${message}`);
+    } finally {
+      clearTimeout(headersTimeout);
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    const truncated = declaredLength > maxBytes;
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: this.responseHeaders(response),
+      filename: downloadFilename(response.url || dto.url),
+      maxBytes,
+      truncated,
+      chunks: this.readDownload(response.body, maxBytes, truncated, upstream),
+    };
+  }
+
+  /**
+   * List metadata for all stored (unexpired) HAR files, newest first.
+   */
+  async listHars(): Promise<HarSummaryDto[]> {
+    const hars = await this.store.list();
+    return hars
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((har) => this.toSummary(har));
+  }
+
+  /**
+   * Get metadata for a single stored HAR file.
+   */
+  async getHar(harId: string): Promise<HarSummaryDto> {
+    return this.toSummary(await this.requireHar(harId));
+  }
+
+  /**
+   * Get a page of entries for a stored HAR file (for the inspector and tooling).
+   */
+  async getEntries(
+    harId: string,
+    query: ListEntriesQueryDto,
+  ): Promise<ListEntriesResponseDto> {
+    const stored = await this.requireHar(harId);
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 100;
+    const method = query.method?.toUpperCase();
+    const search = query.search?.toLowerCase();
+    const type = query.type?.toLowerCase();
+
+    const { compactEntries } = this.entriesInScope(stored, query.scope);
+    const matching = compactEntries.filter(
+      (e) =>
+        (!method || e.method.toUpperCase() === method) &&
+        (query.status === undefined || e.status === query.status) &&
+        (!search || e.url.toLowerCase().includes(search)) &&
+        (!type || e.responseType.toLowerCase().includes(type)),
+    );
+
+    return {
+      total: matching.length,
+      offset,
+      limit,
+      entries: matching.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * Get the full detail of one (filtered) entry: headers, query, body and timings.
+   * Sensitive header values are redacted the same way as in generated curl.
+   */
+  async getEntryDetail(
+    harId: string,
+    index: number,
+    scope: EntryScope = 'filtered',
+  ): Promise<EntryDetailDto> {
+    const stored = await this.requireHar(harId);
+    const { entries } = this.entriesInScope(stored, scope);
+    const entry = this.entryAt(entries, index);
+    return toEntryDetail(entry, index);
+  }
+
+  /**
+   * Build the value dependency graph of the entries in scope: every header,
+   * cookie, query or body value a request sends that an earlier response
+   * returned first.
+   */
+  async getDependencies(
+    harId: string,
+    scope: EntryScope = 'filtered',
+  ): Promise<DependencyGraphDto> {
+    const stored = await this.requireHar(harId);
+    const { entries, compactEntries } = this.entriesInScope(stored, scope);
+    return {
+      entries: entries.length,
+      dependencies: findValueDependencies(entries).map((dependency) =>
+        this.toDependencyDto(dependency, compactEntries),
+      ),
+    };
+  }
+
+  /**
+   * Export the chosen entries as a Postman Collection v2.1, one folder per host.
+   */
+  async exportPostman(
+    harId: string,
+    indices: number[],
+    scope: EntryScope = 'filtered',
+  ): Promise<PostmanCollection> {
+    const stored = await this.requireHar(harId);
+    const { entries } = this.entriesInScope(stored, scope);
+    const selected = [...new Set(indices)].map((index) => {
+      const entry = this.entryAt(entries, index);
+      assertHttpOrHttpsUrl(entry.request.url);
+      return { index, entry };
+    });
+    return toPostmanCollection(this.exportName(stored), selected);
+  }
+
+  /**
+   * Infer an OpenAPI 3.1 document from the stored entries in scope.
+   */
+  async generateOpenApi(
+    harId: string,
+    scope: EntryScope = 'filtered',
+  ): Promise<OpenApiDocument> {
+    const stored = await this.requireHar(harId);
+    const { entries } = this.entriesInScope(stored, scope);
+    return toOpenApiDocument(this.exportName(stored), entries);
+  }
+
+  /**
+   * Delete a stored HAR file.
+   */
+  async deleteHar(harId: string): Promise<void> {
+    if (!(await this.store.delete(harId))) {
       throw new NotFoundException(`HAR file not found (id: ${harId}).`);
     }
-    return stored.compactEntries;
+    this.logger.log(`Deleted HAR ${harId}`);
+  }
+
+  /**
+   * Load a stored HAR or throw a 404 explaining it may have expired.
+   */
+  private async requireHar(harId: string): Promise<StoredHar> {
+    const stored = await this.store.get(harId);
+    if (!stored) {
+      throw new NotFoundException(
+        `HAR file not found (id: ${harId}). It may have expired. Please re-upload.`,
+      );
+    }
+    return stored;
+  }
+
+  /**
+   * Pick the filtered (default) or unfiltered entry lists of a stored HAR.
+   */
+  private entriesInScope(
+    stored: StoredHar,
+    scope: EntryScope = 'filtered',
+  ): { entries: HarEntry[]; compactEntries: CompactEntry[] } {
+    return scope === 'all'
+      ? { entries: stored.allEntries, compactEntries: stored.allCompactEntries }
+      : { entries: stored.entries, compactEntries: stored.compactEntries };
+  }
+
+  /**
+   * Name for exported documents: the upload's file name without extensions.
+   */
+  private exportName(stored: StoredHarMetadata): string {
+    return (
+      stored.filename.replace(/\.(har|json|gz|br|zip)$/gi, '') || 'HAR export'
+    );
+  }
+
+  /**
+   * Look up an entry by index, throwing 404 when it is out of range.
+   */
+  private entryAt(entries: HarEntry[], index: number): HarEntry {
+    const entry = entries[index];
+    if (!entry) {
+      throw new NotFoundException(
+        `Entry ${index} not found (valid range: 0-${entries.length - 1})`,
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Describe a value dependency for clients, with a short preview of the
+   * value instead of the value itself.
+   */
+  private toDependencyDto(
+    dependency: ValueDependency,
+    compactEntries: CompactEntry[],
+  ): ValueDependencyDto {
+    const { source, value } = dependency;
+    const from = compactEntries[dependency.fromIndex];
+    return {
+      index: dependency.index,
+      location: dependency.location,
+      fromIndex: dependency.fromIndex,
+      source: {
+        kind: source.kind,
+        name:
+          source.kind === 'json'
+            ? formatJsonPath(source.path)
+            : source.kind === 'text'
+              ? source.prefix
+              : source.name,
+      },
+      // At most half of the value, so short cookies aren't shown whole
+      preview: `${value.slice(0, Math.min(6, Math.floor(value.length / 2)))}…`,
+      description: `${describeValueLocation(dependency.location)}: ${describeValueSource(source)} of #${from.index} ${from.method} ${from.url}`,
+    };
+  }
+
+  /** The byte cap of an execute request: its own `maxBytes`, at most the server's. */
+  private executeMaxBytesFor(dto: ExecuteRequestDto): number {
+    return Math.min(dto.maxBytes ?? this.executeMaxBytes, this.executeMaxBytes);
+  }
+
+  /**
+   * Send an execute request (its URL already validated), aborted by
+   * `signal`. Redirects are followed only to URLs that pass validateUrl too;
+   * each one followed is added to `redirects`.
+   */
+  private async fetchUpstream(
+    dto: ExecuteRequestDto,
+    redirects: RedirectHop[],
+    signal: AbortSignal,
+  ): Promise<Response> {
+    this.logger.log(`Executing ${dto.method} ${dto.url}`);
+
+    const hasBody = dto.method !== 'GET' && dto.method !== 'HEAD';
+    return fetchFollowingRedirects(
+      {
+        url: dto.url,
+        method: dto.method,
+        headers: dto.headers || {},
+        body: hasBody && dto.body ? dto.body : undefined,
+      },
+      {
+        maxRedirects: this.MAX_EXECUTE_REDIRECTS,
+        validate: validateUrl,
+        hops: redirects,
+        signal,
+      },
+    );
+  }
+
+  /** Response headers as a plain object. */
+  private responseHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return headers;
   }
 
   /**
-   * Clean up expired HAR data from memory.
+   * Read a body up to the byte cap with no overall time limit: the upstream
+   * is aborted through `upstream` only when it sends nothing for the proxy
+   * timeout.
    */
-  private cleanup(): void {
-    const now = Date.now();
-    let removed = 0;
-    for (const [id, data] of this.store.entries()) {
-      if (now - data.createdAt.getTime() > this.TTL_MS) {
-        this.store.delete(id);
-        removed++;
+  private async *readUntilIdle(
+    body: ReadableStream<Uint8Array>,
+    maxBytes: number,
+    upstream: AbortController,
+  ): AsyncGenerator<Uint8Array> {
+    let idle = this.abortAfterTimeout(upstream);
+    try {
+      for await (const chunk of readCappedBody(body, maxBytes)) {
+        // Time spent waiting on the client doesn't count as upstream idling
+        clearTimeout(idle);
+        yield chunk;
+        idle = this.abortAfterTimeout(upstream);
       }
+    } finally {
+      clearTimeout(idle);
     }
-    if (removed > 0) {
-      this.logger.log(`Cleaned up ${removed} expired HAR file(s)`);
+  }
+
+  /**
+   * Read a streamed body as text up to the byte cap, for as long as it keeps
+   * arriving, explaining a cut-off by the idle timeout.
+   */
+  private async *readStream(
+    body: ReadableStream<Uint8Array>,
+    maxBytes: number,
+    upstream: AbortController,
+  ): AsyncGenerator<string> {
+    try {
+      yield* decodeTextStream(this.readUntilIdle(body, maxBytes, upstream));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(
+          `Stream stalled: nothing received for ${this.EXECUTE_TIMEOUT_MS / 1000} seconds`,
+        );
+      }
+      throw error;
     }
   }
+
+  /**
+   * Read a downloaded body up to the byte cap, for as long as it keeps
+   * arriving. Hitting the cap ends the body quietly only when the truncation
+   * was already reported (a declared Content-Length over the cap); otherwise
+   * it throws, like a stall, so the download fails rather than passing for
+   * complete.
+   */
+  private async *readDownload(
+    body: ReadableStream<Uint8Array> | null,
+    maxBytes: number,
+    truncated: boolean,
+    upstream: AbortController,
+  ): AsyncGenerator<Uint8Array> {
+    if (!body) return;
+    try {
+      yield* this.readUntilIdle(body, maxBytes, upstream);
+    } catch (error) {
+      if (error instanceof BodyLimitError) {
+        if (truncated) return;
+        throw new Error(
+          `Download cut at the ${maxBytes}-byte cap (undeclared length)`,
+        );
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(
+          `Download stalled: nothing received for ${this.EXECUTE_TIMEOUT_MS / 1000} seconds`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /** Abort `controller` with a TimeoutError once the proxy timeout passes. */
+  private abortAfterTimeout(controller: AbortController): NodeJS.Timeout {
+    return setTimeout(
+      () =>
+        controller.abort(
+          new DOMException('The proxy timeout passed', 'TimeoutError'),
+        ),
+      this.EXECUTE_TIMEOUT_MS,
+    );
+  }
+
+  /**
+   * Generate the curl command, any requested code snippets and
+   * Execute-ready request details for an entry, plus the values it sends
+   * that earlier responses (in the same list) returned. A WebSocket gets
+   * frame replay scripts instead, with the websocat one as its "curl".
+   */
+  private buildCurlResult(
+    entries: HarEntry[],
+    compactEntries: CompactEntry[],
+    index: number,
+    languages: SnippetLanguage[] = [],
+  ): GenerateCurlResponseDto {
+    const entry = entries[index];
+    let curl: string;
+    let snippets: GenerateCurlResponseDto['snippets'];
+    let websocket: GenerateCurlResponseDto['websocket'];
+    if (isWebSocketEntry(entry)) {
+      assertWebSocketUrl(entry.request.url);
+      const messages = entry._webSocketMessages ?? [];
+      websocket = {
+        ...generateWebSocketScripts(entry),
+        sent: messages.filter((m) => m.type === 'send').length,
+        received: messages.filter((m) => m.type === 'receive').length,
+      };
+      curl = websocket.websocat;
+    } else {
+      assertHttpOrHttpsUrl(entry.request.url);
+      curl = generateCurl(entry);
+      snippets =
+        languages.length > 0 ? generateSnippets(entry, languages) : undefined;
+    }
+
+    // Extract full request details for the Execute button
+    const requestHeaders: Record<string, string> = {};
+    for (const h of entry.request.headers) {
+      const name = h.name.toLowerCase();
+      // Skip pseudo-headers and auto-set headers
+      if (
+        !name.startsWith(':') &&
+        name !== 'host' &&
+        name !== 'connection' &&
+        name !== 'content-length'
+      ) {
+        requestHeaders[h.name] = h.value;
+      }
+    }
+
+    const dependsOn = findRequestDependencies(entries, index).map(
+      (dependency) => this.toDependencyDto(dependency, compactEntries),
+    );
+
+    return {
+      curl,
+      snippets,
+      websocket,
+      matchedEntry: compactEntries[index],
+      dependsOn,
+      requestDetails: {
+        url: entry.request.url,
+        method: entry.request.method,
+        headers: requestHeaders,
+        body: entry.request.postData?.text || undefined,
+      },
+    };
+  }
+
+  private toSummary(har: StoredHarMetadata): HarSummaryDto {
+    return {
+      id: har.id,
+      filename: har.filename,
+      createdAt: har.createdAt.toISOString(),
+      expiresAt: this.store.expiresAt(har.createdAt).toISOString(),
+      stats: har.stats,
+      filterBreakdown: har.filterBreakdown,
+    };
+  }
 }
@@ -0,0 +1,83 @@
+import {
+  AnalysisCache,
+  AnalysisCacheKey,
+  analysisCacheKey,
+  CachedAnalysis,
+} from './analysis-cache';
+
+const TTL_MS = 60_000;
+
+const KEY: AnalysisCacheKey = {
+  summary: '[0] GET https://api.example.com/orders → 200 (application/json)',
+  description: 'List orders',
+  model: 'openai/gpt-4o-mini',
+  flags: { mode: 'single', candidates: true, reasoning: false },
+};
+
+/** Helper: a cached answer for the given index. */
+function makeAnswer(index = 0): CachedAnalysis {
+  return {
+    index,
+    explanation: `Entry ${index}`,
+    reasoning: '',
+    candidates: [],
+    model: 'gpt-4o-mini',
+  };
+}
+
+describe('analysisCacheKey', () => {
+  it('should ignore case, spacing and flag order in the key', () => {
+    expect(
+      analysisCacheKey({
+        ...KEY,
+        description: '  list   ORDERS ',
+        flags: { reasoning: false, candidates: true, mode: 'single' },
+      }),
+    ).toBe(analysisCacheKey(KEY));
+  });
+
+  it('should change with the summary, model or flags', () => {
+    const key = analysisCacheKey(KEY);
+    expect(analysisCacheKey({ ...KEY, summary: 'other' })).not.toBe(key);
+    expect(analysisCacheKey({ ...KEY, model: 'heuristic/heuristic' })).not.toBe(
+      key,
+    );
+    expect(
+      analysisCacheKey({ ...KEY, flags: { ...KEY.flags, mode: 'flow' } }),
+    ).not.toBe(key);
+  });
+});
+
+describe('AnalysisCache', () => {
+  it('should return stored answers', () => {
+    const cache = new AnalysisCache(10, TTL_MS);
+    cache.set('a', makeAnswer(3));
+    expect(cache.get('a')?.index).toBe(3);
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('should expire answers after the TTL', () => {
+    const cache = new AnalysisCache(10, TTL_MS);
+    cache.set('a', makeAnswer(), 0);
+    expect(cache.get('a', TTL_MS)).toBeDefined();
+    expect(cache.get('a', TTL_MS + 1)).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should evict the least recently used answer when full', () => {
+    const cache = new AnalysisCache(2, TTL_MS);
+    cache.set('a', makeAnswer(0));
+    cache.set('b', makeAnswer(1));
+    cache.get('a');
+    cache.set('c', makeAnswer(2));
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('should store nothing when the size is 0', () => {
+    const cache = new AnalysisCache(0, TTL_MS);
+    cache.set('a', makeAnswer());
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Analysis Cache
+ *
+ * Remembers LLM answers to /analyze so repeated runs of the same capture and
+ * question (demos, reruns) are answered instantly without spending tokens.
+ * Answers are keyed on what the LLM saw — the summary it was sent, the
+ * normalized description, the model and the option flags — so re-uploading
+ * the same HAR hits the cache too. Least recently used answers are evicted
+ * once the cache is full, and answers expire after the TTL.
+ */
+
+import { createHash } from 'crypto';
+import { IdentifyCandidate } from '../../llm/identify-response';
+import { FlowStepAnswer } from '../../llm/flow-response';
+
+/** Everything that shapes an LLM answer */
+export interface AnalysisCacheKey {
+  /** The summary lines sent to the LLM */
+  summary: string;
+  description: string;
+  /** Provider and model, e.g. "openai/gpt-4o-mini" */
+  model: string;
+  flags: Record<string, string | number | boolean>;
+}
+
+/** A cached LLM answer; token usage is left out since a hit costs none */
+export interface CachedAnalysis {
+  index: number;
+  explanation: string;
+  reasoning: string;
+  candidates: IdentifyCandidate[];
+  model: string;
+  /** Flow mode: the steps chosen, ending with the match */
+  flowSteps?: FlowStepAnswer[];
+}
+
+/** Lowercase and collapse whitespace, so trivially different descriptions share answers. */
+export function normalizeDescription(description: string): string {
+  return description.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Hash a key's parts into the string the cache is indexed by. */
+export function analysisCacheKey(key: AnalysisCacheKey): string {
+  const flags = Object.keys(key.flags)
+    .sort()
+    .map((name) => [name, key.flags[name]]);
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        key.summary,
+        normalizeDescription(key.description),
+        key.model,
+        flags,
+      ]),
+    )
+    .digest('hex');
+}
+
+export class AnalysisCache {
+  /** Insertion-ordered, so the first key is the least recently used */
+  private readonly answers = new Map<
+    string,
+    { answer: CachedAnalysis; storedAt: number }
+  >();
+
+  /** `maxEntries` of 0 disables the cache */
+  constructor(
+    readonly maxEntries: number,
+    readonly ttlMs: number,
+  ) {}
+
+  /** Number of answers currently held, expired ones included until touched */
+  get size(): number {
+    return this.answers.size;
+  }
+
+  /** Fetch an unexpired answer and mark it as recently used. */
+  get(key: string, now = Date.now()): CachedAnalysis | undefined {
+    const cached = this.answers.get(key);
+    if (!cached) return undefined;
+    this.answers.delete(key);
+    if (now - cached.storedAt > this.ttlMs) return undefined;
+    this.answers.set(key, cached);
+    return cached.answer;
+  }
+
+  /** Store an answer, evicting the least recently used ones beyond the size limit. */
+  set(key: string, answer: CachedAnalysis, now = Date.now()): void {
+    if (this.maxEntries <= 0) return;
+    this.answers.delete(key);
+    this.answers.set(key, { answer, storedAt: now });
+    for (const oldest of this.answers.keys()) {
+      if (this.answers.size <= this.maxEntries) break;
+      this.answers.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  AnalysisSession,
+  AnalysisSessionStore,
+} from './analysis-session.store';
+
+const TTL_MS = 60_000;
+const ID = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b';
+
+/** Helper: create a session last updated at `updatedAt`. */
+function makeSession(updatedAt = new Date()): AnalysisSession {
+  return {
+    id: ID,
+    harId: '7d9e0f1a-2b3c-4d5e-8f6a-7b8c9d0e1f2a',
+    description: 'list orders',
+    options: {
+      deduplication: true,
+      pathTemplating: true,
+      candidates: true,
+      reasoning: false,
+      bodyContext: false,
+      languages: [],
+      maxPatterns: 200,
+    },
+    answer: { index: 3, explanation: 'Orders endpoint' },
+    refinements: [],
+    updatedAt,
+  };
+}
+
+describe('AnalysisSessionStore', () => {
+  let store: AnalysisSessionStore;
+
+  beforeEach(() => {
+    store = new AnalysisSessionStore(TTL_MS);
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+  });
+
+  it('should round-trip a session', () => {
+    const session = makeSession();
+    store.set(session);
+    expect(store.get(ID)).toBe(session);
+  });
+
+  it('should return undefined for unknown IDs', () => {
+    expect(store.get(ID)).toBeUndefined();
+  });
+
+  it('should hide and clean up sessions idle for longer than the TTL', () => {
+    store.set(makeSession(new Date(Date.now() - TTL_MS - 1000)));
+    expect(store.get(ID)).toBeUndefined();
+    expect(store.cleanup()).toBe(1);
+    expect(store.cleanup()).toBe(0);
+  });
+
+  it('should keep sessions that were updated recently', () => {
+    store.set(makeSession(new Date(Date.now() - TTL_MS / 2)));
+    expect(store.cleanup()).toBe(0);
+    expect(store.get(ID)).toBeDefined();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Analysis Sessions
+ *
+ * The conversation behind one /analyze result: the original description,
+ * the options it ran with, and every answer the user replied to, so a reply
+ * like "no, the one that returns paginated results" can be asked with that
+ * context instead of starting a fresh analysis. Sessions are kept in process
+ * memory and expire after the HAR TTL, counted from the last reply.
+ */
+
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { LlmRefinement } from '../../llm/providers/llm-provider';
+import { SnippetLanguage } from '../utils/snippet-generator';
+
+/** The /analyze options a session re-runs with, defaults applied */
+export interface AnalysisSessionOptions {
+  deduplication: boolean;
+  pathTemplating: boolean;
+  candidates: boolean;
+  reasoning: boolean;
+  bodyContext: boolean;
+  languages: SnippetLanguage[];
+  maxPatterns: number;
+}
+
+export interface AnalysisSession {
+  id: string;
+  harId: string;
+  description: string;
+  options: AnalysisSessionOptions;
+  /** The answer currently shown to the user */
+  answer: { index: number; explanation: string };
+  /** Earlier answers and the user's reply to each, oldest first */
+  refinements: LlmRefinement[];
+  updatedAt: Date;
+}
+
+/** How often expired sessions are swept */
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class AnalysisSessionStore implements OnModuleDestroy {
+  private readonly logger = new Logger(AnalysisSessionStore.name);
+  private readonly sessions = new Map<string, AnalysisSession>();
+  private readonly cleanupTimer: NodeJS.Timeout;
+
+  constructor(readonly ttlMs: number) {
+    this.cleanupTimer = setInterval(() => {
+      const removed = this.cleanup();
+      if (removed > 0) {
+        this.logger.log(`Cleaned up ${removed} expired analysis session(s)`);
+      }
+    }, CLEANUP_INTERVAL_MS);
+    // Don't keep the process alive just for cleanup
+    this.cleanupTimer.unref();
+  }
+
+  /** Fetch a session, or undefined if it doesn't exist or has expired. */
+  get(id: string): AnalysisSession | undefined {
+    const session = this.sessions.get(id);
+    return session && !this.isExpired(session) ? session : undefined;
+  }
+
+  /** Store a session under its ID, replacing any previous version. */
+  set(session: AnalysisSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  /** Remove all expired sessions. Returns how many were removed. */
+  cleanup(now = Date.now()): number {
+    let removed = 0;
+    for (const [id, session] of this.sessions) {
+      if (this.isExpired(session, now)) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private isExpired(session: AnalysisSession, now = Date.now()): boolean {
+    return now - session.updatedAt.getTime() > this.ttlMs;
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.cleanupTimer);
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from 'fs/promises';
+import { join } from 'path';
+import { HarStore, StoredHar, StoredHarMetadata } from './har-store';
+
+/** Stored IDs are UUIDs; anything else could escape the storage directory */
+const ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DATA_SUFFIX = '.har.json';
+const META_SUFFIX = '.meta.json';
+
+/**
+ * Persists each HAR as a JSON file in a directory, with a small sidecar
+ * metadata file so listing doesn't have to read every capture.
+ * Survives restarts, and replicas that mount the same directory share uploads.
+ */
+export class FileSystemHarStore extends HarStore {
+  private readonly ready: Promise<string | undefined>;
+
+  constructor(
+    private readonly directory: string,
+    ttlMs: number,
+  ) {
+    super(ttlMs);
+    this.ready = mkdir(directory, { recursive: true });
+  }
+
+  async get(id: string): Promise<StoredHar | undefined> {
+    if (!ID_PATTERN.test(id)) return undefined;
+    const har = await this.readJson<StoredHar>(this.pathFor(id, DATA_SUFFIX));
+    return har && !this.isExpired(har.createdAt) ? har : undefined;
+  }
+
+  async list(): Promise<StoredHarMetadata[]> {
+    await this.ready;
+    const now = Date.now();
+    const metadata: StoredHarMetadata[] = [];
+    for (const name of await readdir(this.directory)) {
+      if (!name.endsWith(META_SUFFIX)) continue;
+      const meta = await this.readJson<StoredHarMetadata>(
+        join(this.directory, name),
+      );
+      if (meta && !this.isExpired(meta.createdAt, now)) metadata.push(meta);
+    }
+    return metadata;
+  }
+
+  async set(har: StoredHar): Promise<void> {
+    if (!ID_PATTERN.test(har.id)) throw new Error(`Invalid HAR id: ${har.id}`);
+    await this.ready;
+
+    const { id, filename, createdAt, stats, filterBreakdown } = har;
+    await this.writeJson(this.pathFor(id, DATA_SUFFIX), har);
+    await this.writeJson(this.pathFor(id, META_SUFFIX), {
+      id,
+      filename,
+      createdAt,
+      stats,
+      filterBreakdown,
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!ID_PATTERN.test(id)) return false;
+    await this.removeIfExists(this.pathFor(id, META_SUFFIX));
+    return this.removeIfExists(this.pathFor(id, DATA_SUFFIX));
+  }
+
+  async cleanup(): Promise<number> {
+    await this.ready;
+    const now = Date.now();
+    let removed = 0;
+    for (const name of await readdir(this.directory)) {
+      if (!name.endsWith('.json')) continue;
+      const path = join(this.directory, name);
+      try {
+        // Files are written once, so mtime is the creation time
+        const { mtime } = await stat(path);
+        if (this.isExpired(mtime, now)) {
+          await rm(path);
+          if (name.endsWith(DATA_SUFFIX)) removed++;
+        }
+      } catch (error) {
+        // Another replica may have removed it first
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+    return removed;
+  }
+
+  private pathFor(id: string, suffix: string): string {
+    return join(this.directory, `${id}${suffix}`);
+  }
+
+  /** Read a JSON file, reviving `createdAt`. Returns undefined if missing. */
+  private async readJson<T extends { createdAt: Date }>(
+    path: string,
+  ): Promise<T | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+    const parsed = JSON.parse(raw) as T & { createdAt: string };
+    return { ...parsed, createdAt: new Date(parsed.createdAt) };
+  }
+
+  /** Write to a temp file and rename so readers never see a partial file */
+  private async writeJson(path: string, value: unknown): Promise<void> {
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(value));
+    await rename(tempPath, path);
+  }
+
+  private async removeIfExists(path: string): Promise<boolean> {
+    try {
+      await rm(path);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AnalysisCache } from './analysis-cache';
+import { AnalysisSessionStore } from './analysis-session.store';
+import { FileSystemHarStore } from './file-system-har.store';
+import { HarStore } from './har-store';
+import { InMemoryHarStore } from './in-memory-har.store';
+
+/** Default time-to-live for uploaded HAR data */
+const DEFAULT_TTL_MINUTES = 30;
+
+/** Default number of cached analysis answers, and how long they are kept */
+const DEFAULT_ANALYSIS_CACHE_SIZE = 500;
+const DEFAULT_ANALYSIS_CACHE_TTL_MINUTES = 60;
+
+/**
+ * Provides the HarStore implementation selected by configuration:
+ * - HAR_STORAGE: "memory" (default) or "filesystem"
+ * - HAR_STORAGE_DIR: directory for the filesystem store
+ * - HAR_TTL_MINUTES: how long uploads are kept (default 30)
+ */
+export const harStoreProvider: Provider = {
+  provide: HarStore,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): HarStore => {
+    const ttlMinutes = Number(
+      configService.get<string>('HAR_TTL_MINUTES') ?? DEFAULT_TTL_MINUTES,
+    );
+    if (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0) {
+      throw new Error('HAR_TTL_MINUTES must be a positive number');
+    }
+    const ttlMs = ttlMinutes * 60 * 1000;
+
+    const driver = configService.get<string>('HAR_STORAGE') || 'memory';
+    switch (driver) {
+      case 'memory':
+        return new InMemoryHarStore(ttlMs);
+      case 'filesystem':
+        return new FileSystemHarStore(
+          configService.get<string>('HAR_STORAGE_DIR') ||
+            join(tmpdir(), 'har-to-curl'),
+          ttlMs,
+        );
+      default:
+        throw new Error(
+          `Unknown HAR_STORAGE "${driver}". Use "memory" or "filesystem".`,
+        );
+    }
+  },
+};
+
+/** Provides the AnalysisSessionStore; sessions expire like the HARs they refer to */
+export const analysisSessionStoreProvider: Provider = {
+  provide: AnalysisSessionStore,
+  inject: [HarStore],
+  useFactory: (harStore: HarStore): AnalysisSessionStore =>
+    new AnalysisSessionStore(harStore.ttlMs),
+};
+
+/**
+ * Provides the AnalysisCache configured by:
+ * - ANALYSIS_CACHE_SIZE: most answers kept (default 500, 0 disables caching)
+ * - ANALYSIS_CACHE_TTL_MINUTES: how long answers are kept (default 60)
+ */
+export const analysisCacheProvider: Provider = {
+  provide: AnalysisCache,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): AnalysisCache => {
+    const size = Number(
+      configService.get<string>('ANALYSIS_CACHE_SIZE') ??
+        DEFAULT_ANALYSIS_CACHE_SIZE,
+    );
+    if (!Number.isInteger(size) || size < 0) {
+      throw new Error('ANALYSIS_CACHE_SIZE must be a non-negative integer');
+    }
+    const ttlMinutes = Number(
+      configService.get<string>('ANALYSIS_CACHE_TTL_MINUTES') ??
+        DEFAULT_ANALYSIS_CACHE_TTL_MINUTES,
+    );
+    if (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0) {
+      throw new Error('ANALYSIS_CACHE_TTL_MINUTES must be a positive number');
+    }
+    return new AnalysisCache(size, ttlMinutes * 60 * 1000);
+  },
+};
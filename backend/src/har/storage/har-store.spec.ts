@@ -0,0 +1,166 @@
+import { mkdtemp, readdir, rm, utimes } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSystemHarStore } from './file-system-har.store';
+import { HarStore, StoredHar } from './har-store';
+import { InMemoryHarStore } from './in-memory-har.store';
+
+const TTL_MS = 60_000;
+const ID = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b';
+const FRESH_ID = '7d9e0f1a-2b3c-4d5e-8f6a-7b8c9d0e1f2a';
+
+/** Helper: create a minimal StoredHar for testing. */
+function makeHar(createdAt = new Date(), id = ID): StoredHar {
+  return {
+    id,
+    filename: 'capture.har',
+    createdAt,
+    stats: { total: 1, removed: 0, kept: 1 },
+    filterBreakdown: {
+      html: 0,
+      staticAssetMime: 0,
+      staticAssetUrl: 0,
+      tracking: 0,
+      dataBlob: 0,
+      redirects: 0,
+      options: 0,
+    },
+    entries: [],
+    compactEntries: [
+      {
+        index: 0,
+        method: 'GET',
+        url: 'https://api.example.com/data',
+        status: 200,
+        responseType: 'application/json',
+        responseSize: 10,
+      },
+    ],
+    allEntries: [],
+    allCompactEntries: [],
+  };
+}
+
+/** Shared behavior every HarStore implementation must satisfy. */
+function describeStore(
+  name: string,
+  create: () => Promise<HarStore>,
+  destroy: () => Promise<void> = async () => {},
+) {
+  describe(name, () => {
+    let store: HarStore;
+
+    beforeEach(async () => {
+      store = await create();
+    });
+
+    afterEach(async () => {
+      store.onModuleDestroy();
+      await destroy();
+    });
+
+    it('should round-trip a stored HAR', async () => {
+      const har = makeHar();
+      await store.set(har);
+      const loaded = await store.get(ID);
+      expect(loaded?.compactEntries).toEqual(har.compactEntries);
+      expect(loaded?.createdAt.getTime()).toBe(har.createdAt.getTime());
+    });
+
+    it('should return undefined for unknown IDs', async () => {
+      await expect(store.get(ID)).resolves.toBeUndefined();
+    });
+
+    it('should delete stored HARs', async () => {
+      await store.set(makeHar());
+      await expect(store.delete(ID)).resolves.toBe(true);
+      await expect(store.get(ID)).resolves.toBeUndefined();
+      await expect(store.delete(ID)).resolves.toBe(false);
+    });
+
+    it('should hide expired HARs from get()', async () => {
+      await store.set(makeHar(new Date(Date.now() - TTL_MS - 1000)));
+      await expect(store.get(ID)).resolves.toBeUndefined();
+    });
+
+    it('should list metadata for unexpired HARs only', async () => {
+      await store.set(makeHar());
+      await store.set(makeHar(new Date(Date.now() - TTL_MS - 1000), FRESH_ID));
+      const list = await store.list();
+      expect(list).toHaveLength(1);
+      expect(list[0]).toMatchObject({ id: ID, filename: 'capture.har' });
+      expect(list[0].createdAt).toBeInstanceOf(Date);
+      expect(list[0]).not.toHaveProperty('entries');
+    });
+
+    it('should compute expiry from the TTL', () => {
+      const createdAt = new Date('2024-01-01T00:00:00.000Z');
+      expect(store.expiresAt(createdAt).getTime()).toBe(
+        createdAt.getTime() + TTL_MS,
+      );
+    });
+  });
+}
+
+describeStore('InMemoryHarStore', () =>
+  Promise.resolve(new InMemoryHarStore(TTL_MS)),
+);
+
+describe('InMemoryHarStore cleanup', () => {
+  it('should remove only expired HARs', async () => {
+    const store = new InMemoryHarStore(TTL_MS);
+    await store.set(makeHar(new Date(Date.now() - TTL_MS - 1000)));
+    await store.set(makeHar(new Date(), FRESH_ID));
+    await expect(store.cleanup()).resolves.toBe(1);
+    await expect(store.get(FRESH_ID)).resolves.toBeDefined();
+    store.onModuleDestroy();
+  });
+});
+
+let directory: string;
+
+describeStore(
+  'FileSystemHarStore',
+  async () => {
+    directory = await mkdtemp(join(tmpdir(), 'har-store-'));
+    return new FileSystemHarStore(directory, TTL_MS);
+  },
+  () => rm(directory, { recursive: true, force: true }),
+);
+
+describe('FileSystemHarStore specifics', () => {
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'har-store-'));
+  });
+
+  afterEach(() => rm(directory, { recursive: true, force: true }));
+
+  it('should share data between instances using the same directory', async () => {
+    const a = new FileSystemHarStore(directory, TTL_MS);
+    const b = new FileSystemHarStore(directory, TTL_MS);
+    await a.set(makeHar());
+    await expect(b.get(ID)).resolves.toBeDefined();
+    a.onModuleDestroy();
+    b.onModuleDestroy();
+  });
+
+  it('should reject IDs that are not UUIDs', async () => {
+    const store = new FileSystemHarStore(directory, TTL_MS);
+    await expect(store.set(makeHar(new Date(), '../escape'))).rejects.toThrow(
+      'Invalid HAR id',
+    );
+    await expect(store.get('../escape')).resolves.toBeUndefined();
+    store.onModuleDestroy();
+  });
+
+  it('should remove expired files during cleanup', async () => {
+    const store = new FileSystemHarStore(directory, TTL_MS);
+    await store.set(makeHar());
+    const old = new Date(Date.now() - TTL_MS - 1000);
+    await utimes(join(directory, `${ID}.har.json`), old, old);
+    await utimes(join(directory, `${ID}.meta.json`), old, old);
+    await expect(store.cleanup()).resolves.toBe(1);
+    await expect(readdir(directory)).resolves.toEqual([]);
+    store.onModuleDestroy();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * HAR Storage
+ *
+ * Abstract storage for uploaded HAR files. Implementations own expiry:
+ * entries older than the TTL are invisible to get() and are removed by a
+ * periodic cleanup timer started in the constructor.
+ */
+
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { CompactEntry, FilterBreakdown, HarEntry } from '../utils/har-parser';
+
+/** Lightweight description of an upload, available without loading its entries */
+export interface StoredHarMetadata {
+  id: string;
+  filename: string;
+  createdAt: Date;
+  stats: { total: number; removed: number; kept: number };
+  filterBreakdown: FilterBreakdown;
+}
+
+export interface StoredHar extends StoredHarMetadata {
+  /** Filtered entries (potential API calls), bodies stripped */
+  entries: HarEntry[];
+  compactEntries: CompactEntry[];
+  /** Every entry in the capture, bodies stripped */
+  allEntries: HarEntry[];
+  allCompactEntries: CompactEntry[];
+}
+
+/** How often expired HAR data is swept */
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Base class for HAR stores. Also used as the Nest injection token, so
+ * consumers depend on `HarStore` and the configured implementation is
+ * supplied by `harStoreProvider`.
+ */
+export abstract class HarStore implements OnModuleDestroy {
+  protected readonly logger = new Logger(this.constructor.name);
+  private readonly cleanupTimer: NodeJS.Timeout;
+
+  constructor(readonly ttlMs: number) {
+    // Periodically clean up old stored HAR files
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup()
+        .then((removed) => {
+          if (removed > 0) {
+            this.logger.log(`Cleaned up ${removed} expired HAR file(s)`);
+          }
+        })
+        .catch((error: Error) =>
+          this.logger.error(`HAR cleanup failed: ${error.message}`),
+        );
+    }, CLEANUP_INTERVAL_MS);
+    // Don't keep the process alive just for cleanup
+    this.cleanupTimer.unref();
+  }
+
+  /** Fetch a stored HAR, or undefined if it doesn't exist or has expired. */
+  abstract get(id: string): Promise<StoredHar | undefined>;
+
+  /** List metadata for all unexpired HARs. */
+  abstract list(): Promise<StoredHarMetadata[]>;
+
+  /** Store a parsed HAR under its ID. */
+  abstract set(har: StoredHar): Promise<void>;
+
+  /** Remove a stored HAR. Returns false if it didn't exist. */
+  abstract delete(id: string): Promise<boolean>;
+
+  /** Remove all expired HARs. Returns how many were removed. */
+  abstract cleanup(): Promise<number>;
+
+  /** When a HAR created at `createdAt` expires. */
+  expiresAt(createdAt: Date): Date {
+    return new Date(createdAt.getTime() + this.ttlMs);
+  }
+
+  protected isExpired(createdAt: Date, now = Date.now()): boolean {
+    return now - createdAt.getTime() > this.ttlMs;
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.cleanupTimer);
+  }
+}
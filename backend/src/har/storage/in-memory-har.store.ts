@@ -0,0 +1,49 @@
+import { HarStore, StoredHar, StoredHarMetadata } from './har-store';
+
+/**
+ * Keeps HAR data in a process-local Map.
+ * Fast, but uploads are lost on restart and not shared between replicas.
+ */
+export class InMemoryHarStore extends HarStore {
+  private readonly store = new Map<string, StoredHar>();
+
+  get(id: string): Promise<StoredHar | undefined> {
+    const har = this.store.get(id);
+    if (!har || this.isExpired(har.createdAt)) {
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(har);
+  }
+
+  list(): Promise<StoredHarMetadata[]> {
+    const now = Date.now();
+    const metadata: StoredHarMetadata[] = [];
+    for (const har of this.store.values()) {
+      if (this.isExpired(har.createdAt, now)) continue;
+      const { id, filename, createdAt, stats, filterBreakdown } = har;
+      metadata.push({ id, filename, createdAt, stats, filterBreakdown });
+    }
+    return Promise.resolve(metadata);
+  }
+
+  set(har: StoredHar): Promise<void> {
+    this.store.set(har.id, har);
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.store.delete(id));
+  }
+
+  cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, data] of this.store.entries()) {
+      if (this.isExpired(data.createdAt, now)) {
+        this.store.delete(id);
+        removed++;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  describeKeys,
+  describeRequestBody,
+  describeResponseBody,
+  requestOperation,
+} from './body-context';
+import { HarEntry } from './har-parser';
+
+type NameValue = { name: string; value: string };
+
+/** Helper: create a minimal HarEntry for testing. */
+function makeEntry(overrides: {
+  headers?: NameValue[];
+  postData?: { mimeType: string; text: string; params?: NameValue[] };
+  responseText?: string;
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: overrides.postData ? 'POST' : 'GET',
+      url: 'https://api.example.com/graphql',
+      httpVersion: 'HTTP/2',
+      headers: overrides.headers || [],
+      queryString: [],
+      postData: overrides.postData,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      content: {
+        size: 0,
+        mimeType: 'application/json',
+        text: overrides.responseText,
+      },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+/** Helper: an entry with a JSON request body. */
+function jsonRequest(body: unknown): HarEntry {
+  return makeEntry({
+    postData: { mimeType: 'application/json', text: JSON.stringify(body) },
+  });
+}
+
+describe('describeKeys', () => {
+  it('should describe nested objects down to the given depth', () => {
+    const value = { data: { user: { id: 1 } }, errors: [] };
+    expect(describeKeys(value, 1)).toBe('{data,errors}');
+    expect(describeKeys(value, 2)).toBe('{data{user},errors[]}');
+  });
+
+  it('should describe arrays by their first object', () => {
+    expect(describeKeys([{ id: 1, title: 'a' }], 2)).toBe('[{id,title}]');
+    expect(describeKeys([1, 2], 2)).toBe('[]');
+  });
+
+  it('should cap the keys listed per level', () => {
+    const value = Object.fromEntries(
+      'abcdefghij'.split('').map((key) => [key, 1]),
+    );
+    expect(describeKeys(value, 1)).toBe('{a,b,c,d,e,f,g,h,…}');
+  });
+
+  it('should give nothing for primitives', () => {
+    expect(describeKeys('text', 2)).toBe('');
+    expect(describeKeys(undefined, 2)).toBe('');
+  });
+});
+
+describe('requestOperation', () => {
+  it('should read operation-naming headers such as SOAPAction', () => {
+    expect(
+      requestOperation(
+        makeEntry({
+          headers: [
+            { name: 'SOAPAction', value: '"http://example.com/ws/GetQuote"' },
+          ],
+        }),
+      ),
+    ).toBe('GetQuote');
+  });
+
+  it('should be undefined for ordinary and GraphQL requests', () => {
+    expect(requestOperation(jsonRequest({ email: 'a@b.c' }))).toBeUndefined();
+    expect(
+      requestOperation(jsonRequest({ operationName: 'A', query: '{ a }' })),
+    ).toBeUndefined();
+    expect(requestOperation(makeEntry({}))).toBeUndefined();
+  });
+});
+
+describe('describeRequestBody', () => {
+  it('should describe a GraphQL request by its variable names', () => {
+    expect(
+      describeRequestBody(
+        jsonRequest({
+          operationName: 'GetUser',
+          query: '{}',
+          variables: { id: 1, withPosts: true },
+        }),
+      ),
+    ).toBe('vars {id,withPosts}');
+  });
+
+  it('should list top-level JSON keys without values', () => {
+    const description = describeRequestBody(
+      jsonRequest({ email: 'a@b.c', password: 'hunter2', profile: { x: 1 } }),
+    );
+    expect(description).toBe('body {email,password,profile}');
+  });
+
+  it('should list form parameter names', () => {
+    expect(
+      describeRequestBody(
+        makeEntry({
+          postData: {
+            mimeType: 'application/x-www-form-urlencoded',
+            text: 'user=alice&token=abc123',
+          },
+        }),
+      ),
+    ).toBe('body {user,token}');
+  });
+
+  it('should be empty without a body', () => {
+    expect(describeRequestBody(makeEntry({}))).toBe('');
+  });
+});
+
+describe('describeResponseBody', () => {
+  it('should describe the key structure of a JSON response', () => {
+    expect(
+      describeResponseBody(
+        makeEntry({
+          responseText: '{"data":{"user":{"id":1}},"errors":null}',
+        }),
+      ),
+    ).toBe('returns {data{user},errors}');
+  });
+
+  it('should be empty when the body was dropped or is not JSON', () => {
+    expect(describeResponseBody(makeEntry({}))).toBe('');
+    expect(describeResponseBody(makeEntry({ responseText: '<html>' }))).toBe(
+      '',
+    );
+  });
+
+  it('should cap long descriptions', () => {
+    const wide = Object.fromEntries(
+      Array.from({ length: 8 }, (_, i) => [
+        `key${i}`,
+        Object.fromEntries(
+          Array.from({ length: 8 }, (_, j) => [`field${j}`, j]),
+        ),
+      ]),
+    );
+    const description = describeResponseBody(
+      makeEntry({ responseText: JSON.stringify(wide) }),
+    );
+    expect(description.length).toBe(120);
+    expect(description.endsWith('…')).toBe(true);
+  });
+});
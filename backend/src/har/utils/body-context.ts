@@ -0,0 +1,131 @@
+/**
+ * Body Context
+ *
+ * Compact descriptions of an entry's bodies for the opt-in context column of
+ * the LLM summary. Method and URL can't tell apart operations that share an
+ * endpoint (GraphQL, JSON-RPC, SOAP) or say what an endpoint returns, so a
+ * summary line may carry the operation a request names in a header, its body
+ * keys (GraphQL variable names) and the response's key structure. GraphQL
+ * operation names are always in the summary (see graphql.ts). Only names are
+ * described, never values: they cost few tokens and don't leak captured data
+ * into the prompt.
+ */
+
+import { parseGraphqlRequest } from './graphql';
+import { HarEntry } from './har-parser';
+import { isRecord, tryParseJson } from './json';
+
+/** Keys listed per object level; the rest are shown as "…" */
+const MAX_KEYS = 8;
+
+/** Object levels described in a response's key structure */
+const MAX_RESPONSE_DEPTH = 2;
+
+/** Longest description of either body */
+const MAX_DESCRIPTION_LENGTH = 120;
+
+/** Headers APIs name the called operation with (SOAP, AWS JSON, Apollo) */
+const OPERATION_HEADER =
+  /^(soapaction|x-amz-target|x-(?:[\w-]+-)?operation(?:-name)?)$/i;
+
+/** Cap a description's length. */
+function clip(text: string): string {
+  return text.length > MAX_DESCRIPTION_LENGTH
+    ? `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Describe the key structure of a JSON value down to `depth` object levels,
+ * e.g. `{data{user},errors}` or `[{id,title}]`. Arrays are described by
+ * their first object element; primitives have no structure and give "".
+ */
+export function describeKeys(value: unknown, depth: number): string {
+  if (Array.isArray(value)) {
+    const first: unknown = value.find(
+      (item) => item !== null && typeof item === 'object',
+    );
+    return `[${first === undefined ? '' : describeKeys(first, depth)}]`;
+  }
+  if (!isRecord(value)) return '';
+
+  const keys = Object.keys(value);
+  const listed = keys
+    .slice(0, MAX_KEYS)
+    .map((key) =>
+      depth > 1 ? `${key}${describeKeys(value[key], depth - 1)}` : key,
+    );
+  if (keys.length > MAX_KEYS) listed.push('…');
+  return `{${listed.join(',')}}`;
+}
+
+/**
+ * The operation a request names in a header such as SOAPAction, for APIs
+ * whose URL doesn't say. Undefined for ordinary requests.
+ */
+export function requestOperation(entry: HarEntry): string | undefined {
+  const header = entry.request.headers.find((h) =>
+    OPERATION_HEADER.test(h.name),
+  );
+  // SOAPAction values are quoted URIs; the last segment names the operation
+  return header?.value.replace(/"/g, '').split(/[/#]/).pop() || undefined;
+}
+
+/** Label a key structure, or give "" when there are no keys to show. */
+function labelled(label: string, keys: string): string {
+  return keys && keys !== '{}' && keys !== '[]' ? `${label} ${keys}` : '';
+}
+
+/** The fields a request sends: GraphQL variables, JSON keys or form parameters. */
+function describeRequestFields(entry: HarEntry): string {
+  const graphql = parseGraphqlRequest(entry);
+  if (graphql.length > 0) {
+    // query/variables/operationName say nothing; the variable names do
+    return graphql.length === 1
+      ? labelled('vars', describeKeys(graphql[0].variables, 1))
+      : '';
+  }
+
+  const postData = entry.request.postData;
+  if (!postData) return '';
+
+  if (postData.params && postData.params.length > 0) {
+    const params = Object.fromEntries(postData.params.map((p) => [p.name, '']));
+    return labelled('body', describeKeys(params, 1));
+  }
+
+  const body = tryParseJson(postData.text);
+  if (body !== undefined) return labelled('body', describeKeys(body, 1));
+
+  if (/x-www-form-urlencoded/i.test(postData.mimeType) && postData.text) {
+    const params = Object.fromEntries(new URLSearchParams(postData.text));
+    return labelled('body', describeKeys(params, 1));
+  }
+  return '';
+}
+
+/**
+ * Describe a request body, e.g. `vars {id}` for GraphQL, `body {email,password}`
+ * for JSON and forms, or `op GetQuote` for SOAP. Empty when there's nothing
+ * to say.
+ */
+export function describeRequestBody(entry: HarEntry): string {
+  const operation = requestOperation(entry);
+  const parts = [
+    operation ? `op ${operation}` : '',
+    describeRequestFields(entry),
+  ];
+  return clip(parts.filter(Boolean).join('; '));
+}
+
+/**
+ * Describe the key structure of a retained JSON response body, e.g.
+ * `returns {data{user},errors}`. Empty when the body was dropped or isn't JSON.
+ */
+export function describeResponseBody(entry: HarEntry): string {
+  const keys = describeKeys(
+    tryParseJson(entry.response.content.text),
+    MAX_RESPONSE_DEPTH,
+  );
+  return clip(labelled('returns', keys));
+}
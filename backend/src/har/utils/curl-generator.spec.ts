@@ -167,4 +167,98 @@ describe('generateCurl', () => {
     );
     expect(curl).toContain(' \\\n  ');
   });
+
+  it('should place extra flags right after curl', () => {
+    const curl = generateCurl(makeEntry({}), { flags: ['-sS', '-o out.json'] });
+    expect(curl.split(' \\\n  ')[0]).toBe('curl -sS -o out.json');
+  });
+
+  it('should splice variables into the URL, headers and body', () => {
+    const curl = generateCurl(
+      makeEntry({
+        method: 'POST',
+        url: 'https://api.example.com/orders?token=abc123',
+        headers: [{ name: 'X-Csrf', value: 'csrf-456' }],
+        postData: { mimeType: 'application/json', text: '{"id":"abc123"}' },
+      }),
+      {
+        variables: new Map([
+          ['abc123', 'TOKEN'],
+          ['csrf-456', 'CSRF'],
+        ]),
+      },
+    );
+    expect(curl).toContain(
+      `'https://api.example.com/orders?token='"\${TOKEN}"`,
+    );
+    expect(curl).toContain(`-H 'X-Csrf: '"\${CSRF}"`);
+    expect(curl).toContain(`--data-raw '{"id":"'"\${TOKEN}"'"}'`);
+  });
+
+  it('should keep captured parts of sensitive headers and redact the rest', () => {
+    const curl = generateCurl(
+      makeEntry({
+        headers: [
+          { name: 'Authorization', value: 'Bearer tok123' },
+          { name: 'Cookie', value: 'session=sess42; theme=dark' },
+          { name: 'X-Api-Key', value: 'key-999' },
+        ],
+      }),
+      {
+        variables: new Map([
+          ['tok123', 'TOKEN'],
+          ['sess42', 'SESSION'],
+        ]),
+      },
+    );
+    expect(curl).toContain(`-H 'Authorization: Bearer '"\${TOKEN}"`);
+    expect(curl).toContain(
+      `-H 'Cookie: session='"\${SESSION}"'; theme=[REDACTED]'`,
+    );
+    expect(curl).toContain("-H 'X-Api-Key: [REDACTED]'");
+  });
+
+  it('should pretty-print GraphQL queries and variables', () => {
+    const curl = generateCurl(
+      makeEntry({
+        method: 'POST',
+        url: 'https://api.example.com/graphql',
+        postData: {
+          mimeType: 'application/json',
+          text: JSON.stringify({
+            operationName: 'GetCart',
+            query:
+              'query GetCart($id: ID!) {\n  cart(id: $id) {\n    items\n  }\n}',
+            variables: { id: 'c1' },
+          }),
+        },
+      }),
+    );
+    expect(curl).toContain(`--data-raw '{
+  "operationName": "GetCart",
+  "query": "query GetCart($id: ID!) { cart(id: $id) { items } }",
+  "variables": {
+    "id": "c1"
+  }
+}'`);
+  });
+
+  it('should send other JSON bodies as captured', () => {
+    const text = '{"query":"shoes","page":2}';
+    const curl = generateCurl(
+      makeEntry({
+        method: 'POST',
+        postData: { mimeType: 'application/json', text },
+      }),
+    );
+    expect(curl).toContain(`--data-raw '${text}'`);
+  });
+
+  it('should disable buffering for streaming responses', () => {
+    const entry = makeEntry({
+      headers: [{ name: 'Accept', value: 'text/event-stream' }],
+    });
+    expect(generateCurl(entry)).toMatch(/^curl -N \\\n/);
+    expect(generateCurl(makeEntry({}))).not.toContain('-N');
+  });
 });
@@ -4,7 +4,9 @@
  * Converts a HAR entry into an executable curl command.
  */
 
+import { formatGraphqlBody } from './graphql';
 import { HarEntry } from './har-parser';
+import { detectStreaming } from './streaming';
 
 /** Headers that are typically set automatically by curl and should be skipped */
 const SKIP_HEADERS = new Set([
@@ -22,18 +24,68 @@ const SKIP_HEADERS = new Set([
 const SENSITIVE_HEADERS = new Set([
   'authorization',
   'cookie',
+  'set-cookie',
   'x-api-key',
   'x-auth-token',
   'proxy-authorization',
 ]);
 
+/** Placeholder shown instead of a sensitive header value */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Check whether a header is set automatically by the client and should be skipped.
+ */
+export function isSkippedHeader(name: string): boolean {
+  return SKIP_HEADERS.has(name.toLowerCase());
+}
+
+/**
+ * Check whether a header's value should be redacted when displayed.
+ */
+export function isSensitiveHeader(name: string): boolean {
+  return SENSITIVE_HEADERS.has(name.toLowerCase());
+}
+
+/**
+ * Copy a header list with sensitive values replaced by [REDACTED].
+ */
+export function redactHeaders(
+  headers: Array<{ name: string; value: string }>,
+): Array<{ name: string; value: string }> {
+  return headers.map((h) => ({
+    name: h.name,
+    value: isSensitiveHeader(h.name) ? REDACTED : h.value,
+  }));
+}
+
+/** Options for generating curl commands that are part of a larger script */
+export interface CurlOptions {
+  /** Extra flags placed right after `curl`, e.g. `-sS` */
+  flags?: string[];
+  /**
+   * Literal values to replace with shell variables (value → variable name).
+   * Sensitive headers are kept where they consist of such variables and
+   * redacted otherwise.
+   */
+  variables?: ReadonlyMap<string, string>;
+}
+
 /**
  * Generate a curl command from a HAR entry.
  */
-export function generateCurl(entry: HarEntry): string {
+export function generateCurl(
+  entry: HarEntry,
+  options: CurlOptions = {},
+): string {
   const { request } = entry;
   const method = request.method.toUpperCase();
-  const parts: string[] = ['curl'];
+  const variables = options.variables ?? new Map<string, string>();
+  const quote = (str: string) => quoteWithVariables(str, variables);
+  const flags = [...(options.flags ?? [])];
+  // Print streamed events as they arrive instead of buffering them
+  if (detectStreaming(entry)) flags.push('-N');
+  const parts: string[] = [['curl', ...flags].join(' ')];
 
   const hasBody =
     !!request.postData?.text ||
@@ -48,40 +100,79 @@ export function generateCurl(entry: HarEntry): string {
   }
 
   // URL (with query string already embedded)
-  parts.push(`'${escapeShell(request.url)}'`);
+  parts.push(quote(request.url));
 
   // Headers
-  const headers = request.headers.filter(
-    (h) => !SKIP_HEADERS.has(h.name.toLowerCase()),
-  );
+  const headers = request.headers.filter((h) => !isSkippedHeader(h.name));
 
   for (const header of headers) {
-    const value = SENSITIVE_HEADERS.has(header.name.toLowerCase())
-      ? '[REDACTED]'
+    const value = isSensitiveHeader(header.name)
+      ? redactUnlessVariable(header.value, variables)
       : header.value;
-    parts.push(`-H '${escapeShell(`${header.name}: ${value}`)}'`);
+    parts.push(`-H ${quote(`${header.name}: ${value}`)}`);
   }
 
-  // Request body
+  // Request body (GraphQL bodies pretty-printed, see formatGraphqlBody)
   if (request.postData?.text) {
-    const body = request.postData.text;
+    const body = formatGraphqlBody(entry) ?? request.postData.text;
     // Use --data-raw to avoid interpretation of @ and other special chars
-    parts.push(`--data-raw '${escapeShell(body)}'`);
+    parts.push(`--data-raw ${quote(body)}`);
   } else if (request.postData?.params && request.postData.params.length > 0) {
     // Form data
     for (const param of request.postData.params) {
-      parts.push(
-        `--data-urlencode '${escapeShell(`${param.name}=${param.value}`)}'`,
-      );
+      parts.push(`--data-urlencode ${quote(`${param.name}=${param.value}`)}`);
     }
   }
 
   return parts.join(' \\\n  ');
 }
 
+/**
+ * Redact a sensitive header value, keeping only the `;`-separated parts
+ * (e.g. cookies) that contain a variable value and the names of the rest.
+ */
+function redactUnlessVariable(
+  value: string,
+  variables: ReadonlyMap<string, string>,
+): string {
+  const hasVariable = (part: string) =>
+    [...variables.keys()].some((literal) => part.includes(literal));
+  if (!hasVariable(value)) return REDACTED;
+
+  return value
+    .split('; ')
+    .map((part) => {
+      if (hasVariable(part)) return part;
+      const eq = part.indexOf('=');
+      return eq > 0 ? `${part.slice(0, eq)}=${REDACTED}` : REDACTED;
+    })
+    .join('; ');
+}
+
+/**
+ * Single-quote a string for the shell, splicing in `"${NAME}"` wherever one
+ * of the variable values (or its URL-encoded form) occurs.
+ */
+function quoteWithVariables(
+  str: string,
+  variables: ReadonlyMap<string, string>,
+): string {
+  let quoted = `'${escapeShell(str)}'`;
+  // Longest first, so a value that contains another is replaced whole
+  const literals = [...variables.keys()].sort((a, b) => b.length - a.length);
+  for (const literal of literals) {
+    const reference = `'"\${${variables.get(literal)}}"'`;
+    for (const form of new Set([literal, encodeURIComponent(literal)])) {
+      quoted = quoted.split(escapeShell(form)).join(reference);
+    }
+  }
+  // Drop the empty quotes left when a variable starts or ends the string
+  return quoted.replace(/^''(?=")/, '').replace(/(?<=")''$/, '');
+}
+
 /**
  * Escape single quotes for shell safety.
  */
-function escapeShell(str: string): string {
+export function escapeShell(str: string): string {
   return str.replace(/'/g, "'\\''");
 }
@@ -0,0 +1,104 @@
+import { toEntryDetail } from './entry-detail';
+import { HarEntry } from './har-parser';
+
+/** Helper: create a minimal HarEntry for detail tests. */
+function makeEntry(overrides: {
+  url?: string;
+  headers?: Array<{ name: string; value: string }>;
+  responseHeaders?: Array<{ name: string; value: string }>;
+  queryString?: Array<{ name: string; value: string }>;
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 120,
+    request: {
+      method: 'POST',
+      url: overrides.url || 'https://api.example.com/search?q=cats&page=2',
+      httpVersion: 'HTTP/2',
+      headers: overrides.headers || [],
+      queryString: overrides.queryString || [],
+      postData: { mimeType: 'application/json', text: '{"q":"cats"}' },
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: overrides.responseHeaders || [],
+      content: { size: 2048, mimeType: 'application/json' },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { dns: 5, connect: 10, send: 1, wait: 90, receive: 14 },
+  };
+}
+
+describe('toEntryDetail', () => {
+  it('should include request, response and timing details', () => {
+    const detail = toEntryDetail(makeEntry({}), 3);
+    expect(detail.index).toBe(3);
+    expect(detail.startedDateTime).toBe('2024-01-01T00:00:00.000Z');
+    expect(detail.request.postData?.text).toBe('{"q":"cats"}');
+    expect(detail.response).toMatchObject({
+      status: 200,
+      mimeType: 'application/json',
+      size: 2048,
+    });
+    expect(detail.timings).toEqual({
+      dns: 5,
+      connect: 10,
+      send: 1,
+      wait: 90,
+      receive: 14,
+    });
+  });
+
+  it('should redact sensitive request and response headers', () => {
+    const detail = toEntryDetail(
+      makeEntry({
+        headers: [
+          { name: 'Accept', value: 'application/json' },
+          { name: 'Authorization', value: 'Bearer secret' },
+          { name: 'Cookie', value: 'session=abc' },
+        ],
+        responseHeaders: [{ name: 'Set-Cookie', value: 'session=xyz' }],
+      }),
+      0,
+    );
+    expect(detail.request.headers).toEqual([
+      { name: 'Accept', value: 'application/json' },
+      { name: 'Authorization', value: '[REDACTED]' },
+      { name: 'Cookie', value: '[REDACTED]' },
+    ]);
+    expect(detail.response.headers).toEqual([
+      { name: 'Set-Cookie', value: '[REDACTED]' },
+    ]);
+  });
+
+  it('should use the HAR queryString when present', () => {
+    const queryString = [{ name: 'q', value: 'from-har' }];
+    const detail = toEntryDetail(makeEntry({ queryString }), 0);
+    expect(detail.request.queryString).toEqual(queryString);
+  });
+
+  it('should include the frames of a WebSocket', () => {
+    const entry = makeEntry({});
+    entry._webSocketMessages = [
+      { type: 'send', time: 1, opcode: 1, data: '{"type":"subscribe"}' },
+    ];
+    expect(toEntryDetail(entry, 0).webSocketMessages).toEqual(
+      entry._webSocketMessages,
+    );
+  });
+
+  it('should parse the query string from the URL when the HAR omits it', () => {
+    const detail = toEntryDetail(makeEntry({}), 0);
+    expect(detail.request.queryString).toEqual([
+      { name: 'q', value: 'cats' },
+      { name: 'page', value: '2' },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Entry Detail
+ *
+ * Builds the full, display-safe view of a single HAR entry: headers, query
+ * string, request body, timings and WebSocket frames, with sensitive header
+ * values redacted using the same rules as the curl generator.
+ */
+
+import { redactHeaders } from './curl-generator';
+import { HarEntry, WebSocketMessage } from './har-parser';
+
+type NameValue = { name: string; value: string };
+
+export interface EntryDetail {
+  index: number;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: NameValue[];
+    queryString: NameValue[];
+    postData?: { mimeType: string; text: string; params?: NameValue[] };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: NameValue[];
+    mimeType: string;
+    size: number;
+    redirectURL: string;
+  };
+  timings: HarEntry['timings'];
+  webSocketMessages?: WebSocketMessage[];
+}
+
+/**
+ * Build the detail view for an entry at the given index.
+ */
+export function toEntryDetail(entry: HarEntry, index: number): EntryDetail {
+  const { request, response } = entry;
+
+  return {
+    index,
+    startedDateTime: entry.startedDateTime,
+    time: entry.time,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: request.httpVersion,
+      headers: redactHeaders(request.headers),
+      queryString: parseQueryString(entry),
+      postData: request.postData,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: response.httpVersion,
+      headers: redactHeaders(response.headers),
+      mimeType: response.content.mimeType || 'unknown',
+      size: response.content.size || 0,
+      redirectURL: response.redirectURL,
+    },
+    timings: entry.timings,
+    webSocketMessages: entry._webSocketMessages,
+  };
+}
+
+/**
+ * Use the HAR's parsed queryString, falling back to parsing the URL
+ * (some exporters leave queryString empty).
+ */
+function parseQueryString(entry: HarEntry): NameValue[] {
+  if (entry.request.queryString?.length) {
+    return entry.request.queryString;
+  }
+  try {
+    return Array.from(
+      new URL(entry.request.url).searchParams,
+      ([name, value]) => ({
+        name,
+        value,
+      }),
+    );
+  } catch {
+    return [];
+  }
+}
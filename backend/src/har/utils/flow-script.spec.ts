@@ -0,0 +1,214 @@
+import { generateFlowScript, toJqPath } from './flow-script';
+import { HarEntry } from './har-parser';
+
+type NameValue = { name: string; value: string };
+
+/** Helper: create a HarEntry with the given request and response parts. */
+function makeEntry(overrides: {
+  method?: string;
+  url?: string;
+  headers?: NameValue[];
+  postData?: { mimeType: string; text: string };
+  responseHeaders?: NameValue[];
+  responseText?: string;
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: overrides.method || 'GET',
+      url: overrides.url || 'https://api.example.com/data',
+      httpVersion: 'HTTP/2',
+      headers: overrides.headers || [],
+      queryString: [],
+      postData: overrides.postData,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: overrides.responseHeaders || [],
+      content: {
+        size: 0,
+        mimeType: 'application/json',
+        text: overrides.responseText,
+      },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+const LOGIN = makeEntry({
+  method: 'POST',
+  url: 'https://api.example.com/login',
+  postData: { mimeType: 'application/json', text: '{"user":"bob"}' },
+  responseHeaders: [{ name: 'Set-Cookie', value: 'session=sess-123; Path=/' }],
+  responseText: '{"data":{"access_token":"tok_42abc"}}',
+});
+
+const CSRF = makeEntry({
+  url: 'https://api.example.com/csrf',
+  headers: [{ name: 'Cookie', value: 'session=sess-123' }],
+  responseHeaders: [{ name: 'X-CSRF-Token', value: 'csrf-98765' }],
+});
+
+const ORDERS = makeEntry({
+  method: 'POST',
+  url: 'https://api.example.com/orders',
+  headers: [
+    { name: 'Authorization', value: 'Bearer tok_42abc' },
+    { name: 'X-CSRF-Token', value: 'csrf-98765' },
+    { name: 'Cookie', value: 'session=sess-123; theme=dark' },
+  ],
+  postData: { mimeType: 'application/json', text: '{"item":42}' },
+});
+
+describe('toJqPath', () => {
+  it('should build a jq filter for object keys and array indices', () => {
+    expect(toJqPath(['data', 0, 'access_token'])).toBe('.data[0].access_token');
+    expect(toJqPath(['access-token'])).toBe('.["access-token"]');
+    expect(toJqPath([0, 'id'])).toBe('.[0].id');
+  });
+});
+
+describe('generateFlowScript', () => {
+  const steps = [
+    { entry: LOGIN, purpose: 'Log in' },
+    { entry: CSRF, purpose: 'Fetch the CSRF token' },
+    { entry: ORDERS, purpose: 'Create the order' },
+  ];
+
+  it('should capture one variable per source, named after it', () => {
+    const { variables } = generateFlowScript(steps);
+    expect(variables).toEqual([
+      { name: 'SESSION', step: 0, source: { kind: 'cookie', name: 'session' } },
+      {
+        name: 'ACCESS_TOKEN',
+        step: 0,
+        source: { kind: 'json', path: ['data', 'access_token'] },
+      },
+      {
+        name: 'X_CSRF_TOKEN',
+        step: 1,
+        source: { kind: 'header', name: 'x-csrf-token' },
+      },
+    ]);
+  });
+
+  it('should read each variable right after its step', () => {
+    const { script } = generateFlowScript(steps);
+    expect(script).toContain(
+      `SESSION=$(cookie "$WORKDIR/step1.headers" 'session')`,
+    );
+    expect(script).toContain(
+      `ACCESS_TOKEN=$(jq -r '.data.access_token // empty' "$WORKDIR/step1.body")`,
+    );
+    expect(script).toContain(
+      `X_CSRF_TOKEN=$(header "$WORKDIR/step2.headers" 'x-csrf-token')`,
+    );
+    expect(script).toContain(
+      ': "${X_CSRF_TOKEN:?step 2 did not return X_CSRF_TOKEN}"',
+    );
+    expect(script.indexOf('X_CSRF_TOKEN=')).toBeGreaterThan(
+      script.indexOf('# Step 2'),
+    );
+  });
+
+  it('should splice variables into later requests', () => {
+    const { script } = generateFlowScript(steps);
+    expect(script).toContain(`-H 'Authorization: Bearer '"\${ACCESS_TOKEN}"`);
+    expect(script).toContain(`-H 'X-CSRF-Token: '"\${X_CSRF_TOKEN}"`);
+    expect(script).toContain(
+      `-H 'Cookie: session='"\${SESSION}"'; theme=[REDACTED]'`,
+    );
+  });
+
+  it('should save intermediate responses and print only the last', () => {
+    const { script } = generateFlowScript(steps);
+    expect(script).toContain(
+      'curl -sS -D "$WORKDIR/step1.headers" -o "$WORKDIR/step1.body"',
+    );
+    expect(script).toContain("curl -sS \\\n  'https://api.example.com/orders'");
+  });
+
+  it('should label each step with its method, URL and purpose', () => {
+    const { script } = generateFlowScript(steps);
+    expect(script).toContain(
+      '# Step 3: POST https://api.example.com/orders\n# Create the order',
+    );
+  });
+
+  it('should keep line breaks in captured text from ending a comment', () => {
+    const { script } = generateFlowScript([
+      {
+        entry: makeEntry({
+          method: 'GET\rX',
+          url: 'https://api.example.com/a\ntouch /tmp/pwned\u001b',
+        }),
+        purpose: 'Fetch\nrm -rf ~',
+      },
+    ]);
+    expect(script).toContain(
+      '# Step 1: GET X https://api.example.com/a touch /tmp/pwned \n# Fetch rm -rf ~\n',
+    );
+  });
+
+  it('should only include the helpers the script uses', () => {
+    const { script } = generateFlowScript([
+      { entry: LOGIN, purpose: 'Log in' },
+      {
+        entry: makeEntry({
+          headers: [{ name: 'Authorization', value: 'Bearer tok_42abc' }],
+        }),
+        purpose: 'Target',
+      },
+    ]);
+    expect(script).not.toContain('cookie()');
+    expect(script).not.toContain('header()');
+    expect(script).toContain('jq');
+  });
+
+  it('should read values from text bodies with the text helper', () => {
+    const { script, variables } = generateFlowScript([
+      {
+        entry: makeEntry({
+          url: 'https://app.example.com/form',
+          responseText: '<input name="csrf_token" value="f00d-4242">',
+        }),
+        purpose: 'Load the form',
+      },
+      {
+        entry: makeEntry({
+          method: 'POST',
+          url: 'https://app.example.com/submit',
+          postData: {
+            mimeType: 'application/x-www-form-urlencoded',
+            text: 'csrf_token=f00d-4242',
+          },
+        }),
+        purpose: 'Submit',
+      },
+    ]);
+    expect(variables.map((variable) => variable.name)).toEqual(['CSRF_TOKEN']);
+    expect(script).toContain('text() {');
+    expect(script).toContain(
+      `CSRF_TOKEN=$(text "$WORKDIR/step1.body" '<input name="csrf_token" value="' '"')`,
+    );
+    expect(script).toContain(`--data-raw 'csrf_token='"\${CSRF_TOKEN}"`);
+  });
+
+  it('should start with a shebang and stop on errors', () => {
+    const { script } = generateFlowScript([
+      { entry: ORDERS, purpose: 'Target' },
+    ]);
+    expect(script.startsWith('#!/usr/bin/env bash\n')).toBe(true);
+    expect(script).toContain('set -eu');
+    expect(script).toContain('Request flow with 1 step,');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Flow Script Generator
+ *
+ * Turns an ordered chain of HAR entries (e.g. login → CSRF fetch → target)
+ * into one bash script. Each request becomes a curl command; values a later
+ * request needs from an earlier response (see value-flow) are captured into
+ * shell variables and spliced into the requests that use them.
+ */
+
+import { escapeShell, generateCurl } from './curl-generator';
+import { HarEntry } from './har-parser';
+import {
+  findValueDependencies,
+  ValueDependency,
+  ValueSource,
+} from './value-flow';
+
+export interface FlowScriptStep {
+  entry: HarEntry;
+  /** Why the step is in the flow; becomes the step's comment */
+  purpose: string;
+}
+
+/** A value captured from one step's response for use in later steps */
+export interface FlowVariable {
+  /** Shell variable name */
+  name: string;
+  /** Position of the step whose response provides the value */
+  step: number;
+  source: ValueSource;
+}
+
+export interface FlowScript {
+  script: string;
+  variables: FlowVariable[];
+}
+
+/** Shell functions the capture lines rely on, included when used */
+const HELPERS: Record<'header' | 'cookie' | 'text', string> = {
+  header: `# Print a response header's value: header FILE NAME
+header() { grep -i "^$2:" "$1" | head -n 1 | cut -d: -f2- | sed 's/^ *//' | tr -d '\\r'; }`,
+  cookie: `# Print the value of a cookie set by a response: cookie FILE NAME
+cookie() { grep -i '^set-cookie:' "$1" | sed 's/^[^:]*: *//' | grep "^$2=" | head -n 1 | cut -d';' -f1 | cut -d= -f2- | tr -d '\\r'; }`,
+  text: `# Print the text between PREFIX and the next SUFFIX character in a response body: text FILE PREFIX SUFFIX
+text() { P="$2" S="$3" awk '{ i = index($0, ENVIRON["P"]); if (!i) next; v = substr($0, i + length(ENVIRON["P"])); j = ENVIRON["S"] == "" ? 0 : index(v, ENVIRON["S"]); print (j ? substr(v, 1, j - 1) : v); exit }' "$1"; }`,
+};
+
+/**
+ * Text safe to put in a `#` comment: line breaks and other whitespace or
+ * control characters become single spaces, so captured text can't end the
+ * comment and run as a command.
+ */
+function commentText(text: string): string {
+  return text.replace(/[\s\p{Cc}]+/gu, ' ');
+}
+
+function shellQuote(str: string): string {
+  return `'${escapeShell(str)}'`;
+}
+
+/** jq filter for a JSON path, e.g. ["data", 0, "access-token"] → .data[0]["access-token"] */
+export function toJqPath(path: Array<string | number>): string {
+  const filter = path
+    .map((key) =>
+      typeof key === 'number'
+        ? `[${key}]`
+        : /^[A-Za-z_][A-Za-z0-9_]*$/.test(key)
+          ? `.${key}`
+          : `[${JSON.stringify(key)}]`,
+    )
+    .join('');
+  return filter.startsWith('.') ? filter : `.${filter}`;
+}
+
+/** Shell variable name suggested by a value's source, e.g. x-csrf-token → X_CSRF_TOKEN */
+function variableBaseName(source: ValueSource): string {
+  let label: string | undefined;
+  if (source.kind === 'json') {
+    label = [...source.path].reverse().find((key) => typeof key === 'string');
+  } else if (source.kind === 'text') {
+    // Prefer a nearby name="…" attribute, else the last word before the value
+    label =
+      [...source.prefix.matchAll(/name=["']?([\w-]+)/g)].pop()?.[1] ??
+      /([A-Za-z][\w-]*)\W*$/.exec(source.prefix)?.[1];
+  } else {
+    label = source.name;
+  }
+  const name = String(label ?? 'value')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+  return /^[A-Z]/.test(name) ? name : `VALUE_${name}`.replace(/_$/, '');
+}
+
+/** Identity of a captured value: the step and place it is read from */
+function sourceKey(step: number, source: ValueSource): string {
+  return `${step}:${JSON.stringify(source)}`;
+}
+
+/** The command that reads a variable's value once its step has run */
+function captureCommand(variable: FlowVariable): string {
+  const file = `"$WORKDIR/step${variable.step + 1}`;
+  const { source } = variable;
+  switch (source.kind) {
+    case 'header':
+      return `header ${file}.headers" ${shellQuote(source.name)}`;
+    case 'cookie':
+      return `cookie ${file}.headers" ${shellQuote(source.name)}`;
+    case 'json':
+      return `jq -r ${shellQuote(`${toJqPath(source.path)} // empty`)} ${file}.body"`;
+    case 'text':
+      return `text ${file}.body" ${shellQuote(source.prefix)} ${shellQuote(source.suffix)}`;
+  }
+}
+
+/**
+ * Generate a bash script that runs the steps in order, capturing the values
+ * each step hands to later ones. Only the last step's response is printed.
+ * Sensitive headers stay redacted unless they are made of captured values.
+ */
+export function generateFlowScript(steps: FlowScriptStep[]): FlowScript {
+  const dependencies = findValueDependencies(steps.map((step) => step.entry));
+
+  // One variable per distinct source, named after where the value is read from
+  const variables: FlowVariable[] = [];
+  const variableByKey = new Map<string, FlowVariable>();
+  const usedNames = new Map<string, number>();
+  const variableFor = (dependency: ValueDependency): FlowVariable => {
+    const key = sourceKey(dependency.fromIndex, dependency.source);
+    let variable = variableByKey.get(key);
+    if (!variable) {
+      const base = variableBaseName(dependency.source);
+      const count = (usedNames.get(base) ?? 0) + 1;
+      usedNames.set(base, count);
+      variable = {
+        name: count === 1 ? base : `${base}_${count}`,
+        step: dependency.fromIndex,
+        source: dependency.source,
+      };
+      variableByKey.set(key, variable);
+      variables.push(variable);
+    }
+    return variable;
+  };
+  const usesByStep = dependencies.map((dependency) => ({
+    index: dependency.index,
+    value: dependency.value,
+    variable: variableFor(dependency),
+  }));
+
+  const lines: string[] = [
+    '#!/usr/bin/env bash',
+    `# Request flow with ${steps.length} step${steps.length === 1 ? '' : 's'}, generated from a HAR capture.`,
+    '# Values captured from earlier responses are passed on to later requests.',
+    'set -eu',
+    '',
+    'WORKDIR=$(mktemp -d)',
+    `trap 'rm -rf "$WORKDIR"' EXIT`,
+  ];
+  for (const kind of ['header', 'cookie', 'text'] as const) {
+    if (variables.some((variable) => variable.source.kind === kind)) {
+      lines.push('', HELPERS[kind]);
+    }
+  }
+  if (variables.some((variable) => variable.source.kind === 'json')) {
+    lines.push(
+      '',
+      '# JSON values are read with jq (https://jqlang.github.io/jq/)',
+    );
+  }
+
+  steps.forEach((step, i) => {
+    const { request } = step.entry;
+    const isLast = i === steps.length - 1;
+    const substitutions = new Map(
+      usesByStep
+        .filter((use) => use.index === i)
+        .map((use) => [use.value, use.variable.name]),
+    );
+    const flags = isLast
+      ? ['-sS']
+      : [
+          '-sS',
+          `-D "$WORKDIR/step${i + 1}.headers"`,
+          `-o "$WORKDIR/step${i + 1}.body"`,
+        ];
+
+    lines.push(
+      '',
+      `# Step ${i + 1}: ${commentText(`${request.method.toUpperCase()} ${request.url.split('?')[0]}`)}`,
+      `# ${commentText(step.purpose)}`,
+      generateCurl(step.entry, { flags, variables: substitutions }),
+    );
+    for (const variable of variables.filter((v) => v.step === i)) {
+      lines.push(
+        `${variable.name}=$(${captureCommand(variable)})`,
+        `: "\${${variable.name}:?step ${i + 1} did not return ${variable.name}}"`,
+      );
+    }
+  });
+
+  return { script: `${lines.join('\n')}\n`, variables };
+}
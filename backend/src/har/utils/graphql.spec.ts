@@ -0,0 +1,210 @@
+import {
+  describeGraphqlOperation,
+  formatGraphqlBody,
+  formatGraphqlQuery,
+  parseGraphqlRequest,
+  toGraphqlOperation,
+} from './graphql';
+import { HarEntry } from './har-parser';
+
+/** Helper: create a minimal HarEntry for testing. */
+function makeEntry(overrides: {
+  method?: string;
+  url?: string;
+  postData?: { mimeType: string; text: string };
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: overrides.method || 'POST',
+      url: overrides.url || 'https://api.example.com/graphql',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      queryString: [],
+      postData: overrides.postData,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      content: { size: 0, mimeType: 'application/json' },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+/** Helper: a POST with a JSON body. */
+function jsonPost(body: unknown): HarEntry {
+  return makeEntry({
+    postData: { mimeType: 'application/json', text: JSON.stringify(body) },
+  });
+}
+
+/** Helper: a GET with the given query parameters. */
+function get(params: Record<string, string>): HarEntry {
+  return makeEntry({
+    method: 'GET',
+    url: `https://api.example.com/graphql?${new URLSearchParams(params).toString()}`,
+  });
+}
+
+const PERSISTED = JSON.stringify({
+  persistedQuery: {
+    version: 1,
+    sha256Hash: 'ecf4edb46db40b5132295c0291d62fb6',
+  },
+});
+
+describe('parseGraphqlRequest', () => {
+  it('should recognize JSON POSTs and batches', () => {
+    expect(parseGraphqlRequest(jsonPost({ query: '{ me { id } }' }))).toEqual([
+      { query: '{ me { id } }' },
+    ]);
+    expect(
+      parseGraphqlRequest(jsonPost([{ query: '{ a }' }, { query: '{ b }' }])),
+    ).toHaveLength(2);
+  });
+
+  it('should recognize application/graphql POSTs', () => {
+    const entry = makeEntry({
+      postData: { mimeType: 'application/graphql', text: 'query Me { me }' },
+    });
+    expect(parseGraphqlRequest(entry)).toEqual([{ query: 'query Me { me }' }]);
+  });
+
+  it('should recognize GETs, including persisted queries', () => {
+    const [payload] = parseGraphqlRequest(
+      get({
+        operationName: 'Feed',
+        variables: '{"first":10}',
+        extensions: PERSISTED,
+      }),
+    );
+    expect(payload.operationName).toBe('Feed');
+    expect(payload.variables).toEqual({ first: 10 });
+    expect(parseGraphqlRequest(get({ query: 'query Me { me }' }))).toHaveLength(
+      1,
+    );
+  });
+
+  it('should not mistake search parameters for GraphQL', () => {
+    expect(parseGraphqlRequest(get({ query: 'red shoes' }))).toEqual([]);
+    expect(parseGraphqlRequest(jsonPost({ query: 'red shoes' }))).toEqual([]);
+    expect(parseGraphqlRequest(jsonPost({ email: 'a@b.c' }))).toEqual([]);
+    expect(parseGraphqlRequest(makeEntry({}))).toEqual([]);
+  });
+
+  it('should read the operation name of a truncated body', () => {
+    const text = JSON.stringify({
+      operationName: 'Search',
+      query: `query Search { ${'x '.repeat(50)} }`,
+    }).slice(0, 60);
+    const entry = makeEntry({
+      postData: { mimeType: 'application/json', text },
+    });
+    expect(parseGraphqlRequest(entry)).toEqual([{ operationName: 'Search' }]);
+  });
+});
+
+describe('toGraphqlOperation', () => {
+  it('should prefer operationName and read the type from the document', () => {
+    expect(
+      toGraphqlOperation({
+        operationName: 'AddItem',
+        query: 'mutation AddItem { add }',
+      }),
+    ).toEqual({ type: 'mutation', name: 'AddItem' });
+  });
+
+  it('should fall back to the name declared in the document', () => {
+    expect(
+      toGraphqlOperation({ query: 'subscription OnMessage { m }' }),
+    ).toEqual({ type: 'subscription', name: 'OnMessage' });
+  });
+
+  it('should hash anonymous queries, ignoring formatting', () => {
+    const op = toGraphqlOperation({ query: '{ me { id } }' });
+    expect(op.type).toBe('query');
+    expect(op.name).toBeUndefined();
+    expect(op.hash).toHaveLength(8);
+    expect(toGraphqlOperation({ query: '{\n  me {\n    id\n  }\n}' })).toEqual(
+      op,
+    );
+    expect(toGraphqlOperation({ query: '{ me { name } }' })).not.toEqual(op);
+  });
+
+  it('should use the hash of a persisted query', () => {
+    expect(
+      toGraphqlOperation({ extensions: JSON.parse(PERSISTED) as unknown }),
+    ).toEqual({ type: undefined, hash: 'ecf4edb4' });
+  });
+});
+
+describe('describeGraphqlOperation', () => {
+  it('should label operations for the summary and inspector', () => {
+    expect(
+      describeGraphqlOperation(
+        jsonPost({ operationName: 'GetCart', query: 'query GetCart { c }' }),
+      ),
+    ).toBe('query GetCart');
+    expect(describeGraphqlOperation(get({ extensions: PERSISTED }))).toBe(
+      '#ecf4edb4',
+    );
+    expect(
+      describeGraphqlOperation(
+        jsonPost([{ query: 'query A { a }' }, { query: 'mutation B { b }' }]),
+      ),
+    ).toBe('query A, mutation B');
+  });
+
+  it('should be undefined for other requests', () => {
+    expect(describeGraphqlOperation(jsonPost({ id: 1 }))).toBeUndefined();
+  });
+});
+
+describe('formatGraphqlQuery', () => {
+  it('should put a document on one line with single spaces', () => {
+    expect(
+      formatGraphqlQuery(
+        'query GetCart($id: ID!,$n:Int = 2) {\n  # the cart\n  cart(id: $id) {\n    items(first: $n) { id }\n  }\n}',
+      ),
+    ).toBe(
+      'query GetCart($id: ID!, $n: Int = 2) { cart(id: $id) { items(first: $n) { id } } }',
+    );
+  });
+
+  it('should leave string literals untouched', () => {
+    expect(formatGraphqlQuery('{ search(q: "a  {b}, # c") { id } }')).toBe(
+      '{ search(q: "a  {b}, # c") { id } }',
+    );
+  });
+});
+
+describe('formatGraphqlBody', () => {
+  it('should indent the body and tidy each query', () => {
+    const body = formatGraphqlBody(
+      jsonPost({ query: 'query Me {\n  me\n}', variables: { a: 1 } }),
+    );
+    expect(body).toBe(
+      '{\n  "query": "query Me { me }",\n  "variables": {\n    "a": 1\n  }\n}',
+    );
+  });
+
+  it('should keep batches as arrays', () => {
+    const body = formatGraphqlBody(jsonPost([{ query: '{ a }' }]));
+    expect(JSON.parse(body ?? '')).toEqual([{ query: '{ a }' }]);
+  });
+
+  it('should be undefined for GETs and non-GraphQL bodies', () => {
+    expect(formatGraphqlBody(get({ query: '{ a }' }))).toBeUndefined();
+    expect(formatGraphqlBody(jsonPost({ id: 1 }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * GraphQL Requests
+ *
+ * Recognizes GraphQL calls in a capture — JSON POSTs carrying a `query`
+ * (single or batched), `application/graphql` POSTs, and GETs with the
+ * operation in the query string, including persisted queries that only send
+ * a hash. Every operation of an app goes to the same URL, so the operation
+ * name (or, for anonymous and persisted queries, a short query hash) is what
+ * tells the requests apart in the summary, the inspector and deduplication.
+ */
+
+import { createHash } from 'crypto';
+import { HarEntry } from './har-parser';
+import { isRecord, tryParseJson } from './json';
+
+/** One operation as sent: a document and/or a persisted-query hash */
+export interface GraphqlPayload {
+  query?: string;
+  operationName?: string;
+  variables?: unknown;
+  extensions?: unknown;
+}
+
+export type GraphqlOperationType = 'query' | 'mutation' | 'subscription';
+
+/** What identifies a GraphQL request's operation */
+export interface GraphqlOperation {
+  /** Unknown for persisted queries and bodies too large to have been kept whole */
+  type?: GraphqlOperationType;
+  /** operationName, or the name declared in the document */
+  name?: string;
+  /** Short query hash, for operations without a name */
+  hash?: string;
+}
+
+/** Characters of a query hash shown to tell anonymous operations apart */
+const HASH_LENGTH = 8;
+
+/** The first operation definition of a document: "mutation AddItem(...)" */
+const OPERATION_DEFINITION = /\b(query|mutation|subscription)\b\s*(\w+)?/;
+
+/** A GraphQL document: starts (after comments) with an operation, a fragment or a selection set */
+const DOCUMENT_START =
+  /^\s*(?:#[^\n]*\n\s*)*(?:(?:query|mutation|subscription|fragment)\b|\{)/;
+
+/** operationName of a JSON body too large to have been kept whole */
+const TRUNCATED_OPERATION_NAME = /"operationName"\s*:\s*"(\w+)"/;
+
+/** The persisted-query hash of a payload (Apollo automatic persisted queries). */
+function persistedQueryHash(payload: GraphqlPayload): string | undefined {
+  if (!isRecord(payload.extensions)) return undefined;
+  const persisted = payload.extensions.persistedQuery;
+  return isRecord(persisted) && typeof persisted.sha256Hash === 'string'
+    ? persisted.sha256Hash
+    : undefined;
+}
+
+/**
+ * A payload that is a GraphQL operation: it has a document or a
+ * persisted-query hash. Checking the document keeps search APIs that take a
+ * plain `query` parameter from being mistaken for GraphQL.
+ */
+function isGraphqlPayload(value: unknown): value is GraphqlPayload {
+  return (
+    isRecord(value) &&
+    ((typeof value.query === 'string' && DOCUMENT_START.test(value.query)) ||
+      persistedQueryHash(value as GraphqlPayload) !== undefined) &&
+    (value.operationName === undefined ||
+      value.operationName === null ||
+      typeof value.operationName === 'string')
+  );
+}
+
+/**
+ * The GraphQL operations an entry sends, or [] if it isn't a GraphQL call.
+ * A batched POST sends several; every other request sends one.
+ */
+export function parseGraphqlRequest(entry: HarEntry): GraphqlPayload[] {
+  const { request } = entry;
+
+  if (request.method.toUpperCase() === 'GET') {
+    let params: URLSearchParams;
+    try {
+      params = new URL(request.url).searchParams;
+    } catch {
+      return [];
+    }
+    const payload: GraphqlPayload = {
+      query: params.get('query') ?? undefined,
+      operationName: params.get('operationName') ?? undefined,
+      variables: tryParseJson(params.get('variables')),
+      extensions: tryParseJson(params.get('extensions')),
+    };
+    return isGraphqlPayload(payload) ? [payload] : [];
+  }
+
+  const postData = request.postData;
+  if (!postData?.text) return [];
+  if (/^application\/graphql\b/i.test(postData.mimeType)) {
+    return [{ query: postData.text }];
+  }
+
+  const body = tryParseJson(postData.text);
+  if (body === undefined) {
+    // Truncated while stripping: the operation name may still be readable
+    const name = TRUNCATED_OPERATION_NAME.exec(postData.text)?.[1];
+    return name && postData.text.includes('"query"')
+      ? [{ operationName: name }]
+      : [];
+  }
+  const payloads = Array.isArray(body) ? body : [body];
+  return payloads.length > 0 && payloads.every(isGraphqlPayload)
+    ? payloads
+    : [];
+}
+
+/** Identify the operation a payload calls. */
+export function toGraphqlOperation(payload: GraphqlPayload): GraphqlOperation {
+  const definition = payload.query
+    ? OPERATION_DEFINITION.exec(payload.query)
+    : null;
+  // A document without a keyword (`{ user { id } }`) is a query
+  const type = payload.query
+    ? ((definition?.[1] as GraphqlOperationType | undefined) ?? 'query')
+    : undefined;
+  const name = payload.operationName || definition?.[2];
+  if (name) return { type, name };
+
+  const persistedHash = persistedQueryHash(payload);
+  const hash =
+    persistedHash ??
+    createHash('sha256')
+      .update(formatGraphqlQuery(payload.query ?? ''))
+      .digest('hex');
+  return { type, hash: hash.slice(0, HASH_LENGTH) };
+}
+
+/**
+ * Label an entry's GraphQL operation(s), e.g. "query GetCart",
+ * "mutation #1a2b3c4d" for an anonymous one, or "query A, query B" for a
+ * batch. Undefined for requests that aren't GraphQL.
+ */
+export function describeGraphqlOperation(entry: HarEntry): string | undefined {
+  const payloads = parseGraphqlRequest(entry);
+  if (payloads.length === 0) return undefined;
+  return payloads
+    .map(toGraphqlOperation)
+    .map((op) => [op.type, op.name ?? `#${op.hash}`].filter(Boolean).join(' '))
+    .join(', ');
+}
+
+/**
+ * Reformat a GraphQL document onto one line with single spaces, e.g.
+ * `query GetCart($id: ID!) { cart(id: $id) { items { id } } }`. String
+ * literals are left untouched.
+ */
+export function formatGraphqlQuery(query: string): string {
+  return query
+    .split(/("(?:[^"\\]|\\.)*")/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part
+            .replace(/#[^\n]*/g, '')
+            .replace(/\s*([{}])\s*/g, ' $1 ')
+            .replace(/\s*([:,])\s*/g, '$1 ')
+            .replace(/\(\s+/g, '(')
+            .replace(/\s+\)/g, ')')
+            .replace(/\s+/g, ' '),
+    )
+    .join('')
+    .trim();
+}
+
+/**
+ * A GraphQL POST body re-serialized for reading: indented JSON, variables
+ * spread over lines and each query document on one tidy line. Undefined when
+ * the entry isn't a JSON GraphQL POST (GETs and `application/graphql` bodies
+ * are sent as captured).
+ */
+export function formatGraphqlBody(entry: HarEntry): string | undefined {
+  const { postData } = entry.request;
+  if (!postData?.text || /^application\/graphql\b/i.test(postData.mimeType)) {
+    return undefined;
+  }
+  const body = tryParseJson(postData.text);
+  const payloads = parseGraphqlRequest(entry);
+  if (body === undefined || payloads.length === 0) return undefined;
+
+  const formatted = payloads.map((payload) =>
+    typeof payload.query === 'string'
+      ? { ...payload, query: formatGraphqlQuery(payload.query) }
+      : payload,
+  );
+  return JSON.stringify(
+    Array.isArray(body) ? formatted : formatted[0],
+    null,
+    2,
+  );
+}
@@ -0,0 +1,163 @@
+import { brotliCompressSync, deflateRawSync, gzipSync } from 'zlib';
+import {
+  detectArchiveFormat,
+  extractHarSources,
+  HarSource,
+  isSupportedHarUpload,
+  MAX_DECOMPRESSED_BYTES,
+} from './har-archive';
+
+const HAR = JSON.stringify({ log: { entries: [] } });
+
+/** Helper: build a minimal zip archive (stored or deflated members). */
+function makeZip(
+  members: Array<{ name: string; content: string; deflate?: boolean }>,
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const member of members) {
+    const raw = Buffer.from(member.content);
+    const data = member.deflate ? deflateRawSync(raw) : raw;
+    const name = Buffer.from(member.name);
+    const method = member.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(members.length, 8);
+  eocd.writeUInt16LE(members.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+async function readAll(source: HarSource): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+describe('isSupportedHarUpload', () => {
+  it('should accept plain and compressed HAR file names', () => {
+    for (const name of ['a.har', 'a.har.gz', 'a.har.br', 'bundle.zip']) {
+      expect(isSupportedHarUpload(name, 'application/octet-stream')).toBe(true);
+    }
+  });
+
+  it('should accept known MIME types regardless of name', () => {
+    expect(isSupportedHarUpload('capture', 'application/gzip')).toBe(true);
+  });
+
+  it('should reject unrelated files', () => {
+    expect(isSupportedHarUpload('notes.txt', 'text/plain')).toBe(false);
+  });
+});
+
+describe('detectArchiveFormat', () => {
+  it('should detect gzip and zip by magic bytes', () => {
+    expect(detectArchiveFormat(gzipSync(HAR), 'capture.har')).toBe('gzip');
+    expect(
+      detectArchiveFormat(makeZip([{ name: 'a.har', content: HAR }]), 'x'),
+    ).toBe('zip');
+  });
+
+  it('should detect brotli by file name', () => {
+    expect(detectArchiveFormat(brotliCompressSync(HAR), 'a.har.br')).toBe(
+      'brotli',
+    );
+  });
+
+  it('should treat everything else as uncompressed', () => {
+    expect(detectArchiveFormat(Buffer.from(HAR), 'a.har')).toBe('none');
+  });
+});
+
+describe('extractHarSources', () => {
+  it('should pass plain HAR through unchanged', async () => {
+    const [source] = extractHarSources(Buffer.from(HAR), 'a.har');
+    expect(await readAll(source)).toBe(HAR);
+  });
+
+  it('should decompress gzip', async () => {
+    const sources = extractHarSources(gzipSync(HAR), 'a.har.gz');
+    expect(sources).toHaveLength(1);
+    expect(await readAll(sources[0])).toBe(HAR);
+  });
+
+  it('should decompress brotli', async () => {
+    const [source] = extractHarSources(brotliCompressSync(HAR), 'a.har.br');
+    expect(await readAll(source)).toBe(HAR);
+  });
+
+  it('should return one source per .har member of a zip', async () => {
+    const zip = makeZip([
+      { name: 'first.har', content: HAR },
+      { name: 'readme.txt', content: 'ignore me' },
+      { name: 'nested/second.HAR', content: HAR, deflate: true },
+      { name: '__MACOSX/._first.har', content: 'junk' },
+    ]);
+    const sources = extractHarSources(zip, 'bundle.zip');
+    expect(sources).toHaveLength(2);
+    expect(await readAll(sources[0])).toBe(HAR);
+    expect(await readAll(sources[1])).toBe(HAR);
+  });
+
+  it('should reject zip archives without .har members', () => {
+    const zip = makeZip([{ name: 'readme.txt', content: 'hi' }]);
+    expect(() => extractHarSources(zip, 'bundle.zip')).toThrow(
+      'contains no .har files',
+    );
+  });
+
+  it('should reject zip members whose declared size exceeds the limit', () => {
+    const zip = makeZip([{ name: 'a.har', content: HAR }]);
+    // Patch the central directory's uncompressed size to a huge value
+    const central = zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    zip.writeUInt32LE(MAX_DECOMPRESSED_BYTES + 1, central + 24);
+    expect(() => extractHarSources(zip, 'bundle.zip')).toThrow('limit');
+  });
+
+  it('should stop inflating once the decompressed limit is exceeded', async () => {
+    // Concatenated gzip members: 64MB of zeros each, well past the limit in total
+    const member = gzipSync(Buffer.alloc(64 * 1024 * 1024));
+    const copies = Math.ceil(MAX_DECOMPRESSED_BYTES / (64 * 1024 * 1024)) + 1;
+    const bomb = Buffer.concat(Array.from({ length: copies }, () => member));
+    const [source] = extractHarSources(bomb, 'bomb.har.gz');
+    const drain = async () => {
+      for await (const chunk of source) void chunk;
+    };
+    await expect(drain()).rejects.toThrow('limit');
+  });
+
+  it('should report corrupt gzip data as a bad request', async () => {
+    const corrupt = Buffer.concat([
+      gzipSync(HAR).subarray(0, 10),
+      Buffer.alloc(20),
+    ]);
+    const [source] = extractHarSources(corrupt, 'a.har.gz');
+    await expect(readAll(source)).rejects.toThrow('Failed to decompress');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * HAR Archive Extraction
+ *
+ * Detects gzip, brotli and zip-compressed uploads and turns them into
+ * streams of decompressed HAR bytes for the streaming parser.
+ *
+ * Zip bomb protection:
+ * - Decompressed output is capped across all members (MAX_DECOMPRESSED_BYTES)
+ * - Zip members are checked against their declared sizes before inflating,
+ *   and the running total is enforced again while inflating
+ * - The number of .har members read from a zip is capped (MAX_ZIP_MEMBERS)
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { createBrotliDecompress, createGunzip, createInflateRaw } from 'zlib';
+
+/** A stream of raw HAR document bytes */
+export type HarSource = AsyncIterable<Buffer> | Iterable<Buffer>;
+
+export type ArchiveFormat = 'none' | 'gzip' | 'brotli' | 'zip';
+
+/** Maximum total decompressed size across all HAR documents in one upload */
+export const MAX_DECOMPRESSED_BYTES = 500 * 1024 * 1024;
+
+/** Maximum number of .har members read from a single zip archive */
+export const MAX_ZIP_MEMBERS = 20;
+
+/** File extensions accepted by the upload endpoint */
+const ALLOWED_EXTENSIONS = ['.har', '.json', '.gz', '.br', '.zip'];
+
+/** MIME types accepted by the upload endpoint */
+const ALLOWED_MIME_TYPES = [
+  'application/json',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-brotli',
+  'application/zip',
+  'application/x-zip-compressed',
+];
+
+const ZIP_LOCAL_HEADER_SIG = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIG = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+
+/** Shared byte budget so the cap applies to the whole upload, not per member */
+interface DecompressionBudget {
+  remaining: number;
+}
+
+interface ZipMember {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Check whether an uploaded file looks like a HAR or a compressed HAR.
+ */
+export function isSupportedHarUpload(
+  filename: string,
+  mimetype: string,
+): boolean {
+  const lower = filename.toLowerCase();
+  return (
+    ALLOWED_EXTENSIONS.some((ext) => lower.endsWith(ext)) ||
+    ALLOWED_MIME_TYPES.includes(mimetype)
+  );
+}
+
+/**
+ * Detect the compression format from magic bytes, falling back to the file
+ * name for brotli (which has no magic number).
+ */
+export function detectArchiveFormat(
+  buffer: Buffer,
+  filename: string,
+): ArchiveFormat {
+  if (buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+    return 'gzip';
+  }
+  if (
+    buffer.length >= 4 &&
+    buffer[0] === 0x50 &&
+    buffer[1] === 0x4b &&
+    (buffer[2] === 0x03 || buffer[2] === 0x05)
+  ) {
+    return 'zip';
+  }
+  if (filename.toLowerCase().endsWith('.br')) {
+    return 'brotli';
+  }
+  return 'none';
+}
+
+/**
+ * Turn an uploaded file into one or more decompressed HAR byte streams.
+ * Plain files yield a single source; zip archives yield one per .har member.
+ */
+export function extractHarSources(
+  buffer: Buffer,
+  filename: string,
+): HarSource[] {
+  const budget: DecompressionBudget = { remaining: MAX_DECOMPRESSED_BYTES };
+
+  switch (detectArchiveFormat(buffer, filename)) {
+    case 'gzip':
+      return [limitBytes(decompress(buffer, createGunzip()), budget)];
+    case 'brotli':
+      return [limitBytes(decompress(buffer, createBrotliDecompress()), budget)];
+    case 'zip':
+      return extractZipMembers(buffer, budget);
+    default:
+      return [[buffer]];
+  }
+}
+
+/**
+ * Feed a buffer through a zlib transform and yield the output chunks.
+ * Corrupt input surfaces as a BadRequestException.
+ */
+async function* decompress(
+  input: Buffer,
+  transform: NodeJS.ReadWriteStream & Readable,
+): AsyncGenerator<Buffer> {
+  transform.end(input);
+  try {
+    for await (const chunk of transform) {
+      yield chunk as Buffer;
+    }
+  } catch (error) {
+    throw new BadRequestException(
+      `Failed to decompress upload: ${(error as Error).message}`,
+    );
+  } finally {
+    transform.destroy();
+  }
+}
+
+/**
+ * Pass chunks through while charging them against the shared budget.
+ */
+async function* limitBytes(
+  source: HarSource,
+  budget: DecompressionBudget,
+): AsyncGenerator<Buffer> {
+  for await (const chunk of source) {
+    budget.remaining -= chunk.length;
+    if (budget.remaining < 0) {
+      throw new BadRequestException(
+        `Decompressed upload exceeds ${MAX_DECOMPRESSED_BYTES / (1024 * 1024)}MB limit`,
+      );
+    }
+    yield chunk;
+  }
+}
+
+/**
+ * Read the zip central directory and return a source for each .har member.
+ */
+function extractZipMembers(
+  buffer: Buffer,
+  budget: DecompressionBudget,
+): HarSource[] {
+  const members = readZipDirectory(buffer).filter(
+    (m) =>
+      m.name.toLowerCase().endsWith('.har') &&
+      !m.name.endsWith('/') &&
+      !m.name.startsWith('__MACOSX/'),
+  );
+
+  if (members.length === 0) {
+    throw new BadRequestException('Zip archive contains no .har files');
+  }
+  if (members.length > MAX_ZIP_MEMBERS) {
+    throw new BadRequestException(
+      `Zip archive contains too many .har files (${members.length}). Maximum allowed is ${MAX_ZIP_MEMBERS}.`,
+    );
+  }
+
+  const declaredTotal = members.reduce((sum, m) => sum + m.uncompressedSize, 0);
+  if (declaredTotal > budget.remaining) {
+    throw new BadRequestException(
+      `Decompressed upload exceeds ${MAX_DECOMPRESSED_BYTES / (1024 * 1024)}MB limit`,
+    );
+  }
+
+  return members.map((member) => {
+    if (member.flags & 0x1) {
+      throw new BadRequestException(`Zip member "${member.name}" is encrypted`);
+    }
+    const data = readZipMemberData(buffer, member);
+    if (member.method === 0) {
+      return limitBytes([data], budget);
+    }
+    if (member.method === 8) {
+      return limitBytes(decompress(data, createInflateRaw()), budget);
+    }
+    throw new BadRequestException(
+      `Zip member "${member.name}" uses unsupported compression method ${member.method}`,
+    );
+  });
+}
+
+/**
+ * Parse the zip end-of-central-directory record and central directory entries.
+ * Zip64 archives are not supported.
+ */
+function readZipDirectory(buffer: Buffer): ZipMember[] {
+  // The EOCD record is at least 22 bytes and may be followed by a comment (max 65535 bytes)
+  const searchStart = Math.max(0, buffer.length - 22 - 0xffff);
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= searchStart; i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR_SIG) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new BadRequestException(
+      'Invalid zip archive: missing central directory',
+    );
+  }
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new BadRequestException('Zip64 archives are not supported');
+  }
+
+  const members: ZipMember[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIG
+    ) {
+      throw new BadRequestException(
+        'Invalid zip archive: corrupt central directory',
+      );
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    members.push({
+      flags: buffer.readUInt16LE(offset + 8),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      name: buffer.toString('utf-8', offset + 46, offset + 46 + nameLength),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return members;
+}
+
+/**
+ * Locate a member's compressed bytes via its local file header.
+ */
+function readZipMemberData(buffer: Buffer, member: ZipMember): Buffer {
+  const offset = member.localHeaderOffset;
+  if (
+    offset + 30 > buffer.length ||
+    buffer.readUInt32LE(offset) !== ZIP_LOCAL_HEADER_SIG
+  ) {
+    throw new BadRequestException(
+      `Invalid zip archive: corrupt header for "${member.name}"`,
+    );
+  }
+  const nameLength = buffer.readUInt16LE(offset + 26);
+  const extraLength = buffer.readUInt16LE(offset + 28);
+  const start = offset + 30 + nameLength + extraLength;
+  const end = start + member.compressedSize;
+  if (end > buffer.length) {
+    throw new BadRequestException(
+      `Invalid zip archive: truncated data for "${member.name}"`,
+    );
+  }
+  return buffer.subarray(start, end);
+}
@@ -1,9 +1,15 @@
 import {
   parseHarFile,
+  classifyEntry,
   filterEntries,
   stripBodies,
+  stripBody,
+  hasRetainableBody,
+  MAX_RETAINED_RESPONSE_BYTES,
   toCompactEntries,
   createLlmSummary,
+  isPathParameterSegment,
+  templatePath,
   HarEntry,
 } from './har-parser';
 
@@ -160,6 +166,38 @@ describe('filterEntries', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// classifyEntry
+// ---------------------------------------------------------------------------
+describe('classifyEntry', () => {
+  it('should return null for entries that are kept', () => {
+    expect(classifyEntry(makeEntry({}))).toBeNull();
+  });
+
+  it('should return the breakdown bucket for removed entries', () => {
+    expect(classifyEntry(makeEntry({ mimeType: 'text/html' }))).toBe('html');
+    expect(classifyEntry(makeEntry({ status: 301 }))).toBe('redirects');
+    expect(classifyEntry(makeEntry({ method: 'OPTIONS' }))).toBe('options');
+  });
+
+  it('should keep streams asked for with an Accept header', () => {
+    const entry = makeEntry({ mimeType: 'application/octet-stream' });
+    entry.request.headers = [{ name: 'Accept', value: 'text/event-stream' }];
+    expect(classifyEntry(entry)).toBeNull();
+  });
+
+  it('should keep WebSocket upgrades despite their 101 status and MIME type', () => {
+    const entry = makeEntry({
+      url: 'wss://api.com/stream',
+      status: 101,
+      mimeType: 'x-unknown',
+    });
+    expect(classifyEntry(entry)).toBeNull();
+    entry.request.url = 'wss://www.google-analytics.com/ws';
+    expect(classifyEntry(entry)).toBe('tracking');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // toCompactEntries
 // ---------------------------------------------------------------------------
@@ -188,12 +226,18 @@ describe('toCompactEntries', () => {
 // stripBodies
 // ---------------------------------------------------------------------------
 describe('stripBodies', () => {
-  it('should remove response body text', () => {
-    const entries = [makeEntry({})];
+  it('should remove response bodies that are not retainable', () => {
+    const entries = [makeEntry({ mimeType: 'image/png' })];
     const stripped = stripBodies(entries);
     expect(stripped[0].response.content.text).toBeUndefined();
   });
 
+  it('should keep small text response bodies', () => {
+    const entries = [makeEntry({})];
+    const stripped = stripBodies(entries);
+    expect(stripped[0].response.content.text).toBe('{"data": "test"}');
+  });
+
   it('should keep request postData but truncate to 10KB', () => {
     const longBody = 'x'.repeat(20000);
     const entries = [
@@ -211,6 +255,60 @@ describe('stripBodies', () => {
   });
 });
 
+describe('stripBody', () => {
+  it('should keep the response body when asked to', () => {
+    const stripped = stripBody(makeEntry({}), true);
+    expect(stripped.response.content.text).toBe('{"data": "test"}');
+  });
+
+  it('should keep the first WebSocket frames, truncated', () => {
+    const entry = makeEntry({ url: 'wss://api.com/stream' });
+    entry._webSocketMessages = Array.from({ length: 300 }, (_, i) => ({
+      type: 'receive' as const,
+      time: i,
+      opcode: 1,
+      data: 'x'.repeat(20000),
+    }));
+    const frames = stripBody(entry)._webSocketMessages!;
+    expect(frames).toHaveLength(200);
+    expect(frames[0].data).toHaveLength(10000);
+  });
+});
+
+describe('hasRetainableBody', () => {
+  it('should accept small JSON bodies', () => {
+    expect(hasRetainableBody(makeEntry({}))).toBe(true);
+    expect(
+      hasRetainableBody(makeEntry({ mimeType: 'application/problem+json' })),
+    ).toBe(true);
+  });
+
+  it('should accept small HTML, XML and plain text bodies', () => {
+    for (const mimeType of [
+      'text/html; charset=utf-8',
+      'application/xml',
+      'text/plain',
+    ]) {
+      expect(hasRetainableBody(makeEntry({ mimeType }))).toBe(true);
+    }
+  });
+
+  it('should reject binary, script, oversized and base64-encoded bodies', () => {
+    expect(hasRetainableBody(makeEntry({ mimeType: 'image/png' }))).toBe(false);
+    expect(
+      hasRetainableBody(makeEntry({ mimeType: 'application/javascript' })),
+    ).toBe(false);
+
+    const large = makeEntry({});
+    large.response.content.text = 'x'.repeat(MAX_RETAINED_RESPONSE_BYTES + 1);
+    expect(hasRetainableBody(large)).toBe(false);
+
+    const encoded = makeEntry({});
+    encoded.response.content.encoding = 'base64';
+    expect(hasRetainableBody(encoded)).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // createLlmSummary
 // ---------------------------------------------------------------------------
@@ -249,6 +347,39 @@ describe('createLlmSummary', () => {
     });
   });
 
+  describe('with path templating', () => {
+    const orderEntry = (index: number, url: string) => ({
+      index,
+      method: 'GET',
+      url,
+      status: 200,
+      responseType: 'application/json',
+      responseSize: 1024,
+    });
+    const orderEntries = [
+      orderEntry(0, 'https://api.com/users/123/orders'),
+      orderEntry(1, 'https://api.com/users/456/orders'),
+      orderEntry(2, 'https://api.com/users/me/orders'),
+    ];
+
+    it('should collapse IDs into {id} with count and representative index', () => {
+      const result = createLlmSummary(orderEntries, true);
+      expect(result.uniquePatterns).toBe(2);
+      expect(result.summary).toContain(
+        '[0] GET https://api.com/users/{id}/orders → 200 (application/json, 1.0 KB) [x2]',
+      );
+      expect(result.summary).toContain(
+        '[2] GET https://api.com/users/me/orders',
+      );
+    });
+
+    it('should keep literal paths when templating is off', () => {
+      const result = createLlmSummary(orderEntries, true, false);
+      expect(result.uniquePatterns).toBe(3);
+      expect(result.summary).not.toContain('{id}');
+    });
+  });
+
   describe('without deduplication', () => {
     it('should list every entry with full URLs', () => {
       const result = createLlmSummary(compactEntries, false);
@@ -267,4 +398,147 @@ describe('createLlmSummary', () => {
       expect(result.summary).not.toContain('[x');
     });
   });
+
+  describe('with GraphQL requests', () => {
+    const graphql = (operationName: string, variables = { id: 1 }) =>
+      makeEntry({
+        method: 'POST',
+        url: 'https://api.com/graphql',
+        postData: {
+          mimeType: 'application/json',
+          text: JSON.stringify({
+            operationName,
+            query: `query ${operationName} { x }`,
+            variables,
+          }),
+        },
+      });
+    const bodies = [
+      graphql('GetUser'),
+      graphql('GetUser'),
+      graphql('ListOrders'),
+    ];
+
+    it('should keep each operation as its own pattern', () => {
+      const result = createLlmSummary(toCompactEntries(bodies), true);
+      expect(result.uniquePatterns).toBe(2);
+      expect(result.patterns.map((p) => p.count)).toEqual([2, 1]);
+    });
+
+    it('should show the operation on each line', () => {
+      const result = createLlmSummary(toCompactEntries(bodies), true);
+      expect(result.summary).toContain(
+        '[0] POST https://api.com/graphql (GraphQL query GetUser) → 200',
+      );
+      expect(result.summary).toContain('(GraphQL query ListOrders)');
+    });
+
+    it('should append the body context to each line when bodies are given', () => {
+      const result = createLlmSummary(
+        toCompactEntries(bodies),
+        true,
+        true,
+        bodies,
+      );
+      expect(result.summary).toContain('[x2] | vars {id}; returns {data}');
+      expect(result.summary).not.toContain(' | op ');
+    });
+
+    it('should leave out the body context without bodies', () => {
+      const result = createLlmSummary(toCompactEntries(bodies), true);
+      expect(result.summary).not.toContain(' | ');
+    });
+  });
+
+  it('should show WebSocket message kinds on the line', () => {
+    const entry = makeEntry({ url: 'wss://api.com/stream', status: 101 });
+    entry._webSocketMessages = [
+      { type: 'send', time: 0, opcode: 1, data: '{"type":"subscribe"}' },
+    ];
+    const result = createLlmSummary(toCompactEntries([entry]), true);
+    expect(result.summary).toContain(
+      '[0] GET wss://api.com/stream (WebSocket 1 sent: subscribe) → 101',
+    );
+  });
+
+  it('should mark streaming responses on the line', () => {
+    const entry = makeEntry({
+      method: 'POST',
+      url: 'https://api.com/v1/chat',
+      mimeType: 'text/event-stream',
+    });
+    const result = createLlmSummary(toCompactEntries([entry]), true);
+    expect(result.summary).toContain(
+      '→ 200 (text/event-stream, 1.0 KB, SSE stream)',
+    );
+  });
+
+  describe('with body context', () => {
+    const soap = (action: string) => {
+      const entry = makeEntry({ method: 'POST', url: 'https://api.com/ws' });
+      entry.request.headers = [
+        { name: 'SOAPAction', value: `"http://api.com/ws/${action}"` },
+      ];
+      return entry;
+    };
+    const bodies = [soap('GetQuote'), soap('GetQuote'), soap('PlaceOrder')];
+
+    it('should keep operations named in headers as separate patterns', () => {
+      const result = createLlmSummary(
+        toCompactEntries(bodies),
+        true,
+        true,
+        bodies,
+      );
+      expect(result.uniquePatterns).toBe(2);
+      expect(result.patterns[1].context).toBe('op PlaceOrder; returns {data}');
+    });
+
+    it('should group them without bodies', () => {
+      const result = createLlmSummary(toCompactEntries(bodies), true);
+      expect(result.uniquePatterns).toBe(1);
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Path templating
+// ---------------------------------------------------------------------------
+describe('isPathParameterSegment', () => {
+  it.each([
+    '123',
+    '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b',
+    '507f1f77bcf86cd799439011',
+    'd41d8cd98f00b204e9800998ecf8427e',
+    '2024-01-31',
+    '2024-01-31T10%3A00%3A00Z',
+    'how-to-bake-bread',
+    'iphone-15-pro',
+    'AbCdEfGhIjKlMnOpQr12',
+  ])('should treat %s as a parameter', (segment) => {
+    expect(isPathParameterSegment(segment)).toBe(true);
+  });
+
+  it.each(['users', 'v2', 'me', 'get-user-settings', 'graphql', 'api'])(
+    'should keep %s as a literal',
+    (segment) => {
+      expect(isPathParameterSegment(segment)).toBe(false);
+    },
+  );
+
+  it.each(['get-user-v2', 'oauth2-token-refresh', 'list-items-v10'])(
+    'should keep the versioned RPC name %s as a literal',
+    (segment) => {
+      expect(isPathParameterSegment(segment)).toBe(false);
+    },
+  );
+});
+
+describe('templatePath', () => {
+  it('should replace every variable segment with {id}', () => {
+    expect(templatePath('/users/42/orders/2024-01-31')).toBe(
+      '/users/{id}/orders/{id}',
+    );
+    expect(templatePath('/')).toBe('/');
+  });
 });
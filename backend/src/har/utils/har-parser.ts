@@ -5,6 +5,15 @@
  * to minimize token usage when querying the LLM.
  */
 
+import {
+  describeRequestBody,
+  describeResponseBody,
+  requestOperation,
+} from './body-context';
+import { describeGraphqlOperation } from './graphql';
+import { describeWebSocket, isWebSocketEntry } from './websocket';
+import { detectStreaming, STREAMING_LABELS, StreamingKind } from './streaming';
+
 export interface HarFile {
   log: {
     version: string;
@@ -31,13 +40,35 @@ export interface HarEntry {
     statusText: string;
     httpVersion: string;
     headers: Array<{ name: string; value: string }>;
-    content: { size: number; mimeType: string; text?: string };
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
     redirectURL: string;
     headersSize: number;
     bodySize: number;
   };
   cache: Record<string, unknown>;
-  timings: { send: number; wait: number; receive: number };
+  /** Chrome: the resource type, e.g. "xhr", "fetch" or "websocket" */
+  _resourceType?: string;
+  /** Chrome: frames sent and received over a WebSocket upgrade */
+  _webSocketMessages?: WebSocketMessage[];
+  timings: {
+    blocked?: number;
+    dns?: number;
+    connect?: number;
+    ssl?: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+}
+
+/** One WebSocket frame as Chrome records it */
+export interface WebSocketMessage {
+  type: 'send' | 'receive';
+  /** Seconds since the epoch */
+  time: number;
+  /** 1 = text, 2 = binary (data is base64) */
+  opcode: number;
+  data: string;
 }
 
 export interface CompactEntry {
@@ -47,6 +78,12 @@ export interface CompactEntry {
   status: number;
   responseType: string;
   responseSize: number;
+  /** GraphQL calls: the operation, e.g. "query GetCart" (see graphql.ts) */
+  graphql?: string;
+  /** WebSocket connections: the messages exchanged (see websocket.ts) */
+  websocket?: string;
+  /** Streaming responses: SSE or NDJSON (see streaming.ts) */
+  streaming?: StreamingKind;
 }
 
 /** MIME types for static assets — these are never the API we're looking for */
@@ -148,12 +185,51 @@ export interface FilterBreakdown {
   options: number;
 }
 
-export function filterEntries(entries: HarEntry[]): {
-  filtered: HarEntry[];
-  stats: { total: number; removed: number; kept: number };
-  breakdown: FilterBreakdown;
-} {
-  const breakdown: FilterBreakdown = {
+/**
+ * Classify a single entry against the filter rules.
+ * Returns the breakdown bucket the entry is removed under, or null if it is kept.
+ * Used directly by the streaming upload path to filter entries on the fly.
+ */
+export function classifyEntry(entry: HarEntry): keyof FilterBreakdown | null {
+  const { request, response } = entry;
+  const mimeType = response.content.mimeType || '';
+  const url = request.url;
+
+  // WebSocket upgrades carry their API in the frames, not the response
+  if (isWebSocketEntry(entry)) {
+    return isTrackingDomain(url) ? 'tracking' : null;
+  }
+
+  // Streams asked for with an Accept header may be recorded with any type
+  const streaming = detectStreaming(entry) !== undefined;
+
+  // Skip HTML responses — assignment says target API is not returning HTML
+  if (!streaming && mimeType.includes('text/html')) return 'html';
+
+  // Skip static assets by MIME type
+  if (!streaming && isStaticAssetType(mimeType)) return 'staticAssetMime';
+
+  // Skip static assets by URL extension
+  if (isStaticAssetUrl(url)) return 'staticAssetUrl';
+
+  // Skip tracking/analytics domains
+  if (isTrackingDomain(url)) return 'tracking';
+
+  // Skip data: URLs and blob: URLs
+  if (url.startsWith('data:') || url.startsWith('blob:')) return 'dataBlob';
+
+  // Skip redirects (they're not the final API call)
+  if (response.status >= 300 && response.status < 400) return 'redirects';
+
+  // Skip preflight OPTIONS requests
+  if (request.method === 'OPTIONS') return 'options';
+
+  return null;
+}
+
+/** Create a zeroed filter breakdown. */
+export function emptyFilterBreakdown(): FilterBreakdown {
+  return {
     html: 0,
     staticAssetMime: 0,
     staticAssetUrl: 0,
@@ -162,33 +238,21 @@ export function filterEntries(entries: HarEntry[]): {
     redirects: 0,
     options: 0,
   };
+}
 
-  const filtered = entries.filter((entry) => {
-    const { request, response } = entry;
-    const mimeType = response.content.mimeType || '';
-    const url = request.url;
-
-    // Skip HTML responses — assignment says target API is not returning HTML
-    if (mimeType.includes('text/html')) { breakdown.html++; return false; }
-
-    // Skip static assets by MIME type
-    if (isStaticAssetType(mimeType)) { breakdown.staticAssetMime++; return false; }
-
-    // Skip static assets by URL extension
-    if (isStaticAssetUrl(url)) { breakdown.staticAssetUrl++; return false; }
-
-    // Skip tracking/analytics domains
-    if (isTrackingDomain(url)) { breakdown.tracking++; return false; }
-
-    // Skip data: URLs and blob: URLs
-    if (url.startsWith('data:') || url.startsWith('blob:')) { breakdown.dataBlob++; return false; }
-
-    // Skip redirects (they're not the final API call)
-    if (response.status >= 300 && response.status < 400) { breakdown.redirects++; return false; }
-
-    // Skip preflight OPTIONS requests
-    if (request.method === 'OPTIONS') { breakdown.options++; return false; }
+export function filterEntries(entries: HarEntry[]): {
+  filtered: HarEntry[];
+  stats: { total: number; removed: number; kept: number };
+  breakdown: FilterBreakdown;
+} {
+  const breakdown = emptyFilterBreakdown();
 
+  const filtered = entries.filter((entry) => {
+    const reason = classifyEntry(entry);
+    if (reason) {
+      breakdown[reason]++;
+      return false;
+    }
     return true;
   });
 
@@ -205,11 +269,45 @@ export function filterEntries(entries: HarEntry[]): {
 
 /**
  * Strip large response/request bodies from entries to reduce memory usage.
- * We only need the request details (for curl generation) and metadata.
+ * We only need the request details (for curl generation) and metadata, plus
+ * small text response bodies (see hasRetainableBody).
  * This is critical for large HAR files (50MB+).
  */
 export function stripBodies(entries: HarEntry[]): HarEntry[] {
-  return entries.map((entry) => ({
+  return entries.map((entry) => stripBody(entry, hasRetainableBody(entry)));
+}
+
+/** Largest response body that can be kept when stripping (see hasRetainableBody) */
+export const MAX_RETAINED_RESPONSE_BYTES = 512 * 1024;
+
+/** WebSocket frames kept per connection when stripping; long-lived sockets record thousands */
+const MAX_RETAINED_FRAMES = 200;
+
+/** Text response types whose bodies may be kept: JSON, XML, HTML, plain text and forms */
+const RETAINED_RESPONSE_TYPES =
+  /[/+](json|xml)\b|^text\/(html|plain)\b|x-www-form-urlencoded/i;
+
+/**
+ * Check whether an entry's response is a small, plain-text body worth
+ * keeping: JSON bodies feed response schema inference, and any text body can
+ * hand out tokens, IDs or CSRF values that later requests send (see value-flow).
+ */
+export function hasRetainableBody(entry: HarEntry): boolean {
+  const { content } = entry.response;
+  return (
+    !!content.text &&
+    content.encoding !== 'base64' &&
+    content.text.length <= MAX_RETAINED_RESPONSE_BYTES &&
+    RETAINED_RESPONSE_TYPES.test(content.mimeType || '')
+  );
+}
+
+/**
+ * Strip bodies from a single entry (see stripBodies).
+ * Pass keepResponseBody to retain the response text (e.g. a small JSON body).
+ */
+export function stripBody(entry: HarEntry, keepResponseBody = false): HarEntry {
+  return {
     ...entry,
     request: {
       ...entry.request,
@@ -225,35 +323,112 @@ export function stripBodies(entries: HarEntry[]): HarEntry[] {
       ...entry.response,
       content: {
         ...entry.response.content,
-        // Drop response body entirely — we never need it
-        text: undefined,
+        // Drop response body unless the caller opted to keep it
+        text: keepResponseBody ? entry.response.content.text : undefined,
       },
     },
-  }));
+    // Keep the first frames of a WebSocket, truncated like request bodies
+    _webSocketMessages: entry._webSocketMessages
+      ?.slice(0, MAX_RETAINED_FRAMES)
+      .map((message) => ({
+        ...message,
+        data: message.data.substring(0, 10000),
+      })),
+  };
 }
 
 /**
  * Create a compact representation of entries for display and LLM context.
  */
 export function toCompactEntries(entries: HarEntry[]): CompactEntry[] {
-  return entries.map((entry, index) => ({
+  return entries.map((entry, index) => toCompactEntry(entry, index));
+}
+
+/**
+ * Create the compact representation of a single entry at the given index.
+ */
+export function toCompactEntry(entry: HarEntry, index: number): CompactEntry {
+  return {
     index,
     method: entry.request.method,
     url: entry.request.url,
     status: entry.response.status,
     responseType: entry.response.content.mimeType || 'unknown',
     responseSize: entry.response.content.size || 0,
-  }));
+    graphql: describeGraphqlOperation(entry),
+    websocket: describeWebSocket(entry),
+    streaming: detectStreaming(entry),
+  };
+}
+
+const UUID_SEGMENT =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a path segment is a variable value rather than a fixed
+ * resource name: numeric IDs, UUIDs, hashes/tokens, dates and slugs.
+ */
+export function isPathParameterSegment(rawSegment: string): boolean {
+  const segment = decodeSegment(rawSegment);
+  // Lowercase words joined by hyphens: judged by the slug rule below only
+  const hyphenatedWords = /^[a-z0-9]+(-[a-z0-9]+)+$/.test(segment);
+  return (
+    // Numeric IDs
+    /^\d+$/.test(segment) ||
+    UUID_SEGMENT.test(segment) ||
+    // Hex hashes (MD5, SHA, Mongo ObjectIds, ...)
+    /^[0-9a-f]{16,}$/i.test(segment) ||
+    // Opaque tokens: long, URL-safe and containing a digit
+    (!hyphenatedWords &&
+      segment.length >= 20 &&
+      /\d/.test(segment) &&
+      /^[\w-]+$/.test(segment)) ||
+    // Dates: 2024-01-31, 2024-01-31T10:00:00Z
+    /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/i.test(segment) ||
+    // Slugs: lowercase words joined by hyphens, with a word that is a number
+    // or 4+ words (so RPC-style names like "get-user-settings" and versioned
+    // ones like "get-user-v2" or "oauth2-token-refresh" are kept)
+    (hyphenatedWords &&
+      segment.split('-').length >= 3 &&
+      (/(^|-)\d+(-|$)/.test(segment) || segment.split('-').length >= 4))
+  );
+}
+
+/**
+ * Replace variable path segments with {id}: /users/123/orders → /users/{id}/orders.
+ */
+export function templatePath(pathname: string): string {
+  return pathname
+    .split('/')
+    .map((segment) =>
+      segment && isPathParameterSegment(segment) ? '{id}' : segment,
+    )
+    .join('/');
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
 }
 
 /**
  * Normalize a URL: extract base path and query parameter names (drop values).
+ * With templatePaths, variable path segments are collapsed into {id}.
  */
-function normalizeUrl(url: string): { base: string; paramNames: string[] } {
+export function normalizeUrl(
+  url: string,
+  templatePaths = false,
+): { base: string; paramNames: string[] } {
   try {
     const parsed = new URL(url);
     const paramNames = Array.from(parsed.searchParams.keys()).sort();
-    return { base: `${parsed.origin}${parsed.pathname}`, paramNames };
+    const pathname = templatePaths
+      ? templatePath(parsed.pathname)
+      : parsed.pathname;
+    return { base: `${parsed.origin}${pathname}`, paramNames };
   } catch {
     return { base: url, paramNames: [] };
   }
@@ -262,43 +437,100 @@ function normalizeUrl(url: string): { base: string; paramNames: string[] } {
 /**
  * Build a deduplication key from an entry: method + base URL + sorted param names.
  * Entries with the same key are effectively the same API endpoint called multiple times.
+ * With templatePaths, /users/1 and /users/2 share a key.
+ * GraphQL calls to one URL are keyed by operation as well.
  */
-function getDeduplicationKey(entry: CompactEntry): string {
-  const { base, paramNames } = normalizeUrl(entry.url);
-  return `${entry.method} ${base} ?${paramNames.join('&')}`;
+export function getDeduplicationKey(
+  entry: CompactEntry,
+  templatePaths = false,
+): string {
+  const { base, paramNames } = normalizeUrl(entry.url, templatePaths);
+  const key = `${entry.method} ${base} ?${paramNames.join('&')}`;
+  return entry.graphql ? `${key} ${entry.graphql}` : key;
+}
+
+/** One summary line: a representative entry, its URL as the LLM sees it */
+export interface SummaryPattern extends CompactEntry {
+  /** How many entries share this pattern */
+  count: number;
+  /** Request operation/fields and response key structure (opt-in, see createLlmSummary) */
+  context?: string;
 }
 
 export interface LlmSummaryResult {
   summary: string;
+  /** The summary's lines in structured form, for local matchers */
+  patterns: SummaryPattern[];
   uniquePatterns: number;
   originalEntries: number;
 }
 
+/**
+ * Format one pattern as
+ * `[index] METHOD URL (GraphQL operation or WebSocket messages) → STATUS (type, size[, SSE stream]) [xN] | context`.
+ */
+export function formatSummaryLine(pattern: SummaryPattern): string {
+  const operation = pattern.graphql
+    ? ` (GraphQL ${pattern.graphql})`
+    : pattern.websocket
+      ? ` (WebSocket ${pattern.websocket})`
+      : '';
+  const countSuffix = pattern.count > 1 ? ` [x${pattern.count}]` : '';
+  const contextSuffix = pattern.context ? ` | ${pattern.context}` : '';
+  const streamSuffix = pattern.streaming
+    ? `, ${STREAMING_LABELS[pattern.streaming]} stream`
+    : '';
+  return `[${pattern.index}] ${pattern.method} ${pattern.url}${operation} → ${pattern.status} (${pattern.responseType}, ${formatBytes(pattern.responseSize)}${streamSuffix})${countSuffix}${contextSuffix}`;
+}
+
+/**
+ * Describe a pattern's bodies: the representative's request, and the first
+ * response in the group whose body was kept (most are dropped when stripping).
+ */
+function describePatternContext(request: HarEntry, group: HarEntry[]): string {
+  const response = group.map(describeResponseBody).find(Boolean);
+  return [describeRequestBody(request), response].filter(Boolean).join('; ');
+}
+
 /**
  * Create a deduplicated, compact summary of entries for the LLM prompt.
  *
  * Token efficiency optimizations (when deduplicate = true):
  * 1. Deduplication — same method + path + param names → single line with [xN] count
- * 2. URL compaction — strip query param VALUES, keep only param NAMES
- * 3. One line per unique pattern
+ * 2. Path templating — IDs, UUIDs, hashes, dates and slugs in the path become
+ *    {id}, so /users/1/orders and /users/2/orders are one pattern
+ *    (templatePaths = true; the representative's index is still listed)
+ * 3. URL compaction — strip query param VALUES, keep only param NAMES
+ * 4. One line per unique pattern; GraphQL calls get one per operation,
+ *    labelled with its name (see graphql.ts)
  *
  * This typically reduces 250+ entries to 20-40 unique patterns,
  * cutting token usage by 80-90%.
  *
  * When deduplicate = false, all entries are listed with full URLs (for ablation comparison).
+ *
+ * Passing the full entries (`bodies`, indexed like `entries`) opts into body
+ * context: each line also carries the request's operation name and fields
+ * and the response's key structure (see body-context), and requests to one
+ * URL that name different operations in a header (SOAP) stay separate patterns.
  */
 export function createLlmSummary(
   entries: CompactEntry[],
   deduplicate: boolean = true,
+  templatePaths: boolean = true,
+  bodies?: HarEntry[],
 ): LlmSummaryResult {
   if (!deduplicate) {
     // No deduplication: list every entry with its full URL
-    const lines = entries.map(
-      (e) =>
-        `[${e.index}] ${e.method} ${e.url} → ${e.status} (${e.responseType}, ${formatBytes(e.responseSize)})`,
-    );
+    const patterns = entries.map((e) => ({
+      ...e,
+      count: 1,
+      context:
+        bodies && describePatternContext(bodies[e.index], [bodies[e.index]]),
+    }));
     return {
-      summary: lines.join('\n'),
+      summary: patterns.map(formatSummaryLine).join('\n'),
+      patterns,
       uniquePatterns: entries.length,
       originalEntries: entries.length,
     };
@@ -307,16 +539,17 @@ export function createLlmSummary(
   // Group entries by their deduplication key
   const groups = new Map<string, CompactEntry[]>();
   for (const entry of entries) {
-    const key = getDeduplicationKey(entry);
+    let key = getDeduplicationKey(entry, templatePaths);
+    if (bodies) key += ` ${requestOperation(bodies[entry.index]) ?? ''}`;
     const group = groups.get(key) || [];
     group.push(entry);
     groups.set(key, group);
   }
 
-  const lines: string[] = [];
+  const patterns: SummaryPattern[] = [];
   for (const [, group] of groups) {
     const rep = group[0]; // Representative entry (first occurrence)
-    const { base, paramNames } = normalizeUrl(rep.url);
+    const { base, paramNames } = normalizeUrl(rep.url, templatePaths);
 
     // Build compact URL: base + param names only (no values)
     let compactUrl = base;
@@ -324,15 +557,22 @@ export function createLlmSummary(
       compactUrl += `?${paramNames.map((n) => `${n}=...`).join('&')}`;
     }
 
-    const countSuffix = group.length > 1 ? ` [x${group.length}]` : '';
-
-    lines.push(
-      `[${rep.index}] ${rep.method} ${compactUrl} → ${rep.status} (${rep.responseType}, ${formatBytes(rep.responseSize)})${countSuffix}`,
-    );
+    patterns.push({
+      ...rep,
+      url: compactUrl,
+      count: group.length,
+      context:
+        bodies &&
+        describePatternContext(
+          bodies[rep.index],
+          group.map((e) => bodies[e.index]),
+        ),
+    });
   }
 
   return {
-    summary: lines.join('\n'),
+    summary: patterns.map(formatSummaryLine).join('\n'),
+    patterns,
     uniquePatterns: groups.size,
     originalEntries: entries.length,
   };
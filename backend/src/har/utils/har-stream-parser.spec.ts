@@ -0,0 +1,152 @@
+import { HarEntryScanner, streamHarEntries } from './har-stream-parser';
+import { HarEntry } from './har-parser';
+
+/** Helper: create a minimal HarEntry for testing. */
+function makeEntry(url: string, postText?: string): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: postText ? 'POST' : 'GET',
+      url,
+      httpVersion: 'HTTP/2',
+      headers: [],
+      queryString: [],
+      postData: postText
+        ? { mimeType: 'application/json', text: postText }
+        : undefined,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      content: { size: 10, mimeType: 'application/json' },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+function makeHar(entries: HarEntry[]) {
+  return JSON.stringify({
+    log: {
+      version: '1.2',
+      creator: { name: 'test', version: '1.0' },
+      pages: [{ id: 'page_1', title: 'entries [{ tricky }]' }],
+      entries,
+    },
+  });
+}
+
+/** Split a string into fixed-size byte chunks to exercise chunk boundaries. */
+function toChunks(content: string, size: number): Buffer[] {
+  const buffer = Buffer.from(content, 'utf-8');
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < buffer.length; i += size) {
+    chunks.push(buffer.subarray(i, i + size));
+  }
+  return chunks;
+}
+
+async function collect(source: Iterable<Buffer>): Promise<HarEntry[]> {
+  const entries: HarEntry[] = [];
+  for await (const entry of streamHarEntries(source)) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+describe('streamHarEntries', () => {
+  const entries = [
+    makeEntry('https://api.example.com/a'),
+    makeEntry('https://api.example.com/b', '{"q":"brace } and \\" quote ]"}'),
+    makeEntry('https://api.example.com/ünïcödé?emoji=🎉'),
+  ];
+
+  it('should yield the same entries as JSON.parse', async () => {
+    const result = await collect([Buffer.from(makeHar(entries))]);
+    expect(result).toEqual(JSON.parse(JSON.stringify(entries)));
+  });
+
+  it('should handle entries split across arbitrary chunk boundaries', async () => {
+    const content = makeHar(entries);
+    for (const size of [1, 3, 7, 64]) {
+      const result = await collect(toChunks(content, size));
+      expect(result).toHaveLength(3);
+      expect(result[2].request.url).toBe(
+        'https://api.example.com/ünïcödé?emoji=🎉',
+      );
+    }
+  });
+
+  it('should ignore "entries" keys outside of log', async () => {
+    const content = JSON.stringify({
+      entries: [{ not: 'an entry' }],
+      log: {
+        nested: { entries: [1, 2] },
+        entries: [makeEntry('https://x.com/')],
+      },
+    });
+    const result = await collect([Buffer.from(content)]);
+    expect(result).toHaveLength(1);
+    expect(result[0].request.url).toBe('https://x.com/');
+  });
+
+  it('should accept an empty entries array', async () => {
+    await expect(collect([Buffer.from(makeHar([]))])).resolves.toEqual([]);
+  });
+
+  it('should tolerate a UTF-8 byte order mark', async () => {
+    const content = '\uFEFF' + makeHar([makeEntry('https://x.com/')]);
+    await expect(collect([Buffer.from(content)])).resolves.toHaveLength(1);
+  });
+
+  it('should throw on invalid JSON', async () => {
+    await expect(collect([Buffer.from('not json')])).rejects.toThrow(
+      'not valid JSON',
+    );
+  });
+
+  it('should throw on a truncated document', async () => {
+    const content = makeHar(entries);
+    await expect(
+      collect([Buffer.from(content.slice(0, content.length - 20))]),
+    ).rejects.toThrow('not valid JSON');
+  });
+
+  it('should throw on missing log.entries', async () => {
+    await expect(collect([Buffer.from('{"log": {}}')])).rejects.toThrow(
+      'missing log.entries',
+    );
+  });
+
+  it('should throw when log.entries contains non-objects', async () => {
+    await expect(
+      collect([Buffer.from('{"log": {"entries": [1]}}')]),
+    ).rejects.toThrow('must contain objects');
+  });
+});
+
+describe('HarEntryScanner', () => {
+  it('should emit each entry from the chunk that completes it', () => {
+    const content = makeHar([
+      makeEntry('https://x.com/1'),
+      makeEntry('https://x.com/2'),
+    ]);
+    const firstEnd = content.indexOf('https://x.com/2');
+    const scanner = new HarEntryScanner();
+
+    const first = scanner.write(Buffer.from(content.slice(0, firstEnd)));
+    const second = scanner.write(Buffer.from(content.slice(firstEnd)));
+    scanner.end();
+
+    expect(first.map((e) => e.request.url)).toEqual(['https://x.com/1']);
+    expect(second.map((e) => e.request.url)).toEqual(['https://x.com/2']);
+  });
+});
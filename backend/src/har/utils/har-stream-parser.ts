@@ -0,0 +1,245 @@
+/**
+ * Streaming HAR Parser
+ *
+ * Walks a HAR document byte by byte and materializes one `log.entries` item
+ * at a time, so memory stays proportional to the largest entry instead of
+ * the whole capture. Everything outside `log.entries` is skipped.
+ */
+
+import { HarEntry } from './har-parser';
+
+/** Where a container sits in the HAR document; only the path to entries matters */
+type FrameRole = 'root' | 'log' | 'entries' | 'entry' | 'other';
+
+interface Frame {
+  type: 'object' | 'array';
+  role: FrameRole;
+  /** Last key read in this object (tracked for root and log only) */
+  key: string | null;
+  /** True when the next string in this object is a key */
+  expectKey: boolean;
+}
+
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COLON = 0x3a; // :
+const COMMA = 0x2c; // ,
+
+/** Keys longer than this can't be "log" or "entries", so we stop capturing them */
+const MAX_KEY_CAPTURE = 32;
+
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09;
+}
+
+/** UTF-8 byte order mark bytes, tolerated before the root object */
+function isBom(byte: number): boolean {
+  return byte === 0xef || byte === 0xbb || byte === 0xbf;
+}
+
+/**
+ * Incremental scanner that is fed raw chunks and returns completed entries.
+ *
+ * Only structural characters are interpreted; strings are skipped with
+ * escape handling. Multi-byte UTF-8 sequences never contain ASCII bytes, so
+ * scanning bytes is safe without decoding.
+ */
+export class HarEntryScanner {
+  private readonly stack: Frame[] = [];
+  private inString = false;
+  private escaped = false;
+  private rootClosed = false;
+  private foundEntries = false;
+
+  /** Bytes of the key currently being read (root/log objects only) */
+  private keyBytes: number[] | null = null;
+
+  /** Pieces of the entry currently being read, across chunk boundaries */
+  private entryParts: Buffer[] = [];
+  private entryStart = -1;
+
+  /**
+   * Feed the next chunk of the HAR file. Returns entries completed within it.
+   */
+  write(chunk: Buffer): HarEntry[] {
+    const completed: HarEntry[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (byte === BACKSLASH) {
+          this.escaped = true;
+        } else if (byte === QUOTE) {
+          this.inString = false;
+          this.finishString();
+        } else if (this.keyBytes && this.keyBytes.length < MAX_KEY_CAPTURE) {
+          this.keyBytes.push(byte);
+        }
+        continue;
+      }
+
+      if (isWhitespace(byte)) continue;
+
+      if (this.rootClosed) {
+        throw new Error('Invalid HAR file: not valid JSON');
+      }
+
+      if (this.stack.length === 0) {
+        if (byte === OPEN_BRACE) {
+          this.push('object', 'root');
+          continue;
+        }
+        if (isBom(byte)) continue;
+        throw new Error(
+          byte === OPEN_BRACKET
+            ? 'Invalid HAR file: missing log.entries'
+            : 'Invalid HAR file: not valid JSON',
+        );
+      }
+
+      const top = this.stack[this.stack.length - 1];
+
+      switch (byte) {
+        case QUOTE:
+          this.inString = true;
+          if (top.type === 'object' && top.expectKey && this.tracksKeys(top)) {
+            this.keyBytes = [];
+          }
+          break;
+
+        case OPEN_BRACE:
+        case OPEN_BRACKET: {
+          const type = byte === OPEN_BRACE ? 'object' : 'array';
+          const role = this.childRole(top, type);
+          if (top.role === 'entries' && role !== 'entry') {
+            throw new Error(
+              'Invalid HAR file: log.entries must contain objects',
+            );
+          }
+          if (role === 'entries') this.foundEntries = true;
+          if (role === 'entry') {
+            this.entryStart = i;
+            this.entryParts = [];
+          }
+          this.push(type, role);
+          break;
+        }
+
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET: {
+          const expected = byte === CLOSE_BRACE ? 'object' : 'array';
+          if (top.type !== expected) {
+            throw new Error('Invalid HAR file: not valid JSON');
+          }
+          this.stack.pop();
+          if (top.role === 'entry') {
+            this.entryParts.push(chunk.subarray(this.entryStart, i + 1));
+            completed.push(this.parseEntry());
+          }
+          if (this.stack.length === 0) this.rootClosed = true;
+          break;
+        }
+
+        case COLON:
+          top.expectKey = false;
+          break;
+
+        case COMMA:
+          if (top.type === 'object') {
+            top.expectKey = true;
+            top.key = null;
+          }
+          break;
+
+        default:
+          // Numbers, true/false/null — nothing structural to track
+          if (top.role === 'entries') {
+            throw new Error(
+              'Invalid HAR file: log.entries must contain objects',
+            );
+          }
+      }
+    }
+
+    // Carry the unfinished part of the current entry over to the next chunk
+    if (this.entryStart >= 0) {
+      this.entryParts.push(chunk.subarray(this.entryStart));
+      this.entryStart = 0;
+    }
+
+    return completed;
+  }
+
+  /**
+   * Signal end of input. Throws if the document was truncated or had no entries.
+   */
+  end(): void {
+    if (this.inString || this.stack.length > 0) {
+      throw new Error('Invalid HAR file: not valid JSON');
+    }
+    if (!this.foundEntries) {
+      throw new Error('Invalid HAR file: missing log.entries');
+    }
+  }
+
+  private push(type: Frame['type'], role: FrameRole): void {
+    this.stack.push({ type, role, key: null, expectKey: type === 'object' });
+  }
+
+  /** Keys are only needed on the path root → log → entries */
+  private tracksKeys(frame: Frame): boolean {
+    return frame.role === 'root' || frame.role === 'log';
+  }
+
+  private childRole(parent: Frame, type: Frame['type']): FrameRole {
+    if (parent.role === 'root' && parent.key === 'log' && type === 'object') {
+      return 'log';
+    }
+    if (parent.role === 'log' && parent.key === 'entries' && type === 'array') {
+      return 'entries';
+    }
+    if (parent.role === 'entries' && type === 'object') {
+      return 'entry';
+    }
+    return 'other';
+  }
+
+  private finishString(): void {
+    if (!this.keyBytes) return;
+    const top = this.stack[this.stack.length - 1];
+    top.key = Buffer.from(this.keyBytes).toString('utf-8');
+    this.keyBytes = null;
+  }
+
+  private parseEntry(): HarEntry {
+    const raw = Buffer.concat(this.entryParts).toString('utf-8');
+    this.entryParts = [];
+    this.entryStart = -1;
+    try {
+      return JSON.parse(raw) as HarEntry;
+    } catch {
+      throw new Error('Invalid HAR file: not valid JSON');
+    }
+  }
+}
+
+/**
+ * Parse HAR entries incrementally from a stream of raw chunks.
+ * Yields each entry of `log.entries` as soon as it is complete.
+ */
+export async function* streamHarEntries(
+  source: AsyncIterable<Buffer> | Iterable<Buffer>,
+): AsyncGenerator<HarEntry> {
+  const scanner = new HarEntryScanner();
+  for await (const chunk of source) {
+    yield* scanner.write(chunk);
+  }
+  scanner.end();
+}
@@ -0,0 +1,24 @@
+import { isRecord, tryParseJson } from './json';
+
+describe('tryParseJson', () => {
+  it('should parse JSON text', () => {
+    expect(tryParseJson('{"id":1}')).toEqual({ id: 1 });
+    expect(tryParseJson('[1,2]')).toEqual([1, 2]);
+  });
+
+  it('should return undefined for missing or invalid JSON', () => {
+    expect(tryParseJson(undefined)).toBeUndefined();
+    expect(tryParseJson(null)).toBeUndefined();
+    expect(tryParseJson('')).toBeUndefined();
+    expect(tryParseJson('{id: 1}')).toBeUndefined();
+  });
+});
+
+describe('isRecord', () => {
+  it('should accept objects but not arrays or null', () => {
+    expect(isRecord({ id: 1 })).toBe(true);
+    expect(isRecord([1])).toBe(false);
+    expect(isRecord(null)).toBe(false);
+    expect(isRecord('text')).toBe(false);
+  });
+});
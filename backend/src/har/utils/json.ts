@@ -0,0 +1,22 @@
+/**
+ * JSON Helpers
+ *
+ * Captured bodies and query parameters are only sometimes JSON; the
+ * utilities that look inside them parse leniently and move on when they
+ * aren't.
+ */
+
+/** Parse JSON text, returning undefined instead of throwing. */
+export function tryParseJson(text: string | null | undefined): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/** A JSON object: not null, not an array. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
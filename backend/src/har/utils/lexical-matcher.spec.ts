@@ -0,0 +1,143 @@
+import { SummaryPattern } from './har-parser';
+import {
+  isConfidentMatch,
+  matchLexically,
+  queryTerms,
+  rankPatterns,
+  selectTopPatterns,
+  tokenize,
+} from './lexical-matcher';
+
+/** Helper: create a summary pattern for ranking tests. */
+function makePattern(
+  index: number,
+  url: string,
+  overrides: Partial<SummaryPattern> = {},
+): SummaryPattern {
+  return {
+    index,
+    method: 'GET',
+    url,
+    status: 200,
+    responseType: 'application/json',
+    responseSize: 100,
+    count: 1,
+    ...overrides,
+  };
+}
+
+const PATTERNS = [
+  makePattern(0, 'https://www.example.com/api/session'),
+  makePattern(1, 'https://cdn.example.com/weather/icons/sun', {
+    responseType: 'image/svg+xml',
+  }),
+  makePattern(
+    2,
+    'https://api.example.com/v1/weather/forecast?city=...&days=...',
+  ),
+  makePattern(3, 'https://api.example.com/v1/recipes/{id}'),
+  makePattern(4, 'https://api.example.com/v1/recipes', { method: 'POST' }),
+];
+
+describe('tokenize', () => {
+  it('should split camelCase and punctuation and drop plurals', () => {
+    expect(tokenize('getUserOrders/v2?include=items')).toEqual([
+      'get',
+      'user',
+      'order',
+      'v2',
+      'include',
+      'item',
+    ]);
+  });
+});
+
+describe('queryTerms', () => {
+  it('should drop stop words and duplicates', () => {
+    expect(
+      queryTerms('Find the API that fetches the weather, weather!'),
+    ).toEqual(['weather']);
+  });
+});
+
+describe('rankPatterns', () => {
+  it('should rank path matches above host or asset matches', () => {
+    const ranked = rankPatterns(PATTERNS, 'weather forecast for a city');
+    expect(ranked.map((r) => r.pattern.index).slice(0, 2)).toEqual([2, 1]);
+    expect(ranked[0].matchedTerms).toEqual(['weather', 'forecast', 'city']);
+    expect(ranked[0].confidence).toBe(100);
+  });
+
+  it('should use query parameter names', () => {
+    const ranked = rankPatterns(PATTERNS, 'how many days ahead');
+    expect(ranked[0].pattern.index).toBe(2);
+  });
+
+  it('should prefer the method implied by the description', () => {
+    expect(rankPatterns(PATTERNS, 'create a recipe')[0].pattern.index).toBe(4);
+    expect(rankPatterns(PATTERNS, 'the recipe by id')[0].pattern.index).toBe(3);
+  });
+
+  it('should give partial credit for prefix matches', () => {
+    const ranked = rankPatterns(
+      [
+        makePattern(0, 'https://a.com/x'),
+        makePattern(1, 'https://a.com/forecasts7day'),
+      ],
+      'forecast',
+    );
+    expect(ranked[0].pattern.index).toBe(1);
+  });
+});
+
+describe('matchLexically', () => {
+  it('should return the identifyRequest shape', () => {
+    const match = matchLexically(PATTERNS, 'the weather forecast', 2);
+    expect(match.index).toBe(2);
+    expect(match.confidence).toBe(100);
+    expect(match.explanation).toContain('"weather", "forecast"');
+    expect(match.candidates).toHaveLength(2);
+    expect(match.candidates[0]).toEqual({
+      index: 2,
+      url: 'https://api.example.com/v1/weather/forecast?city=...&days=...',
+      reason: 'URL contains weather, forecast',
+      confidence: 100,
+    });
+  });
+
+  it('should still answer when nothing matches', () => {
+    const match = matchLexically(PATTERNS, 'stock prices');
+    expect(match.confidence).toBe(0);
+    expect(match.explanation).toContain('no description words matched');
+  });
+
+  it('should reject an empty pattern list', () => {
+    expect(() => matchLexically([], 'weather')).toThrow('No requests');
+  });
+});
+
+describe('isConfidentMatch', () => {
+  it('should require confidence and a clear lead', () => {
+    expect(
+      isConfidentMatch(matchLexically(PATTERNS, 'weather forecast'), 70),
+    ).toBe(true);
+    // Both recipe patterns contain "recipe"
+    expect(isConfidentMatch(matchLexically(PATTERNS, 'recipes'), 70)).toBe(
+      false,
+    );
+    expect(isConfidentMatch(matchLexically(PATTERNS, 'stock prices'), 70)).toBe(
+      false,
+    );
+  });
+});
+
+describe('selectTopPatterns', () => {
+  it('should keep the most relevant patterns in capture order', () => {
+    const kept = selectTopPatterns(PATTERNS, 'recipe weather forecast', 3);
+    expect(kept.map((p) => p.index)).toEqual([2, 3, 4]);
+  });
+
+  it('should return every pattern when under the limit', () => {
+    expect(selectTopPatterns(PATTERNS, 'weather', 10)).toBe(PATTERNS);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Lexical Matcher
+ *
+ * Ranks the deduplicated summary patterns against the user's description
+ * without an LLM, using BM25 over the words in each pattern's host, path
+ * segments, GraphQL operation name, query parameter names and response MIME
+ * type, plus its body context (body keys) when the summary carries one.
+ *
+ * Path words and operation names weigh more than parameter names, which
+ * weigh more than host and MIME words — "/api/weather/forecast?city=" is
+ * about weather, not about the CDN it happens to be served from.
+ */
+
+import { SummaryPattern } from './har-parser';
+
+/** BM25 term-frequency saturation and length normalization */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Term-frequency weight per pattern part */
+const FIELD_WEIGHTS = {
+  path: 2,
+  graphql: 2,
+  websocket: 1.5,
+  streaming: 1,
+  query: 1.5,
+  context: 1,
+  host: 0.5,
+  mime: 0.5,
+};
+
+/** Score added to patterns that return data (JSON, XML, GraphQL, WebSocket messages) */
+const DATA_RESPONSE_BONUS = 0.3;
+
+/** Score added when the HTTP method matches a verb in the description */
+const METHOD_HINT_BONUS = 1;
+
+/** Minimum term length for prefix matches ("forecast" ~ "forecasts7day") */
+const MIN_PREFIX_LENGTH = 4;
+
+/** Words that say nothing about which endpoint is wanted */
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'any',
+  'api',
+  'call',
+  'endpoint',
+  'fetch',
+  'fetches',
+  'find',
+  'for',
+  'from',
+  'get',
+  'gets',
+  'in',
+  'is',
+  'me',
+  'of',
+  'on',
+  'request',
+  'return',
+  'returns',
+  'show',
+  'that',
+  'the',
+  'this',
+  'to',
+  'which',
+  'with',
+]);
+
+/** Description verbs that point at a specific HTTP method */
+const METHOD_HINTS: Record<string, string> = {
+  create: 'POST',
+  add: 'POST',
+  submit: 'POST',
+  send: 'POST',
+  post: 'POST',
+  update: 'PUT',
+  edit: 'PATCH',
+  delete: 'DELETE',
+  remove: 'DELETE',
+};
+
+export interface RankedPattern {
+  pattern: SummaryPattern;
+  /** BM25 score plus data/method bonuses; only meaningful for ordering */
+  score: number;
+  /** Description terms found in the pattern */
+  matchedTerms: string[];
+  /** 0-100: share of the description's (IDF-weighted) terms the pattern contains */
+  confidence: number;
+}
+
+/** Result in the shape of LlmService.identifyRequest */
+export interface LexicalMatch {
+  index: number;
+  explanation: string;
+  reasoning: string;
+  candidates: Array<{
+    index: number;
+    url: string;
+    reason: string;
+    confidence: number;
+  }>;
+  /** Confidence of the best match (0-100) */
+  confidence: number;
+}
+
+/** Lowercase words: split on punctuation and camelCase. */
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1);
+}
+
+/** Crude stemming: drop a plural "s" so "recipes" matches "recipe". */
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+    ? word.slice(0, -1)
+    : word;
+}
+
+/** Lowercase word stems: split on punctuation and camelCase, drop plural "s". */
+export function tokenize(text: string): string[] {
+  return splitWords(text).map(stem);
+}
+
+/** The description's distinct, meaningful terms. */
+export function queryTerms(description: string): string[] {
+  return [
+    ...new Set(
+      splitWords(description)
+        .filter((word) => !STOP_WORDS.has(word))
+        .map(stem),
+    ),
+  ];
+}
+
+/** Weighted term frequencies for one pattern's URL, GraphQL operation, MIME type and body context. */
+function patternTerms(pattern: SummaryPattern): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of tokenize(text)) {
+      terms.set(term, (terms.get(term) ?? 0) + weight);
+    }
+  };
+
+  let host = '';
+  let path = pattern.url;
+  let query = '';
+  try {
+    const url = new URL(pattern.url);
+    host = url.hostname;
+    // Undo percent-encoding so templated {id} segments read as words
+    path = decodeURI(url.pathname);
+    query = [...url.searchParams.keys()].join(' ');
+  } catch {
+    // Not an absolute URL — treat the whole thing as path
+  }
+
+  add(host, FIELD_WEIGHTS.host);
+  add(path, FIELD_WEIGHTS.path);
+  add(pattern.graphql ?? '', FIELD_WEIGHTS.graphql);
+  // Message kinds, plus the word itself so "websocket" in a description matches
+  add(
+    pattern.websocket ? `websocket ${pattern.websocket}` : '',
+    FIELD_WEIGHTS.websocket,
+  );
+  add(
+    pattern.streaming ? `stream streaming ${pattern.streaming}` : '',
+    FIELD_WEIGHTS.streaming,
+  );
+  add(query, FIELD_WEIGHTS.query);
+  add(pattern.responseType, FIELD_WEIGHTS.mime);
+  add(pattern.context ?? '', FIELD_WEIGHTS.context);
+  return terms;
+}
+
+/** Term frequency of `term` in a document, with half credit for prefix matches. */
+function termFrequency(doc: Map<string, number>, term: string): number {
+  const exact = doc.get(term);
+  if (exact !== undefined) return exact;
+  if (term.length < MIN_PREFIX_LENGTH) return 0;
+
+  let partial = 0;
+  for (const [word, tf] of doc) {
+    if (
+      word.startsWith(term) ||
+      (word.length >= MIN_PREFIX_LENGTH && term.startsWith(word))
+    ) {
+      partial = Math.max(partial, tf / 2);
+    }
+  }
+  return partial;
+}
+
+/**
+ * Rank every pattern against the description, best first.
+ * Ties keep capture order.
+ */
+export function rankPatterns(
+  patterns: SummaryPattern[],
+  description: string,
+): RankedPattern[] {
+  const terms = queryTerms(description);
+  const wantedMethod = tokenize(description)
+    .map((word) => METHOD_HINTS[word])
+    .find(Boolean);
+
+  const docs = patterns.map(patternTerms);
+  const lengths = docs.map((doc) =>
+    [...doc.values()].reduce((sum, tf) => sum + tf, 0),
+  );
+  const avgLength =
+    lengths.reduce((sum, length) => sum + length, 0) / (docs.length || 1) || 1;
+
+  // Inverse document frequency per query term (BM25's smoothed variant)
+  const idf = new Map<string, number>();
+  for (const term of terms) {
+    const df = docs.filter((doc) => termFrequency(doc, term) > 0).length;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+  const totalIdf = [...idf.values()].reduce((sum, value) => sum + value, 0);
+
+  return patterns
+    .map((pattern, i) => {
+      let score = 0;
+      let matchedIdf = 0;
+      const matchedTerms: string[] = [];
+      for (const term of terms) {
+        const tf = termFrequency(docs[i], term);
+        if (tf === 0) continue;
+        const termIdf = idf.get(term) ?? 0;
+        score +=
+          (termIdf * tf * (K1 + 1)) /
+          (tf + K1 * (1 - B + (B * lengths[i]) / avgLength));
+        matchedIdf += termIdf;
+        matchedTerms.push(term);
+      }
+
+      if (/json|xml|graphql/i.test(pattern.responseType) || pattern.websocket) {
+        score += DATA_RESPONSE_BONUS;
+      }
+      if (wantedMethod && pattern.method === wantedMethod) {
+        score += METHOD_HINT_BONUS;
+      }
+
+      const confidence =
+        totalIdf > 0 ? Math.round((matchedIdf / totalIdf) * 100) : 0;
+      return { pattern, score, matchedTerms, confidence };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the best pattern for the description and describe the top candidates,
+ * in the same shape the LLM is asked to answer with.
+ */
+export function matchLexically(
+  patterns: SummaryPattern[],
+  description: string,
+  maxCandidates = 3,
+): LexicalMatch {
+  if (patterns.length === 0) {
+    throw new Error('No requests to match against');
+  }
+
+  const terms = queryTerms(description);
+  const ranked = rankPatterns(patterns, description);
+  const best = ranked[0];
+  const { method, url } = best.pattern;
+
+  return {
+    index: best.pattern.index,
+    explanation: best.matchedTerms.length
+      ? `${method} ${url} matches "${best.matchedTerms.join('", "')}" from the description.`
+      : `${method} ${url} is the most API-like request; no description words matched.`,
+    reasoning: `Ranked ${patterns.length} request patterns with BM25 over the description terms (${terms.join(', ') || 'none'}) against host, path, query parameter names and response type, preferring data responses.`,
+    candidates: ranked.slice(0, maxCandidates).map((ranking) => ({
+      index: ranking.pattern.index,
+      url: ranking.pattern.url,
+      reason: ranking.matchedTerms.length
+        ? `URL contains ${ranking.matchedTerms.join(', ')}`
+        : 'No description terms in URL',
+      confidence: ranking.confidence,
+    })),
+    confidence: best.confidence,
+  };
+}
+
+/**
+ * Whether a lexical match is strong enough to skip the LLM in hybrid mode:
+ * confident, and clearly ahead of the runner-up.
+ */
+export function isConfidentMatch(
+  match: LexicalMatch,
+  minConfidence: number,
+): boolean {
+  const [best, runnerUp] = match.candidates;
+  return (
+    match.confidence >= minConfidence &&
+    (!runnerUp || runnerUp.confidence < best.confidence)
+  );
+}
+
+/**
+ * Keep only the `limit` patterns most relevant to the description, in their
+ * original (capture) order so the prompt doesn't hint at the ranking.
+ */
+export function selectTopPatterns(
+  patterns: SummaryPattern[],
+  description: string,
+  limit: number,
+): SummaryPattern[] {
+  if (patterns.length <= limit) return patterns;
+
+  const kept = new Set(
+    rankPatterns(patterns, description)
+      .slice(0, limit)
+      .map((ranking) => ranking.pattern),
+  );
+  return patterns.filter((pattern) => kept.has(pattern));
+}
@@ -0,0 +1,233 @@
+import { HarEntry } from './har-parser';
+import {
+  inferSchema,
+  mergeSchemas,
+  namePathParameters,
+  toOpenApiDocument,
+  toYaml,
+} from './openapi-generator';
+
+/** Helper: create a minimal HarEntry for OpenAPI inference tests. */
+function makeEntry(overrides: {
+  method?: string;
+  url?: string;
+  status?: number;
+  responseText?: string;
+  postData?: { mimeType: string; text: string };
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: overrides.method || 'GET',
+      url: overrides.url || 'https://api.example.com/data',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      queryString: [],
+      postData: overrides.postData,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: overrides.status ?? 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      content: {
+        size: 100,
+        mimeType: 'application/json; charset=utf-8',
+        text: overrides.responseText,
+      },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+describe('namePathParameters', () => {
+  it('should replace ID-like segments with named placeholders', () => {
+    expect(namePathParameters('/users/42/orders').path).toBe(
+      '/users/{userId}/orders',
+    );
+    expect(
+      namePathParameters('/categories/3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b')
+        .path,
+    ).toBe('/categories/{categoryId}');
+    expect(
+      namePathParameters('/blobs/9f86d081884c7d659a2feaa0c55ad015').path,
+    ).toBe('/blobs/{blobId}');
+  });
+
+  it('should keep fixed resource names', () => {
+    expect(namePathParameters('/users/me/settings').path).toBe(
+      '/users/me/settings',
+    );
+    expect(namePathParameters('/v2/items').path).toBe('/v2/items');
+  });
+
+  it('should name consecutive IDs uniquely', () => {
+    const { path, params } = namePathParameters('/a/1/2');
+    expect(path).toBe('/a/{aId}/{id}');
+    expect(params.map((p) => p.segment)).toEqual([2, 3]);
+  });
+});
+
+describe('inferSchema / mergeSchemas', () => {
+  it('should infer nested object schemas', () => {
+    expect(
+      inferSchema({
+        id: 1,
+        name: 'a',
+        tags: ['x'],
+        at: '2024-01-01T00:00:00Z',
+      }),
+    ).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        at: { type: 'string', format: 'date-time' },
+      },
+      required: ['id', 'name', 'tags', 'at'],
+    });
+  });
+
+  it('should only require properties present in every sample', () => {
+    const merged = mergeSchemas(
+      inferSchema({ id: 1, name: 'a' }),
+      inferSchema({ id: 2.5, extra: true }),
+    );
+    expect(merged.required).toEqual(['id']);
+    expect(merged.properties?.id).toEqual({ type: 'number' });
+    expect(Object.keys(merged.properties ?? {})).toEqual([
+      'id',
+      'name',
+      'extra',
+    ]);
+  });
+
+  it('should mark nullable values with a type list', () => {
+    expect(mergeSchemas(inferSchema('a'), inferSchema(null))).toEqual({
+      type: ['string', 'null'],
+    });
+  });
+});
+
+describe('toOpenApiDocument', () => {
+  const entries = [
+    makeEntry({
+      url: 'https://api.example.com/users/1?expand=orders',
+      responseText: '{"id":1,"name":"Ada"}',
+    }),
+    makeEntry({
+      url: 'https://api.example.com/users/2',
+      responseText: '{"id":2,"name":null}',
+    }),
+    makeEntry({ url: 'https://api.example.com/users/3', status: 404 }),
+    makeEntry({
+      method: 'POST',
+      url: 'https://api.example.com/users',
+      status: 201,
+      postData: { mimeType: 'application/json', text: '{"name":"Bob"}' },
+    }),
+    makeEntry({ url: 'data:text/plain,hello' }),
+  ];
+  const doc = toOpenApiDocument('capture', entries);
+
+  it('should emit an OpenAPI 3.1 document with servers', () => {
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.info.title).toBe('capture');
+    expect(doc.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(Object.keys(doc.paths)).toEqual(['/users', '/users/{userId}']);
+  });
+
+  it('should infer path and optional query parameters', () => {
+    const op = doc.paths['/users/{userId}'].get;
+    expect(op.operationId).toBe('getUsersByUserId');
+    expect(op.description).toBe('Observed 3 times.');
+    expect(op.parameters).toEqual([
+      {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: { type: 'integer' },
+        example: '1',
+      },
+      {
+        name: 'expand',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        example: 'orders',
+      },
+    ]);
+  });
+
+  it('should infer response schemas from retained JSON bodies', () => {
+    const { responses } = doc.paths['/users/{userId}'].get;
+    expect(Object.keys(responses)).toEqual(['200', '404']);
+    expect(responses['200'].content?.['application/json'].schema).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        name: { type: ['string', 'null'] },
+      },
+      required: ['id', 'name'],
+    });
+    expect(responses['404'].content?.['application/json']).toEqual({});
+  });
+
+  it('should infer request body schemas', () => {
+    const op = doc.paths['/users'].post;
+    expect(op.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+          },
+        },
+      },
+    });
+  });
+});
+
+describe('toYaml', () => {
+  it('should serialize nested objects and arrays', () => {
+    expect(
+      toYaml({
+        openapi: '3.1.0',
+        servers: [{ url: 'https://a.com' }],
+        paths: { '/x/{id}': { get: { tags: [], ok: true } } },
+        responses: { '200': { description: 'OK' } },
+      }),
+    ).toBe(
+      [
+        'openapi: "3.1.0"',
+        'servers:',
+        '  - url: "https://a.com"',
+        'paths:',
+        '  /x/{id}:',
+        '    get:',
+        '      tags: []',
+        '      ok: true',
+        'responses:',
+        '  "200":',
+        '    description: OK',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should quote strings YAML would misread', () => {
+    expect(toYaml(['yes', 'null', '12', 'a: b', 'line\nbreak'])).toBe(
+      '- "yes"\n- "null"\n- "12"\n- "a: b"\n- "line\\nbreak"\n',
+    );
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * OpenAPI Generator
+ *
+ * Infers an OpenAPI 3.1 document from HAR entries:
+ * 1. Entries are grouped into endpoints with the same deduplication key used
+ *    for the LLM summary (method + base URL + query parameter names)
+ * 2. Path templating (IDs, UUIDs, hashes, dates, slugs) is part of that key,
+ *    and each placeholder is named after its resource: /users/{userId}
+ * 3. Query parameters, request bodies and responses are merged across all
+ *    observed calls; JSON schemas come from request bodies and from the
+ *    response bodies retained at upload time
+ */
+
+import {
+  CompactEntry,
+  getDeduplicationKey,
+  HarEntry,
+  isPathParameterSegment,
+  normalizeUrl,
+  toCompactEntry,
+} from './har-parser';
+import { tryParseJson } from './json';
+
+export const OPENAPI_VERSION = '3.1.0';
+
+/** Calls sampled per endpoint when inferring parameters and schemas */
+const MAX_SAMPLES_PER_ENDPOINT = 20;
+
+/** Nesting depth after which schemas are left open ({}) */
+const MAX_SCHEMA_DEPTH = 8;
+
+/** Array elements sampled when inferring an items schema */
+const MAX_ARRAY_SAMPLES = 20;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+export interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+  example?: string;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description: string;
+  servers?: Array<{ url: string }>;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema?: JsonSchema }>;
+  };
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, { schema?: JsonSchema }> }
+  >;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+/** An endpoint: all calls sharing a method and path template */
+interface Endpoint {
+  method: string;
+  path: string;
+  pathParams: Array<{ name: string; segment: number }>;
+  origins: Set<string>;
+  calls: number;
+  samples: HarEntry[];
+}
+
+/**
+ * Build an OpenAPI document from HAR entries.
+ */
+export function toOpenApiDocument(
+  title: string,
+  entries: HarEntry[],
+): OpenApiDocument {
+  const endpoints = groupEndpoints(entries);
+  const servers = [...new Set(endpoints.flatMap((e) => [...e.origins]))];
+  const operationIds = new Set<string>();
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const endpoint of endpoints) {
+    const operation = toOperation(endpoint, operationIds);
+    if (servers.length > 1) {
+      operation.servers = [...endpoint.origins].map((url) => ({ url }));
+    }
+    paths[endpoint.path] ??= {};
+    paths[endpoint.path][endpoint.method.toLowerCase()] = operation;
+  }
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title,
+      version: '1.0.0',
+      description: `Inferred from ${entries.length} captured requests.`,
+    },
+    servers: servers.map((url) => ({ url })),
+    paths,
+  };
+}
+
+/**
+ * Group entries by deduplication key, then merge groups that share a
+ * method and path template into endpoints.
+ */
+function groupEndpoints(entries: HarEntry[]): Endpoint[] {
+  const groups = new Map<
+    string,
+    { compact: CompactEntry; entries: HarEntry[] }
+  >();
+  entries.forEach((entry, index) => {
+    const compact = toCompactEntry(entry, index);
+    if (!/^https?:/i.test(compact.url) || !URL.canParse(compact.url)) return;
+    const key = getDeduplicationKey(compact, true);
+    const group = groups.get(key);
+    if (group) group.entries.push(entry);
+    else groups.set(key, { compact, entries: [entry] });
+  });
+
+  const endpoints = new Map<string, Endpoint>();
+  for (const { compact, entries: calls } of groups.values()) {
+    const base = new URL(normalizeUrl(compact.url).base);
+    const { path, params } = namePathParameters(base.pathname);
+    const method = compact.method.toUpperCase();
+    const key = `${method} ${path}`;
+
+    let endpoint = endpoints.get(key);
+    if (!endpoint) {
+      endpoint = {
+        method,
+        path,
+        pathParams: params,
+        origins: new Set(),
+        calls: 0,
+        samples: [],
+      };
+      endpoints.set(key, endpoint);
+    }
+    endpoint.origins.add(base.origin);
+    endpoint.calls += calls.length;
+    const room = MAX_SAMPLES_PER_ENDPOINT - endpoint.samples.length;
+    endpoint.samples.push(...calls.slice(0, Math.max(room, 1)));
+  }
+
+  return [...endpoints.values()].sort(
+    (a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method),
+  );
+}
+
+/**
+ * Replace variable path segments with {name} placeholders named after the
+ * preceding segment: /users/42/orders → /users/{userId}/orders.
+ */
+export function namePathParameters(pathname: string): {
+  path: string;
+  params: Array<{ name: string; segment: number }>;
+} {
+  const segments = pathname.split('/');
+  const params: Array<{ name: string; segment: number }> = [];
+  const used = new Set<string>();
+
+  const templated = segments.map((segment, i) => {
+    if (!segment || !isPathParameterSegment(segment)) return segment;
+    const previous = segments[i - 1];
+    const base =
+      previous && !isPathParameterSegment(previous)
+        ? `${singularize(camelCase(previous))}Id`
+        : 'id';
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+    used.add(name);
+    params.push({ name, segment: i });
+    return `{${name}}`;
+  });
+
+  return { path: templated.join('/') || '/', params };
+}
+
+function camelCase(str: string): string {
+  const words = str.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words
+    .map((w, i) =>
+      i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase(),
+    )
+    .join('');
+}
+
+function singularize(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function toOperation(
+  endpoint: Endpoint,
+  operationIds: Set<string>,
+): OpenApiOperation {
+  const parameters = [
+    ...pathParameters(endpoint),
+    ...queryParameters(endpoint.samples),
+  ];
+  const requestBody = inferRequestBody(endpoint.samples);
+
+  const operation: OpenApiOperation = {
+    operationId: uniqueOperationId(endpoint, operationIds),
+    summary: `${endpoint.method} ${endpoint.path}`,
+    description: `Observed ${endpoint.calls} time${endpoint.calls === 1 ? '' : 's'}.`,
+    responses: inferResponses(endpoint.samples),
+  };
+  if (parameters.length > 0) operation.parameters = parameters;
+  if (requestBody) operation.requestBody = requestBody;
+  return operation;
+}
+
+/**
+ * operationId from method and path, e.g. GET /users/{userId} → getUsersByUserId.
+ */
+function uniqueOperationId(endpoint: Endpoint, used: Set<string>): string {
+  const parts = endpoint.path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const param = /^\{(.+)\}$/.exec(segment);
+      const word = param ? param[1] : camelCase(segment);
+      const capitalized = word ? word[0].toUpperCase() + word.slice(1) : '';
+      return param ? `By${capitalized}` : capitalized;
+    });
+  const base = endpoint.method.toLowerCase() + (parts.join('') || 'Root');
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}${n}`;
+  used.add(id);
+  return id;
+}
+
+function pathParameters(endpoint: Endpoint): OpenApiParameter[] {
+  return endpoint.pathParams.map(({ name, segment }) => {
+    const values = endpoint.samples.map((entry) => {
+      const { pathname } = new URL(entry.request.url);
+      return pathname.split('/')[segment] ?? '';
+    });
+    return {
+      name,
+      in: 'path',
+      required: true,
+      schema: inferStringValues(values),
+      example: values[0],
+    };
+  });
+}
+
+function queryParameters(samples: HarEntry[]): OpenApiParameter[] {
+  const values = new Map<string, string[]>();
+  const seenIn = new Map<string, number>();
+
+  for (const entry of samples) {
+    const params = new URL(entry.request.url).searchParams;
+    for (const name of new Set(params.keys())) {
+      seenIn.set(name, (seenIn.get(name) ?? 0) + 1);
+      values.set(name, [...(values.get(name) ?? []), ...params.getAll(name)]);
+    }
+  }
+
+  return [...values.keys()].sort().map((name) => {
+    const observed = values.get(name) ?? [];
+    return {
+      name,
+      in: 'query',
+      required: seenIn.get(name) === samples.length,
+      schema: inferStringValues(observed),
+      example: observed[0],
+    };
+  });
+}
+
+/**
+ * Schema for values that arrive as strings (path and query parameters).
+ */
+function inferStringValues(values: string[]): JsonSchema {
+  if (values.length > 0 && values.every((v) => /^-?\d+$/.test(v))) {
+    return { type: 'integer' };
+  }
+  if (values.length > 0 && values.every((v) => /^-?\d+\.\d+$/.test(v))) {
+    return { type: 'number' };
+  }
+  if (values.length > 0 && values.every((v) => v === 'true' || v === 'false')) {
+    return { type: 'boolean' };
+  }
+  return inferSchema(values[0] ?? '');
+}
+
+/** Media type without parameters, e.g. "application/json; charset=utf-8" → "application/json" */
+function mediaType(mimeType: string | undefined): string {
+  return (mimeType || '').split(';')[0].trim().toLowerCase();
+}
+
+function isJsonMediaType(type: string): boolean {
+  return /[/+]json$/.test(type);
+}
+
+function inferRequestBody(
+  samples: HarEntry[],
+): OpenApiOperation['requestBody'] {
+  const content: Record<string, { schema?: JsonSchema }> = {};
+  let withBody = 0;
+
+  for (const entry of samples) {
+    const postData = entry.request.postData;
+    if (!postData?.text && !postData?.params?.length) continue;
+    withBody++;
+
+    const type = mediaType(postData.mimeType) || 'application/octet-stream';
+    let schema: JsonSchema | undefined;
+    if (postData.params?.length && !postData.text) {
+      schema = {
+        type: 'object',
+        properties: Object.fromEntries(
+          postData.params.map((p) => [p.name, { type: 'string' }]),
+        ),
+      };
+    } else if (isJsonMediaType(type)) {
+      const parsed = tryParseJson(postData.text);
+      if (parsed !== undefined) schema = inferSchema(parsed);
+    } else {
+      schema = { type: 'string' };
+    }
+    content[type] = mergeMediaSchema(content[type], schema);
+  }
+
+  if (withBody === 0) return undefined;
+  return { required: withBody === samples.length, content };
+}
+
+function inferResponses(samples: HarEntry[]): OpenApiOperation['responses'] {
+  const responses: OpenApiOperation['responses'] = {};
+
+  for (const entry of samples) {
+    const { status, statusText, content: body } = entry.response;
+    if (!status) continue;
+
+    const response = (responses[String(status)] ??= {
+      description: statusText || 'Response',
+    });
+    const type = mediaType(body.mimeType);
+    if (!type || (!body.size && !body.text)) continue;
+
+    let schema: JsonSchema | undefined;
+    if (body.text && isJsonMediaType(type)) {
+      const parsed = tryParseJson(body.text);
+      if (parsed !== undefined) schema = inferSchema(parsed);
+    }
+    response.content ??= {};
+    response.content[type] = mergeMediaSchema(response.content[type], schema);
+  }
+
+  if (Object.keys(responses).length === 0) {
+    responses.default = { description: 'Response' };
+  }
+  return responses;
+}
+
+function mergeMediaSchema(
+  existing: { schema?: JsonSchema } | undefined,
+  schema: JsonSchema | undefined,
+): { schema?: JsonSchema } {
+  if (!existing) return schema ? { schema } : {};
+  if (!schema) return existing;
+  return {
+    schema: existing.schema ? mergeSchemas(existing.schema, schema) : schema,
+  };
+}
+
+/**
+ * Infer a JSON Schema from a single JSON value.
+ */
+export function inferSchema(value: unknown, depth = 0): JsonSchema {
+  if (depth > MAX_SCHEMA_DEPTH) return {};
+  if (value === null) return { type: 'null' };
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, MAX_ARRAY_SAMPLES)
+      .map((item) => inferSchema(item, depth + 1));
+    return items.length > 0
+      ? { type: 'array', items: items.reduce(mergeSchemas) }
+      : { type: 'array' };
+  }
+  switch (typeof value) {
+    case 'object': {
+      const record = value as Record<string, unknown>;
+      const keys = Object.keys(record);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          keys.map((key) => [key, inferSchema(record[key], depth + 1)]),
+        ),
+        required: keys,
+      };
+    }
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'string':
+      if (UUID_PATTERN.test(value)) return { type: 'string', format: 'uuid' };
+      if (DATE_TIME_PATTERN.test(value)) {
+        return { type: 'string', format: 'date-time' };
+      }
+      return { type: 'string' };
+    default:
+      return {};
+  }
+}
+
+function typesOf(schema: JsonSchema): string[] {
+  if (schema.type === undefined) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/**
+ * Merge two schemas observed for the same location. Object properties are
+ * unioned (required only if required in both); differing types become a
+ * type list, keeping nested detail when the only difference is null.
+ */
+export function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  const aTypes = typesOf(a);
+  const bTypes = typesOf(b);
+  // An open schema accepts anything, so the merge stays open
+  if (aTypes.length === 0 || bTypes.length === 0) return {};
+
+  let types = [...new Set([...aTypes, ...bTypes])];
+  if (types.includes('number')) types = types.filter((t) => t !== 'integer');
+
+  const nonNull = types.filter((t) => t !== 'null');
+  if (nonNull.length > 1) return { type: types };
+
+  const [type] = nonNull.length > 0 ? nonNull : types;
+  const merged: JsonSchema = {
+    type: types.length > 1 ? [type, 'null'] : type,
+  };
+  const aDetail = aTypes.includes(type) ? a : undefined;
+  const bDetail = bTypes.includes(type) ? b : undefined;
+
+  if (type === 'object') {
+    const properties = { ...aDetail?.properties };
+    for (const [key, schema] of Object.entries(bDetail?.properties ?? {})) {
+      properties[key] = properties[key]
+        ? mergeSchemas(properties[key], schema)
+        : schema;
+    }
+    merged.properties = properties;
+    const required =
+      aDetail && bDetail
+        ? (aDetail.required ?? []).filter((key) =>
+            bDetail.required?.includes(key),
+          )
+        : (aDetail ?? bDetail)?.required;
+    if (required?.length) merged.required = required;
+  } else if (type === 'array') {
+    const items = [aDetail?.items, bDetail?.items].filter(
+      (s): s is JsonSchema => !!s,
+    );
+    if (items.length > 0) merged.items = items.reduce(mergeSchemas);
+  } else if (type === 'string') {
+    const formats = [aDetail, bDetail].filter(Boolean).map((s) => s?.format);
+    if (formats[0] && formats.every((f) => f === formats[0])) {
+      merged.format = formats[0];
+    }
+  }
+  return merged;
+}
+
+/** Words YAML would read as booleans or null if left unquoted */
+const YAML_RESERVED = /^(true|false|null|yes|no|on|off|y|n|~)$/i;
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value !== 'string') return JSON.stringify(value);
+  const plain =
+    /^[A-Za-z_./][\w./{}\- ]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !YAML_RESERVED.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function isYamlInline(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  if (value && typeof value === 'object')
+    return Object.keys(value).length === 0;
+  return true;
+}
+
+function yamlLines(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    return value.flatMap((item: unknown) => {
+      if (isYamlInline(item)) return [`${pad}- ${yamlScalar(item)}`];
+      const lines = yamlLines(item, indent + 2);
+      lines[0] = `${pad}- ${lines[0].slice(indent + 2)}`;
+      return lines;
+    });
+  }
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .flatMap(([key, v]) =>
+      isYamlInline(v)
+        ? [`${pad}${yamlScalar(key)}: ${yamlScalar(v)}`]
+        : [`${pad}${yamlScalar(key)}:`, ...yamlLines(v, indent + 2)],
+    );
+}
+
+/**
+ * Serialize a JSON-compatible value (such as an OpenAPI document) as YAML.
+ */
+export function toYaml(value: unknown): string {
+  return isYamlInline(value)
+    ? `${yamlScalar(value)}\n`
+    : `${yamlLines(value, 0).join('\n')}\n`;
+}
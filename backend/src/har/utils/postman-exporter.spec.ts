@@ -0,0 +1,159 @@
+import { HarEntry } from './har-parser';
+import {
+  headerVariableName,
+  POSTMAN_SCHEMA_URL,
+  toPostmanCollection,
+} from './postman-exporter';
+
+/** Helper: create a minimal HarEntry for export tests. */
+function makeEntry(overrides: {
+  method?: string;
+  url?: string;
+  headers?: Array<{ name: string; value: string }>;
+  postData?: {
+    mimeType: string;
+    text: string;
+    params?: Array<{ name: string; value: string }>;
+  };
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: overrides.method || 'GET',
+      url: overrides.url || 'https://api.example.com/data',
+      httpVersion: 'HTTP/2',
+      headers: overrides.headers || [],
+      queryString: [],
+      postData: overrides.postData,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      content: { size: 0, mimeType: 'application/json' },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+describe('toPostmanCollection', () => {
+  it('should produce a v2.1 collection with one folder per host', () => {
+    const collection = toPostmanCollection('capture', [
+      { index: 0, entry: makeEntry({ url: 'https://api.example.com/a' }) },
+      { index: 3, entry: makeEntry({ url: 'https://cdn.example.com/b' }) },
+      { index: 5, entry: makeEntry({ url: 'https://api.example.com/c' }) },
+    ]);
+    expect(collection.info.schema).toBe(POSTMAN_SCHEMA_URL);
+    expect(collection.info.name).toBe('capture');
+    expect(collection.item.map((f) => f.name)).toEqual([
+      'api.example.com',
+      'cdn.example.com',
+    ]);
+    expect(collection.item[0].item.map((i) => i.name)).toEqual([
+      '[0] GET /a',
+      '[5] GET /c',
+    ]);
+  });
+
+  it('should split the URL into Postman parts', () => {
+    const collection = toPostmanCollection('c', [
+      {
+        index: 0,
+        entry: makeEntry({ url: 'http://localhost:8080/v1/users?page=2&q=a' }),
+      },
+    ]);
+    const { url } = collection.item[0].item[0].request;
+    expect(url).toEqual({
+      raw: 'http://localhost:8080/v1/users?page=2&q=a',
+      protocol: 'http',
+      host: ['localhost'],
+      port: '8080',
+      path: ['v1', 'users'],
+      query: [
+        { key: 'page', value: '2' },
+        { key: 'q', value: 'a' },
+      ],
+    });
+  });
+
+  it('should turn sensitive headers into collection variables', () => {
+    const collection = toPostmanCollection('c', [
+      {
+        index: 0,
+        entry: makeEntry({
+          headers: [
+            { name: 'Authorization', value: 'Bearer secret' },
+            { name: 'X-Api-Key', value: 'key-123' },
+            { name: 'Accept', value: 'application/json' },
+            { name: ':authority', value: 'api.example.com' },
+          ],
+        }),
+      },
+    ]);
+    const json = JSON.stringify(collection);
+    expect(json).not.toContain('secret');
+    expect(json).not.toContain('key-123');
+    expect(json).not.toContain(':authority');
+    expect(collection.item[0].item[0].request.header).toEqual([
+      { key: 'Authorization', value: '{{authorization}}', type: 'text' },
+      { key: 'X-Api-Key', value: '{{xApiKey}}', type: 'text' },
+      { key: 'Accept', value: 'application/json', type: 'text' },
+    ]);
+    expect(collection.variable.map((v) => v.key)).toEqual([
+      'authorization',
+      'xApiKey',
+    ]);
+    expect(collection.variable.every((v) => v.value === '')).toBe(true);
+  });
+
+  it('should export raw JSON bodies and url-encoded form params', () => {
+    const collection = toPostmanCollection('c', [
+      {
+        index: 0,
+        entry: makeEntry({
+          method: 'POST',
+          postData: { mimeType: 'application/json', text: '{"a":1}' },
+        }),
+      },
+      {
+        index: 1,
+        entry: makeEntry({
+          method: 'POST',
+          postData: {
+            mimeType: 'application/x-www-form-urlencoded',
+            text: '',
+            params: [{ name: 'q', value: 'x' }],
+          },
+        }),
+      },
+    ]);
+    const [json, form] = collection.item[0].item;
+    expect(json.request.body).toEqual({
+      mode: 'raw',
+      raw: '{"a":1}',
+      options: { raw: { language: 'json' } },
+    });
+    expect(form.request.body).toEqual({
+      mode: 'urlencoded',
+      urlencoded: [{ key: 'q', value: 'x', type: 'text' }],
+    });
+  });
+});
+
+describe('headerVariableName', () => {
+  it('should camelCase header names', () => {
+    expect(headerVariableName('Cookie')).toBe('cookie');
+    expect(headerVariableName('Proxy-Authorization')).toBe(
+      'proxyAuthorization',
+    );
+    expect(headerVariableName('x-auth-token')).toBe('xAuthToken');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Postman Collection Exporter
+ *
+ * Converts HAR entries into a Postman Collection v2.1 document, grouped into
+ * one folder per host. Auto-set headers are skipped like in the curl
+ * generator, and sensitive headers (Authorization, Cookie, ...) reference
+ * collection variables instead of carrying their literal values.
+ */
+
+import { randomUUID } from 'crypto';
+import { isSensitiveHeader, isSkippedHeader } from './curl-generator';
+import { HarEntry } from './har-parser';
+
+export const POSTMAN_SCHEMA_URL =
+  'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+type KeyValue = { key: string; value: string };
+
+export interface PostmanRequestItem {
+  name: string;
+  request: {
+    method: string;
+    header: Array<KeyValue & { type: 'text' }>;
+    url: {
+      raw: string;
+      protocol: string;
+      host: string[];
+      port?: string;
+      path: string[];
+      query?: KeyValue[];
+    };
+    body?:
+      | { mode: 'raw'; raw: string; options?: { raw: { language: string } } }
+      | { mode: 'urlencoded'; urlencoded: Array<KeyValue & { type: 'text' }> };
+  };
+  response: [];
+}
+
+export interface PostmanFolder {
+  name: string;
+  item: PostmanRequestItem[];
+}
+
+export interface PostmanCollection {
+  info: { _postman_id: string; name: string; schema: string };
+  item: PostmanFolder[];
+  variable: Array<KeyValue & { type: 'string'; description: string }>;
+}
+
+/**
+ * Build a Postman collection from HAR entries (with their indices, used in
+ * request names so they can be matched back to the inspector).
+ */
+export function toPostmanCollection(
+  name: string,
+  entries: Array<{ index: number; entry: HarEntry }>,
+): PostmanCollection {
+  const folders = new Map<string, PostmanFolder>();
+  const variables = new Map<string, string>();
+
+  for (const { index, entry } of entries) {
+    const url = new URL(entry.request.url);
+    let folder = folders.get(url.host);
+    if (!folder) {
+      folder = { name: url.host, item: [] };
+      folders.set(url.host, folder);
+    }
+    folder.item.push(toRequestItem(entry, index, url, variables));
+  }
+
+  return {
+    info: { _postman_id: randomUUID(), name, schema: POSTMAN_SCHEMA_URL },
+    item: [...folders.values()],
+    variable: [...variables].map(([key, header]) => ({
+      key,
+      value: '',
+      type: 'string',
+      description: `Value for the ${header} header (not exported from the HAR)`,
+    })),
+  };
+}
+
+/**
+ * Collection variable name for a sensitive header, e.g. X-Api-Key → xApiKey.
+ */
+export function headerVariableName(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+([a-z0-9])/g, (_, c: string) => c.toUpperCase())
+    .replace(/[^a-zA-Z0-9]/g, '');
+}
+
+function toRequestItem(
+  entry: HarEntry,
+  index: number,
+  url: URL,
+  variables: Map<string, string>,
+): PostmanRequestItem {
+  const { request } = entry;
+  const method = request.method.toUpperCase();
+
+  const header = request.headers
+    .filter((h) => !isSkippedHeader(h.name))
+    .map((h) => {
+      if (!isSensitiveHeader(h.name)) {
+        return { key: h.name, value: h.value, type: 'text' as const };
+      }
+      const variable = headerVariableName(h.name);
+      variables.set(variable, h.name);
+      return { key: h.name, value: `{{${variable}}}`, type: 'text' as const };
+    });
+
+  const query = Array.from(url.searchParams, ([key, value]) => ({
+    key,
+    value,
+  }));
+
+  return {
+    name: `[${index}] ${method} ${url.pathname}`,
+    request: {
+      method,
+      header,
+      url: {
+        raw: request.url,
+        protocol: url.protocol.replace(/:$/, ''),
+        host: url.hostname.split('.'),
+        ...(url.port && { port: url.port }),
+        path: url.pathname.split('/').filter(Boolean),
+        ...(query.length > 0 && { query }),
+      },
+      ...toBody(entry),
+    },
+    response: [],
+  };
+}
+
+function toBody(entry: HarEntry): Pick<PostmanRequestItem['request'], 'body'> {
+  const postData = entry.request.postData;
+  if (postData?.text) {
+    const language = postData.mimeType?.includes('json')
+      ? 'json'
+      : postData.mimeType?.includes('xml')
+        ? 'xml'
+        : undefined;
+    return {
+      body: {
+        mode: 'raw',
+        raw: postData.text,
+        ...(language && { options: { raw: { language } } }),
+      },
+    };
+  }
+  if (postData?.params?.length) {
+    return {
+      body: {
+        mode: 'urlencoded',
+        urlencoded: postData.params.map((p) => ({
+          key: p.name,
+          value: p.value,
+          type: 'text' as const,
+        })),
+      },
+    };
+  }
+  return {};
+}
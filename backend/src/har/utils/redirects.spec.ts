@@ -0,0 +1,127 @@
+import {
+  fetchFollowingRedirects,
+  RedirectBlockedError,
+  RedirectHop,
+  redirectRequest,
+  TooManyRedirectsError,
+} from './redirects';
+
+/** Helper: a redirect response to the given location. */
+function redirect(status: number, location: string): Response {
+  return new Response(null, { status, headers: { location } });
+}
+
+describe('redirectRequest', () => {
+  const post = {
+    url: 'https://a.com/login',
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer x' },
+    body: '{"a":1}',
+  };
+
+  it('should turn a POST into a body-less GET after 302 and 303', () => {
+    for (const status of [302, 303]) {
+      expect(redirectRequest(post, status, 'https://a.com/home')).toEqual({
+        url: 'https://a.com/home',
+        method: 'GET',
+        headers: { Authorization: 'Bearer x' },
+        body: undefined,
+      });
+    }
+  });
+
+  it('should keep the method and body after 307 and 308', () => {
+    const next = redirectRequest(post, 307, 'https://a.com/v2/login');
+    expect(next.method).toBe('POST');
+    expect(next.body).toBe('{"a":1}');
+    expect(next.headers).toEqual(post.headers);
+  });
+
+  it('should not send credentials to another origin', () => {
+    const next = redirectRequest(post, 308, 'https://b.com/login');
+    expect(next.headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+});
+
+describe('fetchFollowingRedirects', () => {
+  const request = { url: 'https://a.com/start', method: 'GET', headers: {} };
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should validate and follow each Location, recording the hops', async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirect(301, '/next'))
+      .mockResolvedValueOnce(redirect(302, 'https://b.com/end'))
+      .mockResolvedValueOnce(new Response('done'));
+    const validated: string[] = [];
+    const hops: RedirectHop[] = [];
+
+    const response = await fetchFollowingRedirects(request, {
+      maxRedirects: 5,
+      validate: (url) => Promise.resolve(void validated.push(url)),
+      hops,
+    });
+
+    expect(await response.text()).toBe('done');
+    expect(validated).toEqual(['https://a.com/next', 'https://b.com/end']);
+    expect(hops.map((h) => [h.url, h.status, h.location])).toEqual([
+      ['https://a.com/start', 301, 'https://a.com/next'],
+      ['https://a.com/next', 302, 'https://b.com/end'],
+    ]);
+    expect(fetchMock.mock.calls[2][0]).toBe('https://b.com/end');
+  });
+
+  it('should not request a Location that fails validation', async () => {
+    fetchMock.mockResolvedValueOnce(redirect(302, 'http://169.254.169.254/'));
+    const hops: RedirectHop[] = [];
+
+    await expect(
+      fetchFollowingRedirects(request, {
+        maxRedirects: 5,
+        validate: () => Promise.reject(new Error('blocked')),
+        hops,
+      }),
+    ).rejects.toThrow(RedirectBlockedError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(hops).toEqual([
+      expect.objectContaining({
+        location: 'http://169.254.169.254/',
+        refused: 'blocked',
+      }),
+    ]);
+  });
+
+  it('should stop after the maximum number of redirects', async () => {
+    fetchMock.mockImplementation(() =>
+      Promise.resolve(redirect(302, '/again')),
+    );
+    const hops: RedirectHop[] = [];
+
+    await expect(
+      fetchFollowingRedirects(request, {
+        maxRedirects: 2,
+        validate: () => Promise.resolve(),
+        hops,
+      }),
+    ).rejects.toThrow(TooManyRedirectsError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(hops).toHaveLength(3);
+  });
+
+  it('should return a 3xx without a Location as the response', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const response = await fetchFollowingRedirects(request, {
+      maxRedirects: 5,
+      validate: () => Promise.resolve(),
+      hops: [],
+    });
+    expect(response.status).toBe(304);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Execute Redirects
+ *
+ * The execute proxy follows redirects itself rather than letting fetch do
+ * it: fetch follows them internally, so only the first URL would pass the
+ * SSRF checks and a public host could 302 the proxy to 169.254.169.254.
+ * Here every Location is validated before it is requested, the number of
+ * hops is capped, and each hop is recorded (status, target, timing) for the
+ * execute response.
+ *
+ * Hops change the request the way browsers do: 303 (and 301/302 after a
+ * POST) turn it into a body-less GET, and credentials are not sent on to
+ * another origin.
+ */
+
+/** Statuses that send the client on to their Location */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** Headers not sent on when a redirect leaves the origin */
+const CREDENTIAL_HEADERS = new Set([
+  'authorization',
+  'cookie',
+  'proxy-authorization',
+]);
+
+/** Headers describing a body, dropped when a redirect turns into a GET */
+const BODY_HEADERS = new Set([
+  'content-type',
+  'content-length',
+  'content-encoding',
+  'content-language',
+  'content-location',
+]);
+
+/** One redirect the proxy followed (or refused) */
+export interface RedirectHop {
+  /** URL that answered with the redirect */
+  url: string;
+  status: number;
+  statusText: string;
+  /** Absolute URL it redirected to */
+  location: string;
+  /** Milliseconds from sending the request to receiving the redirect */
+  duration: number;
+  /** Why the Location was not requested, when it failed validation */
+  refused?: string;
+}
+
+/** A request as the proxy sends it, redirect by redirect */
+export interface RedirectableRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface FollowRedirectsOptions {
+  /** Redirects followed before giving up */
+  maxRedirects: number;
+  /** SSRF check run on every Location before it is requested; throws to refuse it, with the reason as message */
+  validate: (url: string) => Promise<void>;
+  /** Receives each redirect as it happens, so callers keep the chain even when a later hop fails */
+  hops: RedirectHop[];
+  signal?: AbortSignal;
+}
+
+/** Thrown when a redirect's Location fails validation */
+export class RedirectBlockedError extends Error {
+  constructor(
+    readonly location: string,
+    readonly reason: string,
+  ) {
+    super(`Redirect to ${location} was blocked: ${reason}`);
+    this.name = 'RedirectBlockedError';
+  }
+}
+
+/** Thrown when a request redirects more often than allowed */
+export class TooManyRedirectsError extends Error {
+  constructor(readonly maxRedirects: number) {
+    super(`Stopped after ${maxRedirects} redirects`);
+    this.name = 'TooManyRedirectsError';
+  }
+}
+
+/** Keep the headers whose lowercase name passes the test. */
+function filterHeaders(
+  headers: Record<string, string>,
+  keep: (name: string) => boolean,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => keep(name.toLowerCase())),
+  );
+}
+
+/** The request to send to a redirect's Location. */
+export function redirectRequest(
+  request: RedirectableRequest,
+  status: number,
+  location: string,
+): RedirectableRequest {
+  const method = request.method.toUpperCase();
+  const toGet =
+    (status === 303 && method !== 'HEAD') ||
+    ((status === 301 || status === 302) && method === 'POST');
+
+  let headers = request.headers;
+  if (toGet) {
+    headers = filterHeaders(headers, (name) => !BODY_HEADERS.has(name));
+  }
+  if (new URL(location).origin !== new URL(request.url).origin) {
+    headers = filterHeaders(headers, (name) => !CREDENTIAL_HEADERS.has(name));
+  }
+  return {
+    url: location,
+    method: toGet ? 'GET' : request.method,
+    headers,
+    body: toGet ? undefined : request.body,
+  };
+}
+
+/**
+ * Send a request, following redirects manually: each Location is checked
+ * with `validate` before it is requested (a refused one is marked on its hop
+ * and throws RedirectBlockedError), and more than `maxRedirects` hops throw
+ * TooManyRedirectsError. Resolves to the first response that isn't a
+ * redirect. The first URL is the caller's to validate.
+ */
+export async function fetchFollowingRedirects(
+  request: RedirectableRequest,
+  options: FollowRedirectsOptions,
+): Promise<Response> {
+  let current = request;
+  for (;;) {
+    const started = Date.now();
+    const response = await fetch(current.url, {
+      method: current.method,
+      headers: current.headers,
+      body: current.body,
+      signal: options.signal,
+      redirect: 'manual',
+    });
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return response;
+
+    // The redirect's own body is of no interest; free the connection
+    await response.body?.cancel().catch(() => undefined);
+    const next = new URL(location, current.url).href;
+    const hop: RedirectHop = {
+      url: current.url,
+      status: response.status,
+      statusText: response.statusText,
+      location: next,
+      duration: Date.now() - started,
+    };
+    options.hops.push(hop);
+    if (options.hops.length > options.maxRedirects) {
+      throw new TooManyRedirectsError(options.maxRedirects);
+    }
+    try {
+      await options.validate(next);
+    } catch (error) {
+      hop.refused = error instanceof Error ? error.message : String(error);
+      throw new RedirectBlockedError(next, hop.refused);
+    }
+    current = redirectRequest(current, response.status, next);
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  BodyLimitError,
+  downloadFilename,
+  encodeBody,
+  readBody,
+  readCappedBody,
+} from './response-body';
+
+/** Helper: a body that arrives in the given chunks. */
+function bodyOf(
+  ...chunks: Array<string | number[]>
+): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === 'string'
+            ? new TextEncoder().encode(chunk)
+            : new Uint8Array(chunk),
+        );
+      }
+      controller.close();
+    },
+  });
+}
+
+describe('readCappedBody', () => {
+  it('should cut the chunk that crosses the cap and then throw', async () => {
+    const read: string[] = [];
+    await expect(async () => {
+      for await (const chunk of readCappedBody(bodyOf('abc', 'defg'), 5)) {
+        read.push(Buffer.from(chunk).toString());
+      }
+    }).rejects.toThrow(BodyLimitError);
+    expect(read).toEqual(['abc', 'de']);
+  });
+});
+
+describe('readBody', () => {
+  it('should read a body that fits the cap whole', async () => {
+    const { bytes, truncated } = await readBody(bodyOf('abc', 'de'), 5);
+    expect(bytes.toString()).toBe('abcde');
+    expect(truncated).toBe(false);
+  });
+
+  it('should report a body cut at the cap as truncated', async () => {
+    const { bytes, truncated } = await readBody(bodyOf('abc', 'def'), 5);
+    expect(bytes.toString()).toBe('abcde');
+    expect(truncated).toBe(true);
+  });
+});
+
+describe('encodeBody', () => {
+  const encode = (bytes: Buffer, contentType?: string, truncated = false) =>
+    encodeBody({ bytes, truncated }, contentType);
+
+  it('should decode text bodies', () => {
+    expect(encode(Buffer.from('{"a":"é"}'), 'application/json')).toEqual({
+      body: '{"a":"é"}',
+    });
+  });
+
+  it('should decode the declared charset', () => {
+    const latin1 = Buffer.from([0x63, 0x61, 0x66, 0xe9]);
+    expect(encode(latin1, 'text/plain; charset=ISO-8859-1').body).toBe('café');
+  });
+
+  it('should keep binary bodies as base64', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(encode(png, 'image/png')).toEqual({
+      body: png.toString('base64'),
+      encoding: 'base64',
+    });
+    // Valid UTF-8 but with NUL bytes
+    expect(encode(Buffer.from([0x41, 0x00, 0x42])).encoding).toBe('base64');
+  });
+
+  it('should drop a character cut by truncation', () => {
+    const bytes = Buffer.from('abé').subarray(0, 3);
+    expect(encode(bytes, 'text/plain', true)).toEqual({ body: 'ab' });
+    expect(encode(bytes, 'text/plain').encoding).toBe('base64');
+  });
+});
+
+describe('downloadFilename', () => {
+  it('should use the last path segment, made header-safe', () => {
+    expect(downloadFilename('https://a.com/files/report.pdf?x=1')).toBe(
+      'report.pdf',
+    );
+    expect(downloadFilename('https://a.com/r%C3%A9sum%22.txt')).toBe(
+      'r_sum_.txt',
+    );
+    expect(downloadFilename('https://a.com/')).toBe('response');
+  });
+});
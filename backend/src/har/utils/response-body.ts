@@ -0,0 +1,139 @@
+/**
+ * Proxied Response Bodies
+ *
+ * The execute proxy never buffers an upstream body whole: it reads the bytes
+ * as they arrive and stops at a configurable cap (`EXECUTE_MAX_BYTES`),
+ * reporting the cut as truncation. Bodies that are not text in their
+ * declared charset — images, archives, protobuf — are kept as bytes and
+ * returned as base64 (as HAR files store them) or piped as a raw download,
+ * so they are not mangled by decoding.
+ */
+
+/** Bytes of an upstream body the proxy returns by default (10 MB) */
+export const DEFAULT_EXECUTE_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Thrown by readCappedBody once a body grows past its cap */
+export class BodyLimitError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Response body exceeded ${maxBytes} bytes`);
+    this.name = 'BodyLimitError';
+  }
+}
+
+/** An upstream body read up to the cap */
+export interface CappedBody {
+  bytes: Buffer;
+  /** The upstream had more than the cap; `bytes` holds the first part */
+  truncated: boolean;
+}
+
+/** A body as the JSON execute response carries it */
+export interface EncodedBody {
+  body: string;
+  /** Set when the body is binary and `body` holds its bytes as base64 */
+  encoding?: 'base64';
+}
+
+/** What the execute proxy got back for a raw download */
+export interface DownloadExecuteResult {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Name to save the body under */
+  filename: string;
+  maxBytes: number;
+  /** The upstream declared a body longer than the cap */
+  truncated: boolean;
+  /** The body bytes as they arrive, ending at the cap */
+  chunks: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Read a body chunk by chunk up to `maxBytes`. The chunk that crosses the
+ * cap is cut at it, then the upstream is cancelled and BodyLimitError
+ * thrown, so callers can still use what was read. Stopping early cancels
+ * the upstream too.
+ */
+export async function* readCappedBody(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number,
+): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  let received = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      const room = maxBytes - received;
+      if (value.byteLength > room) {
+        if (room > 0) yield value.subarray(0, room);
+        throw new BodyLimitError(maxBytes);
+      }
+      received += value.byteLength;
+      if (value.byteLength > 0) yield value;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/** Collect a body up to `maxBytes`, noting whether it was cut there. */
+export async function readBody(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number,
+): Promise<CappedBody> {
+  const chunks: Uint8Array[] = [];
+  let truncated = false;
+  try {
+    for await (const chunk of readCappedBody(body, maxBytes)) {
+      chunks.push(chunk);
+    }
+  } catch (error) {
+    if (!(error instanceof BodyLimitError)) throw error;
+    truncated = true;
+  }
+  return { bytes: Buffer.concat(chunks), truncated };
+}
+
+/** The charset a Content-Type declares, UTF-8 when it names none */
+function charsetOf(contentType: string | null | undefined): string {
+  return /;\s*charset="?([\w.:-]+)/i.exec(contentType ?? '')?.[1] ?? 'utf-8';
+}
+
+/**
+ * Decode a body as text in its declared charset, or return it as base64
+ * when it doesn't decode cleanly or holds NUL bytes (binary data that
+ * happens to be valid UTF-8). A truncated body may end inside a character;
+ * that partial character is dropped rather than counted against it.
+ */
+export function encodeBody(
+  { bytes, truncated }: CappedBody,
+  contentType: string | null | undefined,
+): EncodedBody {
+  if (!bytes.includes(0)) {
+    try {
+      const decoder = new TextDecoder(charsetOf(contentType), { fatal: true });
+      return { body: decoder.decode(bytes, { stream: truncated }) };
+    } catch {
+      // Unknown charset or invalid bytes: keep the body as bytes
+    }
+  }
+  return { body: bytes.toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Name a downloaded body after the last segment of the request path
+ * ("report.pdf"), falling back to "response".
+ */
+export function downloadFilename(url: string): string {
+  let segment = '';
+  try {
+    segment = decodeURIComponent(
+      new URL(url).pathname.split('/').filter(Boolean).pop() ?? '',
+    );
+  } catch {
+    // Malformed URL or escape: use the fallback
+  }
+  // Header-safe: printable ASCII only, no quotes
+  return segment.replace(/[^\x20-\x7e]|["\\]/g, '_') || 'response';
+}
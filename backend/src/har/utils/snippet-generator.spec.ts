@@ -0,0 +1,152 @@
+import { HarEntry } from './har-parser';
+import {
+  generateSnippet,
+  generateSnippets,
+  SNIPPET_LANGUAGES,
+} from './snippet-generator';
+
+/** Helper: create a minimal HarEntry for snippet generation tests. */
+function makeEntry(overrides: {
+  method?: string;
+  url?: string;
+  headers?: Array<{ name: string; value: string }>;
+  postData?: {
+    mimeType: string;
+    text: string;
+    params?: Array<{ name: string; value: string }>;
+  };
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: overrides.method || 'GET',
+      url: overrides.url || 'https://api.example.com/data',
+      httpVersion: 'HTTP/2',
+      headers: overrides.headers || [],
+      queryString: [],
+      postData: overrides.postData,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      content: { size: 0, mimeType: 'application/json' },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+const POST_JSON = makeEntry({
+  method: 'POST',
+  url: 'https://api.example.com/orders?page=2',
+  headers: [
+    { name: ':authority', value: 'api.example.com' },
+    { name: 'host', value: 'api.example.com' },
+    { name: 'Content-Type', value: 'application/json' },
+    { name: 'Authorization', value: 'Bearer secret-token' },
+  ],
+  postData: { mimeType: 'application/json', text: '{"name":"it\'s"}' },
+});
+
+describe('generateSnippet', () => {
+  it.each(SNIPPET_LANGUAGES)(
+    '%s: should skip auto-set headers and redact sensitive ones',
+    (language) => {
+      const snippet = generateSnippet(POST_JSON, language);
+      expect(snippet).toContain('https://api.example.com/orders?page=2');
+      expect(snippet).toContain('[REDACTED]');
+      expect(snippet).not.toContain('secret-token');
+      expect(snippet).not.toContain(':authority');
+      expect(snippet).not.toMatch(/\bhost\b/);
+      expect(snippet).toContain('POST');
+    },
+  );
+
+  it('should generate Python requests code', () => {
+    const snippet = generateSnippet(POST_JSON, 'python');
+    expect(snippet).toContain('import requests');
+    expect(snippet).toContain('"Content-Type": "application/json",');
+    expect(snippet).toContain('data = "{\\"name\\":\\"it\'s\\"}"');
+    expect(snippet).toContain(
+      'requests.request("POST", url, headers=headers, data=data)',
+    );
+  });
+
+  it('should generate JavaScript fetch code', () => {
+    const snippet = generateSnippet(POST_JSON, 'fetch');
+    expect(snippet).toContain(
+      'await fetch("https://api.example.com/orders?page=2", {',
+    );
+    expect(snippet).toContain('method: "POST",');
+    expect(snippet).toContain('body: "{\\"name\\":\\"it\'s\\"}",');
+  });
+
+  it('should generate Node axios code', () => {
+    const snippet = generateSnippet(POST_JSON, 'axios');
+    expect(snippet).toContain("import axios from 'axios';");
+    expect(snippet).toContain('url: "https://api.example.com/orders?page=2",');
+    expect(snippet).toContain('data: ');
+  });
+
+  it('should generate Go net/http code', () => {
+    const snippet = generateSnippet(POST_JSON, 'go');
+    expect(snippet).toContain('package main');
+    expect(snippet).toContain('"strings"');
+    expect(snippet).toContain(
+      'http.NewRequest("POST", "https://api.example.com/orders?page=2", body)',
+    );
+    expect(snippet).toContain(
+      'req.Header.Add("Content-Type", "application/json")',
+    );
+  });
+
+  it('should omit the Go body reader for requests without a body', () => {
+    const snippet = generateSnippet(makeEntry({}), 'go');
+    expect(snippet).not.toContain('strings');
+    expect(snippet).toContain(', nil)');
+  });
+
+  it('should generate HTTPie commands with shell-escaped values', () => {
+    const snippet = generateSnippet(POST_JSON, 'httpie');
+    expect(snippet).toMatch(/^http POST 'https:\/\/api\.example\.com/);
+    expect(snippet).toContain("'Content-Type:application/json'");
+    expect(snippet).toContain("--raw '{\"name\":\"it'\\''s\"}'");
+  });
+
+  it('should generate PowerShell with Content-Type passed via -ContentType', () => {
+    const snippet = generateSnippet(POST_JSON, 'powershell');
+    expect(snippet).toContain('Invoke-WebRequest');
+    expect(snippet).toContain("-ContentType 'application/json'");
+    expect(snippet).not.toContain("'Content-Type' =");
+    expect(snippet).toContain('-Body \'{"name":"it\'\'s"}\'');
+  });
+
+  it('should encode form params when there is no raw body', () => {
+    const entry = makeEntry({
+      method: 'POST',
+      postData: {
+        mimeType: 'application/x-www-form-urlencoded',
+        text: '',
+        params: [{ name: 'q', value: 'a b' }],
+      },
+    });
+    expect(generateSnippet(entry, 'fetch')).toContain('body: "q=a+b",');
+    expect(generateSnippet(entry, 'python')).toContain('"q": "a b",');
+    expect(generateSnippet(entry, 'httpie')).toContain('--form POST');
+  });
+});
+
+describe('generateSnippets', () => {
+  it('should return one snippet per requested language', () => {
+    const snippets = generateSnippets(POST_JSON, ['python', 'go']);
+    expect(Object.keys(snippets)).toEqual(['python', 'go']);
+  });
+});
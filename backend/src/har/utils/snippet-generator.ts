@@ -0,0 +1,301 @@
+/**
+ * Code Snippet Generator
+ *
+ * Converts a HAR entry into ready-to-run client code in several languages.
+ * Uses the same header rules as the curl generator: auto-set and pseudo
+ * headers are skipped and sensitive values are shown as [REDACTED].
+ */
+
+import { isSensitiveHeader, isSkippedHeader, REDACTED } from './curl-generator';
+import { HarEntry } from './har-parser';
+
+/** Languages a snippet can be generated for (curl is always generated) */
+export const SNIPPET_LANGUAGES = [
+  'python',
+  'fetch',
+  'axios',
+  'go',
+  'httpie',
+  'powershell',
+] as const;
+
+export type SnippetLanguage = (typeof SNIPPET_LANGUAGES)[number];
+
+/** Method, URL, display-safe headers and body shared by every generator */
+interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: Array<{ name: string; value: string }>;
+  body?: string;
+  form?: Array<{ name: string; value: string }>;
+}
+
+const GENERATORS: Record<SnippetLanguage, (req: SnippetRequest) => string> = {
+  python: generatePython,
+  fetch: generateFetch,
+  axios: generateAxios,
+  go: generateGo,
+  httpie: generateHttpie,
+  powershell: generatePowerShell,
+};
+
+/**
+ * Generate a code snippet for a HAR entry in the given language.
+ */
+export function generateSnippet(
+  entry: HarEntry,
+  language: SnippetLanguage,
+): string {
+  return GENERATORS[language](toSnippetRequest(entry));
+}
+
+/**
+ * Generate snippets for several languages at once, keyed by language.
+ */
+export function generateSnippets(
+  entry: HarEntry,
+  languages: readonly SnippetLanguage[],
+): Partial<Record<SnippetLanguage, string>> {
+  const request = toSnippetRequest(entry);
+  const snippets: Partial<Record<SnippetLanguage, string>> = {};
+  for (const language of languages) {
+    snippets[language] = GENERATORS[language](request);
+  }
+  return snippets;
+}
+
+function toSnippetRequest(entry: HarEntry): SnippetRequest {
+  const { request } = entry;
+  const headers = request.headers
+    .filter((h) => !isSkippedHeader(h.name))
+    .map((h) => ({
+      name: h.name,
+      value: isSensitiveHeader(h.name) ? REDACTED : h.value,
+    }));
+
+  const params = request.postData?.params;
+  return {
+    method: request.method.toUpperCase(),
+    url: request.url,
+    headers,
+    body: request.postData?.text || undefined,
+    form: !request.postData?.text && params?.length ? params : undefined,
+  };
+}
+
+/** Body as a single string, URL-encoding form params when there is no raw text */
+function bodyText(req: SnippetRequest): string | undefined {
+  if (req.body) return req.body;
+  if (req.form) {
+    return new URLSearchParams(
+      req.form.map((p) => [p.name, p.value]),
+    ).toString();
+  }
+  return undefined;
+}
+
+/**
+ * Double-quoted string literal. JSON escaping is valid in Python, JavaScript
+ * and Go string literals alike.
+ */
+function quote(str: string): string {
+  return JSON.stringify(str);
+}
+
+/** Single-quoted POSIX shell argument */
+function shellQuote(str: string): string {
+  return `'${str.replace(/'/g, "'\\''")}'`;
+}
+
+/** Single-quoted PowerShell string ('' escapes a quote) */
+function psQuote(str: string): string {
+  return `'${str.replace(/'/g, "''")}'`;
+}
+
+function generatePython(req: SnippetRequest): string {
+  const lines = ['import requests', '', `url = ${quote(req.url)}`];
+  const args = ['url'];
+
+  if (req.headers.length > 0) {
+    lines.push('headers = {');
+    for (const h of req.headers) {
+      lines.push(`    ${quote(h.name)}: ${quote(h.value)},`);
+    }
+    lines.push('}');
+    args.push('headers=headers');
+  }
+
+  if (req.form) {
+    lines.push('data = {');
+    for (const p of req.form) {
+      lines.push(`    ${quote(p.name)}: ${quote(p.value)},`);
+    }
+    lines.push('}');
+    args.push('data=data');
+  } else if (req.body) {
+    lines.push(`data = ${quote(req.body)}`);
+    args.push('data=data');
+  }
+
+  lines.push(
+    '',
+    `response = requests.request(${quote(req.method)}, ${args.join(', ')})`,
+    '',
+    'print(response.status_code)',
+    'print(response.text)',
+  );
+  return lines.join('\n');
+}
+
+/** Object literal entries for JavaScript headers, indented for an options object */
+function jsHeaders(req: SnippetRequest, indent: string): string[] {
+  if (req.headers.length === 0) return [];
+  return [
+    `${indent}headers: {`,
+    ...req.headers.map(
+      (h) => `${indent}  ${quote(h.name)}: ${quote(h.value)},`,
+    ),
+    `${indent}},`,
+  ];
+}
+
+function generateFetch(req: SnippetRequest): string {
+  const body = bodyText(req);
+  const lines = [
+    `const response = await fetch(${quote(req.url)}, {`,
+    `  method: ${quote(req.method)},`,
+    ...jsHeaders(req, '  '),
+  ];
+  if (body !== undefined) {
+    lines.push(`  body: ${quote(body)},`);
+  }
+  lines.push(
+    '});',
+    '',
+    'console.log(response.status);',
+    'console.log(await response.text());',
+  );
+  return lines.join('\n');
+}
+
+function generateAxios(req: SnippetRequest): string {
+  const body = bodyText(req);
+  const lines = [
+    "import axios from 'axios';",
+    '',
+    'const response = await axios.request({',
+    `  method: ${quote(req.method)},`,
+    `  url: ${quote(req.url)},`,
+    ...jsHeaders(req, '  '),
+  ];
+  if (body !== undefined) {
+    lines.push(`  data: ${quote(body)},`);
+  }
+  lines.push(
+    '});',
+    '',
+    'console.log(response.status);',
+    'console.log(response.data);',
+  );
+  return lines.join('\n');
+}
+
+function generateGo(req: SnippetRequest): string {
+  const body = bodyText(req);
+  const imports = ['"fmt"', '"io"', '"net/http"'];
+  if (body !== undefined) imports.push('"strings"');
+
+  const lines = [
+    'package main',
+    '',
+    'import (',
+    ...imports.map((i) => `\t${i}`),
+    ')',
+    '',
+    'func main() {',
+  ];
+  if (body !== undefined) {
+    lines.push(`\tbody := strings.NewReader(${quote(body)})`);
+  }
+  lines.push(
+    `\treq, err := http.NewRequest(${quote(req.method)}, ${quote(req.url)}, ${body !== undefined ? 'body' : 'nil'})`,
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+  );
+  for (const h of req.headers) {
+    lines.push(`\treq.Header.Add(${quote(h.name)}, ${quote(h.value)})`);
+  }
+  lines.push(
+    '',
+    '\tresp, err := http.DefaultClient.Do(req)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tdefer resp.Body.Close()',
+    '',
+    '\trespBody, err := io.ReadAll(resp.Body)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tfmt.Println(resp.Status)',
+    '\tfmt.Println(string(respBody))',
+    '}',
+  );
+  return lines.join('\n');
+}
+
+function generateHttpie(req: SnippetRequest): string {
+  const parts = [
+    `http ${req.form ? '--form ' : ''}${req.method} ${shellQuote(req.url)}`,
+  ];
+
+  for (const h of req.headers) {
+    parts.push(shellQuote(`${h.name}:${h.value}`));
+  }
+
+  if (req.form) {
+    for (const p of req.form) {
+      parts.push(shellQuote(`${p.name}=${p.value}`));
+    }
+  } else if (req.body) {
+    parts.push(`--raw ${shellQuote(req.body)}`);
+  }
+
+  return parts.join(' \\\n  ');
+}
+
+function generatePowerShell(req: SnippetRequest): string {
+  const body = bodyText(req);
+  // Invoke-WebRequest only honors Content-Type through -ContentType
+  const contentType = req.headers.find(
+    (h) => h.name.toLowerCase() === 'content-type',
+  );
+  const headers = req.headers.filter((h) => h !== contentType);
+
+  const lines: string[] = [];
+  const args = [`-Uri ${psQuote(req.url)}`, `-Method ${req.method}`];
+
+  if (headers.length > 0) {
+    lines.push('$headers = @{');
+    for (const h of headers) {
+      lines.push(`    ${psQuote(h.name)} = ${psQuote(h.value)}`);
+    }
+    lines.push('}', '');
+    args.push('-Headers $headers');
+  }
+  if (contentType) {
+    args.push(`-ContentType ${psQuote(contentType.value)}`);
+  }
+  if (body !== undefined) {
+    args.push(`-Body ${psQuote(body)}`);
+  }
+
+  lines.push(
+    `$response = Invoke-WebRequest ${args.join(' `\n  ')}`,
+    '',
+    '$response.StatusCode',
+    '$response.Content',
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,154 @@
+import { HarEntry } from './har-parser';
+import { BodyLimitError } from './response-body';
+import {
+  decodeTextStream,
+  detectStreaming,
+  formatStreamEvent,
+  relayStreamEvents,
+  streamingKindOfType,
+} from './streaming';
+
+/** Helper: create a minimal HarEntry for testing. */
+function makeEntry(overrides: {
+  mimeType?: string;
+  text?: string;
+  accept?: string;
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: 'POST',
+      url: 'https://api.example.com/v1/chat',
+      httpVersion: 'HTTP/2',
+      headers: overrides.accept
+        ? [{ name: 'Accept', value: overrides.accept }]
+        : [],
+      queryString: [],
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: [],
+      content: {
+        size: 0,
+        mimeType: overrides.mimeType ?? 'application/json',
+        text: overrides.text,
+      },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+/** Helper: stream the chunks, failing after them when given an error. */
+async function* chunksOf<T>(chunks: T[], error?: Error): AsyncGenerator<T> {
+  for (const chunk of chunks) yield await Promise.resolve(chunk);
+  if (error) throw error;
+}
+
+/** Helper: collect an async iterable into an array. */
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('streamingKindOfType', () => {
+  it('should recognize SSE and NDJSON types', () => {
+    expect(streamingKindOfType('text/event-stream; charset=utf-8')).toBe('sse');
+    expect(streamingKindOfType('application/x-ndjson')).toBe('ndjson');
+    expect(streamingKindOfType('application/jsonl')).toBe('ndjson');
+    expect(streamingKindOfType('application/json')).toBeUndefined();
+    expect(streamingKindOfType(null)).toBeUndefined();
+  });
+});
+
+describe('detectStreaming', () => {
+  it('should use the response MIME type', () => {
+    expect(detectStreaming(makeEntry({ mimeType: 'text/event-stream' }))).toBe(
+      'sse',
+    );
+  });
+
+  it('should use the Accept header when the response type says nothing', () => {
+    const entry = makeEntry({ mimeType: '', accept: 'text/event-stream' });
+    expect(detectStreaming(entry)).toBe('sse');
+  });
+
+  it('should recognize streamed bodies served as JSON or text', () => {
+    expect(
+      detectStreaming(makeEntry({ text: '{"token":"Hel"}\n{"token":"lo"}\n' })),
+    ).toBe('ndjson');
+    expect(
+      detectStreaming(
+        makeEntry({ mimeType: 'text/plain', text: 'data: {"a":1}\n\n' }),
+      ),
+    ).toBe('sse');
+  });
+
+  it('should leave ordinary responses alone', () => {
+    expect(detectStreaming(makeEntry({ text: '{"a":1}' }))).toBeUndefined();
+    expect(detectStreaming(makeEntry({ text: '[1]\n[2]' }))).toBeUndefined();
+  });
+});
+
+describe('formatStreamEvent', () => {
+  it('should frame the data as JSON', () => {
+    expect(formatStreamEvent('chunk', 'a\nb')).toBe(
+      'event: chunk\ndata: "a\\nb"\n\n',
+    );
+  });
+});
+
+describe('decodeTextStream', () => {
+  it('should decode characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('héllo');
+    const body = chunksOf([bytes.slice(0, 2), bytes.slice(2)]);
+    expect((await collect(decodeTextStream(body))).join('')).toBe('héllo');
+  });
+});
+
+describe('relayStreamEvents', () => {
+  const result = (chunks: AsyncIterable<string>) => ({
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'text/event-stream' },
+    redirects: [],
+    startTime: Date.now(),
+    chunks,
+  });
+
+  it('should send the response, each chunk and the end', async () => {
+    const events = await collect(
+      relayStreamEvents(result(chunksOf(['data: 1\n\n', 'data: 2\n\n']))),
+    );
+    expect(events).toHaveLength(4);
+    expect(events[0]).toContain('event: response\ndata: {"status":200');
+    expect(events[1]).toBe('event: chunk\ndata: "data: 1\\n\\n"\n\n');
+    expect(events[3]).toMatch(/^event: end\ndata: \{"duration":\d+\}/);
+  });
+
+  it('should mark the end truncated when the byte cap was reached', async () => {
+    const chunks = chunksOf(['data: 1\n\n'], new BodyLimitError(9));
+    const events = await collect(relayStreamEvents(result(chunks)));
+    expect(events).toHaveLength(3);
+    expect(events[2]).toMatch(
+      /^event: end\ndata: \{"duration":\d+,"truncated":true\}/,
+    );
+  });
+
+  it('should end with an error event when the upstream fails', async () => {
+    const chunks = chunksOf(['data: 1\n\n'], new Error('Stream stopped'));
+    const events = await collect(relayStreamEvents(result(chunks)));
+    expect(events[events.length - 1]).toBe(
+      'event: error\ndata: {"message":"Stream stopped"}\n\n',
+    );
+  });
+});
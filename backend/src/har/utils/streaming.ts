@@ -0,0 +1,157 @@
+/**
+ * Streaming Responses
+ *
+ * Recognizes endpoints that stream their response — Server-Sent Events and
+ * newline-delimited JSON, as LLM-style APIs send tokens — so they can be
+ * labelled in the summary and inspector, curl can be told not to buffer
+ * (`-N`), and the execute proxy can relay the body as it arrives instead of
+ * waiting for the end.
+ *
+ * The proxy relays a stream as its own event stream, independent of the
+ * upstream format:
+ *
+ *   event: response   data: {"status":200,"statusText":"OK","headers":{...},"redirects":[...]}
+ *   event: chunk      data: "<body text as received, JSON-encoded>"
+ *   event: end        data: {"duration":1234}   (plus "truncated":true at the cap)
+ *   event: error      data: {"message":"..."}   (instead of end)
+ */
+
+import { HarEntry } from './har-parser';
+import { RedirectHop } from './redirects';
+import { BodyLimitError } from './response-body';
+
+/** How a response streams: Server-Sent Events or newline-delimited JSON */
+export type StreamingKind = 'sse' | 'ndjson';
+
+/** Label of each kind in the summary ("SSE stream") */
+export const STREAMING_LABELS: Record<StreamingKind, string> = {
+  sse: 'SSE',
+  ndjson: 'NDJSON',
+};
+
+const SSE_TYPE = /\btext\/event-stream\b/i;
+
+/** NDJSON under its various names, including JSON text sequences */
+const NDJSON_TYPE =
+  /\b(?:application\/(?:x-)?(?:ndjson|jsonl|jsonlines|json-seq)|application\/stream\+json)\b/i;
+
+/** A body made of SSE fields ("data: ...", "event: ...") */
+const SSE_BODY = /^(?::[^\n]*\n)*(?:data|event|id|retry):/;
+
+/** Lines of JSON needed before an unlabelled body counts as NDJSON */
+const MIN_NDJSON_LINES = 2;
+
+/** The streaming kind a Content-Type or Accept value names, if any. */
+export function streamingKindOfType(
+  type: string | null | undefined,
+): StreamingKind | undefined {
+  if (!type) return undefined;
+  if (SSE_TYPE.test(type)) return 'sse';
+  if (NDJSON_TYPE.test(type)) return 'ndjson';
+  return undefined;
+}
+
+/** Whether a retained body is several lines that each hold a JSON object. */
+function isNdjsonBody(text: string): boolean {
+  const lines = text.split('\n').filter((line) => line.trim());
+  if (lines.length < MIN_NDJSON_LINES) return false;
+  return lines.every((line) => {
+    try {
+      const value = JSON.parse(line) as unknown;
+      return (
+        value !== null && typeof value === 'object' && !Array.isArray(value)
+      );
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Detect a streaming endpoint: by the response's MIME type, by the request
+ * asking for a stream (`Accept: text/event-stream`, for captures that
+ * recorded no response type), or by the shape of a retained body that was
+ * served as plain JSON or text. Undefined for ordinary responses.
+ */
+export function detectStreaming(entry: HarEntry): StreamingKind | undefined {
+  const fromResponse = streamingKindOfType(entry.response.content.mimeType);
+  if (fromResponse) return fromResponse;
+
+  const accept = entry.request.headers.find(
+    (h) => h.name.toLowerCase() === 'accept',
+  );
+  const fromRequest = streamingKindOfType(accept?.value);
+  if (fromRequest) return fromRequest;
+
+  const text = entry.response.content.text;
+  if (!text || entry.response.content.encoding === 'base64') return undefined;
+  if (SSE_BODY.test(text)) return 'sse';
+  if (isNdjsonBody(text)) return 'ndjson';
+  return undefined;
+}
+
+/** Frame one event of the proxy's relay stream (see the module comment). */
+export function formatStreamEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Decode response bytes (see readCappedBody) into text chunks as they
+ * arrive. Stopping early (the client went away) stops the byte source too.
+ */
+export async function* decodeTextStream(
+  bytes: AsyncIterable<Uint8Array>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  for await (const value of bytes) {
+    const text = decoder.decode(value, { stream: true });
+    if (text) yield text;
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+/** What the execute proxy got back from a streaming upstream */
+export interface StreamingExecuteResult {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Redirects followed on the way to this response */
+  redirects: RedirectHop[];
+  /** When the proxy sent the request, for the duration reported at the end */
+  startTime: number;
+  /** The body as text, chunk by chunk as it arrives */
+  chunks: AsyncIterable<string>;
+}
+
+/**
+ * Frame a streaming upstream response as the proxy's relay stream: the
+ * status and headers first, then each chunk, then `end` — marked truncated
+ * when the body reached the proxy's byte cap — or `error` if the upstream
+ * failed or timed out part-way.
+ */
+export async function* relayStreamEvents(
+  result: StreamingExecuteResult,
+): AsyncGenerator<string> {
+  const { status, statusText, headers, redirects } = result;
+  yield formatStreamEvent('response', {
+    status,
+    statusText,
+    headers,
+    redirects,
+  });
+  try {
+    for await (const chunk of result.chunks) {
+      yield formatStreamEvent('chunk', chunk);
+    }
+    yield formatStreamEvent('end', { duration: Date.now() - result.startTime });
+  } catch (error) {
+    if (error instanceof BodyLimitError) {
+      const duration = Date.now() - result.startTime;
+      yield formatStreamEvent('end', { duration, truncated: true });
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    yield formatStreamEvent('error', { message });
+  }
+}
@@ -1,4 +1,8 @@
-import { assertHttpOrHttpsUrl, validateUrl } from './url-validator';
+import {
+  assertHttpOrHttpsUrl,
+  assertWebSocketUrl,
+  validateUrl,
+} from './url-validator';
 
 // Mock dns/promises to avoid real DNS lookups in tests
 jest.mock('dns/promises', () => ({
@@ -95,3 +99,19 @@ describe('assertHttpOrHttpsUrl', () => {
     expect(() => assertHttpOrHttpsUrl('data:text/html,<script>')).toThrow('not allowed');
   });
 });
+
+describe('assertWebSocketUrl', () => {
+  it('should allow ws, wss and the http(s) upgrade URL', () => {
+    expect(() =>
+      assertWebSocketUrl('wss://stream.example.com/ws'),
+    ).not.toThrow();
+    expect(() => assertWebSocketUrl('ws://example.com')).not.toThrow();
+    expect(() => assertWebSocketUrl('https://example.com/ws')).not.toThrow();
+  });
+
+  it('should reject other protocols', () => {
+    expect(() => assertWebSocketUrl('file:///etc/passwd')).toThrow(
+      'not allowed',
+    );
+  });
+});
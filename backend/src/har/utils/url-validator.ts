@@ -50,6 +50,24 @@ export function assertHttpOrHttpsUrl(url: string): void {
   }
 }
 
+/**
+ * Assert that a WebSocket URL uses ws or wss (or the http(s) URL of its
+ * upgrade request). Sync, no DNS: the server never connects to it.
+ */
+export function assertWebSocketUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BadRequestException('Invalid URL format');
+  }
+  if (!['ws:', 'wss:', 'http:', 'https:'].includes(parsed.protocol)) {
+    throw new BadRequestException(
+      `Protocol "${parsed.protocol}" is not allowed. Only ws: and wss: are permitted.`,
+    );
+  }
+}
+
 /**
  * Validate a URL is safe to request from the server.
  * Throws BadRequestException if the URL is potentially dangerous.
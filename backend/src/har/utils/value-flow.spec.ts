@@ -0,0 +1,276 @@
+import { HarEntry } from './har-parser';
+import {
+  describeValueLocation,
+  describeValueSource,
+  findRequestDependencies,
+  findValueDependencies,
+  formatJsonPath,
+  isTrackableValue,
+  prerequisitesOf,
+  requestValues,
+  responseValues,
+} from './value-flow';
+
+type NameValue = { name: string; value: string };
+
+/** Helper: create a HarEntry with the given request and response parts. */
+function makeEntry(overrides: {
+  method?: string;
+  url?: string;
+  headers?: NameValue[];
+  postData?: { mimeType: string; text: string; params?: NameValue[] };
+  responseHeaders?: NameValue[];
+  responseText?: string;
+}): HarEntry {
+  const url = overrides.url || 'https://api.example.com/data';
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: overrides.method || 'GET',
+      url,
+      httpVersion: 'HTTP/2',
+      headers: overrides.headers || [],
+      queryString: [...new URL(url).searchParams].map(([name, value]) => ({
+        name,
+        value,
+      })),
+      postData: overrides.postData,
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      httpVersion: 'HTTP/2',
+      headers: overrides.responseHeaders || [],
+      content: {
+        size: 0,
+        mimeType: 'application/json',
+        text: overrides.responseText,
+      },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 50 },
+  };
+}
+
+describe('isTrackableValue', () => {
+  it('should accept IDs and tokens', () => {
+    expect(isTrackableValue('123456')).toBe(true);
+    expect(isTrackableValue('eyJhbGciOiJIUzI1NiJ9.e30.abc')).toBe(true);
+  });
+
+  it('should reject short values, words and text', () => {
+    expect(isTrackableValue('12345')).toBe(false);
+    expect(isTrackableValue('application')).toBe(false);
+    expect(isTrackableValue('page 2 of 10')).toBe(false);
+  });
+});
+
+describe('responseValues', () => {
+  it('should collect set cookies, headers and JSON leaves', () => {
+    const values = responseValues(
+      makeEntry({
+        responseHeaders: [
+          { name: 'Set-Cookie', value: 'session=abc123xyz; Path=/; HttpOnly' },
+          { name: 'X-CSRF-Token', value: 'csrf-98765' },
+          { name: 'Date', value: 'Mon,01-Jan-2024-00:00:00' },
+        ],
+        responseText: '{"data":{"token":"tok_42abc","items":[{"id":1234567}]}}',
+      }),
+    );
+    expect(values).toEqual([
+      { value: 'abc123xyz', source: { kind: 'cookie', name: 'session' } },
+      {
+        value: 'csrf-98765',
+        source: { kind: 'header', name: 'x-csrf-token' },
+      },
+      {
+        value: 'tok_42abc',
+        source: { kind: 'json', path: ['data', 'token'] },
+      },
+      {
+        value: '1234567',
+        source: { kind: 'json', path: ['data', 'items', 0, 'id'] },
+      },
+    ]);
+  });
+
+  it('should locate tokens in text bodies by the text before them', () => {
+    const html = '<form>\n<input name="csrf" value="f00d-4242"></form>';
+    expect(responseValues(makeEntry({ responseText: html }))).toEqual([
+      {
+        value: 'f00d-4242',
+        source: {
+          kind: 'text',
+          prefix: '<input name="csrf" value="',
+          suffix: '"',
+        },
+      },
+    ]);
+  });
+
+  it('should split text tokens like id=123 into their pieces', () => {
+    const values = responseValues(
+      makeEntry({ responseText: 'next=/orders/778899 done' }),
+    );
+    expect(values.map(({ value }) => value)).toEqual([
+      'next=/orders/778899',
+      '778899',
+    ]);
+    expect(values[1].source).toEqual({
+      kind: 'text',
+      prefix: 'next=/orders/',
+      suffix: ' ',
+    });
+  });
+});
+
+describe('requestValues', () => {
+  it('should collect credentials, cookies, query and JSON body values', () => {
+    const values = requestValues(
+      makeEntry({
+        method: 'POST',
+        url: 'https://api.example.com/orders?cart=cart-777',
+        headers: [
+          { name: 'Authorization', value: 'Bearer tok_42abc' },
+          { name: 'Cookie', value: 'session=abc123xyz; theme=dark' },
+          { name: 'User-Agent', value: 'Mozilla/5.0' },
+        ],
+        postData: {
+          mimeType: 'application/json',
+          text: '{"order":{"csrf":"csrf-98765"}}',
+        },
+      }),
+    );
+    expect(values).toEqual([
+      {
+        value: 'tok_42abc',
+        location: { kind: 'header', name: 'authorization' },
+      },
+      { value: 'abc123xyz', location: { kind: 'cookie', name: 'session' } },
+      { value: 'cart-777', location: { kind: 'query', name: 'cart' } },
+      { value: 'csrf-98765', location: { kind: 'body', name: 'order.csrf' } },
+    ]);
+  });
+
+  it('should read url-encoded form bodies', () => {
+    const values = requestValues(
+      makeEntry({
+        method: 'POST',
+        postData: {
+          mimeType: 'application/x-www-form-urlencoded',
+          text: 'csrf=csrf-98765&name=bob',
+        },
+      }),
+    );
+    expect(values).toEqual([
+      { value: 'csrf-98765', location: { kind: 'body', name: 'csrf' } },
+    ]);
+  });
+});
+
+describe('findValueDependencies', () => {
+  const entries = [
+    makeEntry({
+      url: 'https://api.example.com/login',
+      responseText: '{"token":"tok_42abc"}',
+    }),
+    makeEntry({
+      url: 'https://api.example.com/csrf',
+      headers: [{ name: 'Authorization', value: 'Bearer tok_42abc' }],
+      responseHeaders: [{ name: 'X-CSRF-Token', value: 'csrf-98765' }],
+    }),
+    makeEntry({
+      url: 'https://api.example.com/other',
+      responseText: '{"token":"tok_42abc"}',
+    }),
+    makeEntry({
+      url: 'https://api.example.com/orders',
+      headers: [
+        { name: 'Authorization', value: 'Bearer tok_42abc' },
+        { name: 'X-CSRF-Token', value: 'csrf-98765' },
+      ],
+    }),
+  ];
+
+  it('should link request values to the first response that returned them', () => {
+    const dependencies = findValueDependencies(entries);
+    expect(
+      dependencies.map((d) => [d.index, d.location.name, d.fromIndex]),
+    ).toEqual([
+      [1, 'authorization', 0],
+      [3, 'authorization', 0],
+      [3, 'x-csrf-token', 1],
+    ]);
+  });
+
+  it('should not link values a response returns after they were sent', () => {
+    const dependencies = findValueDependencies([entries[3], entries[0]]);
+    expect(dependencies).toEqual([]);
+  });
+
+  it("should find one request's dependencies the way the full graph does", () => {
+    const graph = findValueDependencies(entries);
+    entries.forEach((_, index) => {
+      expect(findRequestDependencies(entries, index)).toEqual(
+        graph.filter((d) => d.index === index),
+      );
+    });
+  });
+
+  it('should find a value returned JSON-escaped in a body', () => {
+    const escaped = [
+      makeEntry({ responseText: '{"next":"\\/page\\/2024"}' }),
+      makeEntry({ url: 'https://api.example.com/items?cursor=/page/2024' }),
+    ];
+    expect(findRequestDependencies(escaped, 1)).toEqual([
+      {
+        index: 1,
+        location: { kind: 'query', name: 'cursor' },
+        value: '/page/2024',
+        fromIndex: 0,
+        source: { kind: 'json', path: ['next'] },
+      },
+    ]);
+  });
+
+  it('should find prerequisites transitively, in capture order', () => {
+    const dependencies = findValueDependencies(entries);
+    expect(prerequisitesOf(dependencies, 3)).toEqual([0, 1]);
+    expect(prerequisitesOf(dependencies, 1)).toEqual([0]);
+    expect(prerequisitesOf(dependencies, 0)).toEqual([]);
+  });
+});
+
+describe('describing values', () => {
+  it('should format JSON paths with dots and brackets', () => {
+    expect(formatJsonPath(['data', 0, 'id'])).toBe('data[0].id');
+    expect(formatJsonPath([1, 'token'])).toBe('[1].token');
+  });
+
+  it('should describe where a request sends a value', () => {
+    expect(describeValueLocation({ kind: 'cookie', name: 'session' })).toBe(
+      'session cookie',
+    );
+    expect(describeValueLocation({ kind: 'query', name: 'page' })).toBe(
+      'page query parameter',
+    );
+  });
+
+  it('should describe where a response returned a value', () => {
+    expect(describeValueSource({ kind: 'json', path: ['data', 'token'] })).toBe(
+      'data.token field',
+    );
+    expect(describeValueSource({ kind: 'cookie', name: 'session' })).toBe(
+      'session cookie (Set-Cookie)',
+    );
+    expect(
+      describeValueSource({ kind: 'text', prefix: 'value="', suffix: '"' }),
+    ).toBe('body text');
+  });
+});
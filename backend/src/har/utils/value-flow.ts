@@ -0,0 +1,386 @@
+/**
+ * Value Flow
+ *
+ * Finds values a request sends (header, cookie, query or body values) that
+ * first appeared in an earlier response — login tokens, CSRF values, IDs.
+ * Those links are what make one request depend on another: they form the
+ * dependency graph of a capture and are used to chain requests into a
+ * runnable flow.
+ */
+
+import { HarEntry } from './har-parser';
+import { tryParseJson } from './json';
+
+/** Shortest value considered; shorter ones match by coincidence too often */
+const MIN_VALUE_LENGTH = 6;
+
+/** Longest value considered (large blobs are not tokens) */
+const MAX_VALUE_LENGTH = 8192;
+
+/** Runs of characters in a text body that can't be part of a value (markup, quotes, separators) */
+const TEXT_TOKEN = /[^\s"'<>;,&(){}[\]\\]+/g;
+
+/** Characters inside a text token that separate smaller values, as in `id=123` or `/users/123` */
+const TOKEN_PIECE = /[^=:/?]+/g;
+
+/** Context kept before a value found in a text body, used to find it again */
+const TEXT_PREFIX_LENGTH = 32;
+
+/** Response headers that never carry values worth chaining */
+const IGNORED_RESPONSE_HEADERS = new Set([
+  'age',
+  'cache-control',
+  'content-encoding',
+  'content-length',
+  'content-type',
+  'date',
+  'etag',
+  'expires',
+  'last-modified',
+  'server',
+  'vary',
+]);
+
+/** Request headers that are client boilerplate rather than captured values */
+const IGNORED_REQUEST_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'content-length',
+  'content-type',
+  'cookie',
+  'if-modified-since',
+  'if-none-match',
+  'origin',
+  'referer',
+  'user-agent',
+]);
+
+/**
+ * Where a value can be read from in a response. Values in non-JSON text
+ * bodies (e.g. a CSRF token in an HTML form) are located by the text right
+ * before them and the character right after.
+ */
+export type ValueSource =
+  | { kind: 'header'; name: string }
+  | { kind: 'cookie'; name: string }
+  | { kind: 'json'; path: Array<string | number> }
+  | { kind: 'text'; prefix: string; suffix: string };
+
+/** Where a value is sent in a request */
+export interface ValueLocation {
+  kind: 'header' | 'cookie' | 'query' | 'body';
+  name: string;
+}
+
+/** A request value that was first returned by an earlier response */
+export interface ValueDependency {
+  /** Position of the consuming entry */
+  index: number;
+  location: ValueLocation;
+  value: string;
+  /** Position of the entry whose response first contained the value */
+  fromIndex: number;
+  source: ValueSource;
+}
+
+/**
+ * Check whether a value looks like something generated by the server (an ID
+ * or a token) rather than a word or a flag: long enough, no whitespace, and
+ * containing a digit.
+ */
+export function isTrackableValue(value: string): boolean {
+  return (
+    value.length >= MIN_VALUE_LENGTH &&
+    value.length <= MAX_VALUE_LENGTH &&
+    !/\s/.test(value) &&
+    /\d/.test(value)
+  );
+}
+
+/** Split a Cookie header into name/value pairs. */
+function parseCookieHeader(header: string): Array<[string, string]> {
+  return header
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter((pair) => pair.includes('='))
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      return [pair.slice(0, eq), pair.slice(eq + 1)];
+    });
+}
+
+/** Visit every string and number leaf of a JSON value with its path. */
+function walkJson(
+  value: unknown,
+  visit: (leaf: string, path: Array<string | number>) => void,
+  path: Array<string | number> = [],
+): void {
+  if (typeof value === 'string') {
+    visit(value, path);
+  } else if (typeof value === 'number') {
+    visit(String(value), path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => walkJson(item, visit, [...path, i]));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      walkJson(item, visit, [...path, key]);
+    }
+  }
+}
+
+/** Format a JSON path for display, e.g. ["data", 0, "id"] → data[0].id */
+export function formatJsonPath(path: Array<string | number>): string {
+  return path
+    .map((key, i) =>
+      typeof key === 'number' ? `[${key}]` : i === 0 ? key : `.${key}`,
+    )
+    .join('');
+}
+
+/** Describe where a request sends a value, e.g. "session cookie" */
+export function describeValueLocation(location: ValueLocation): string {
+  const kinds: Record<ValueLocation['kind'], string> = {
+    header: 'header',
+    cookie: 'cookie',
+    query: 'query parameter',
+    body: 'body field',
+  };
+  return `${location.name} ${kinds[location.kind]}`;
+}
+
+/** Describe where a response returned a value, e.g. "data.token field" */
+export function describeValueSource(source: ValueSource): string {
+  switch (source.kind) {
+    case 'header':
+      return `${source.name} header`;
+    case 'cookie':
+      return `${source.name} cookie (Set-Cookie)`;
+    case 'json':
+      return `${formatJsonPath(source.path) || 'JSON'} field`;
+    case 'text':
+      return 'body text';
+  }
+}
+
+/**
+ * Trackable values in a non-JSON text body: every token between markup and
+ * separators, and the pieces of tokens like `id=123` or `/users/123`.
+ */
+function textValues(
+  text: string,
+): Array<{ value: string; source: ValueSource }> {
+  const values: Array<{ value: string; source: ValueSource }> = [];
+  const seen = new Set<string>();
+  const add = (value: string, at: number) => {
+    if (seen.has(value) || !isTrackableValue(value)) return;
+    seen.add(value);
+    const before = text.slice(Math.max(0, at - TEXT_PREFIX_LENGTH), at);
+    values.push({
+      value,
+      source: {
+        kind: 'text',
+        prefix: before.slice(before.lastIndexOf('\n') + 1),
+        suffix: text.charAt(at + value.length),
+      },
+    });
+  };
+
+  for (const token of text.matchAll(TEXT_TOKEN)) {
+    add(token[0], token.index);
+    for (const piece of token[0].matchAll(TOKEN_PIECE)) {
+      add(piece[0], token.index + piece.index);
+    }
+  }
+  return values;
+}
+
+/**
+ * Values a response hands out: header values, cookies it sets, and the
+ * leaves of a retained JSON body or the tokens of another text body.
+ */
+export function responseValues(
+  entry: HarEntry,
+): Array<{ value: string; source: ValueSource }> {
+  const values: Array<{ value: string; source: ValueSource }> = [];
+
+  for (const header of entry.response.headers) {
+    const name = header.name.toLowerCase();
+    if (name === 'set-cookie') {
+      // One header may carry several cookies when the HAR joins them with newlines
+      for (const line of header.value.split('\n')) {
+        const [pair] = line.split(';');
+        const eq = pair.indexOf('=');
+        if (eq > 0) {
+          values.push({
+            value: pair.slice(eq + 1).trim(),
+            source: { kind: 'cookie', name: pair.slice(0, eq).trim() },
+          });
+        }
+      }
+    } else if (!IGNORED_RESPONSE_HEADERS.has(name) && !name.startsWith(':')) {
+      values.push({ value: header.value, source: { kind: 'header', name } });
+    }
+  }
+
+  const text = entry.response.content.text;
+  const json = tryParseJson(text);
+  if (json !== undefined) {
+    walkJson(json, (value, path) =>
+      values.push({ value, source: { kind: 'json', path } }),
+    );
+  } else if (text) {
+    values.push(...textValues(text));
+  }
+
+  return values.filter(({ value }) => isTrackableValue(value));
+}
+
+/**
+ * Values a request sends: header values (and the credential after an auth
+ * scheme such as "Bearer"), cookies, query parameters, and form or JSON body
+ * fields.
+ */
+export function requestValues(
+  entry: HarEntry,
+): Array<{ value: string; location: ValueLocation }> {
+  const { request } = entry;
+  const values: Array<{ value: string; location: ValueLocation }> = [];
+
+  for (const header of request.headers) {
+    const name = header.name.toLowerCase();
+    if (name === 'cookie') {
+      for (const [cookie, value] of parseCookieHeader(header.value)) {
+        values.push({ value, location: { kind: 'cookie', name: cookie } });
+      }
+    } else if (!IGNORED_REQUEST_HEADERS.has(name) && !name.startsWith(':')) {
+      const credential = /^\w+ (\S+)$/.exec(header.value)?.[1];
+      values.push({
+        value: credential ?? header.value,
+        location: { kind: 'header', name },
+      });
+    }
+  }
+
+  for (const param of request.queryString) {
+    values.push({
+      value: param.value,
+      location: { kind: 'query', name: param.name },
+    });
+  }
+
+  const postData = request.postData;
+  if (postData?.params?.length) {
+    for (const param of postData.params) {
+      values.push({
+        value: param.value,
+        location: { kind: 'body', name: param.name },
+      });
+    }
+  } else if (postData?.text) {
+    const json = tryParseJson(postData.text);
+    if (json !== undefined) {
+      walkJson(json, (value, path) =>
+        values.push({
+          value,
+          location: { kind: 'body', name: path.join('.') },
+        }),
+      );
+    } else if (/x-www-form-urlencoded/i.test(postData.mimeType)) {
+      for (const [name, value] of new URLSearchParams(postData.text)) {
+        values.push({ value, location: { kind: 'body', name } });
+      }
+    }
+  }
+
+  return values.filter(({ value }) => isTrackableValue(value));
+}
+
+/**
+ * Find every request value that an earlier response in the list returned.
+ * When several responses contained the value, the first one is the source.
+ */
+export function findValueDependencies(entries: HarEntry[]): ValueDependency[] {
+  const seen = new Map<string, { fromIndex: number; source: ValueSource }>();
+  const dependencies: ValueDependency[] = [];
+
+  entries.forEach((entry, index) => {
+    for (const { value, location } of requestValues(entry)) {
+      const origin = seen.get(value);
+      if (origin) {
+        dependencies.push({ index, location, value, ...origin });
+      }
+    }
+    for (const { value, source } of responseValues(entry)) {
+      if (!seen.has(value)) seen.set(value, { fromIndex: index, source });
+    }
+  });
+
+  return dependencies;
+}
+
+/**
+ * Whether a response could return `value`: its header values or body text
+ * contain it. A body with escapes (`\/`, `\u00e9`) may hold it in another
+ * spelling, so it always could. A cheap check that spares parsing responses
+ * that can't be a source.
+ */
+function mayReturnValue(entry: HarEntry, value: string): boolean {
+  const text = entry.response.content.text ?? '';
+  return (
+    text.includes(value) ||
+    text.includes('\\') ||
+    entry.response.headers.some((header) => header.value.includes(value))
+  );
+}
+
+/**
+ * The dependencies of the request at `index` alone — what
+ * findValueDependencies reports for it, without building the whole graph.
+ * Only earlier responses that may return one of its values are parsed, and
+ * the scan stops once every value has a source.
+ */
+export function findRequestDependencies(
+  entries: HarEntry[],
+  index: number,
+): ValueDependency[] {
+  const sent = requestValues(entries[index]);
+  const pending = new Set(sent.map(({ value }) => value));
+  const origins = new Map<string, { fromIndex: number; source: ValueSource }>();
+
+  for (let from = 0; from < index && pending.size > 0; from++) {
+    const entry = entries[from];
+    if (![...pending].some((value) => mayReturnValue(entry, value))) continue;
+    for (const { value, source } of responseValues(entry)) {
+      if (pending.delete(value)) {
+        origins.set(value, { fromIndex: from, source });
+      }
+    }
+  }
+
+  return sent.flatMap(({ value, location }) => {
+    const origin = origins.get(value);
+    return origin ? [{ index, location, value, ...origin }] : [];
+  });
+}
+
+/**
+ * Positions of the entries `target` depends on, directly or through other
+ * dependencies, in capture order (the target itself is not included).
+ */
+export function prerequisitesOf(
+  dependencies: ValueDependency[],
+  target: number,
+): number[] {
+  const found = new Set<number>();
+  const pending = [target];
+  for (let index = pending.pop(); index !== undefined; index = pending.pop()) {
+    for (const dependency of dependencies) {
+      if (dependency.index === index && !found.has(dependency.fromIndex)) {
+        found.add(dependency.fromIndex);
+        pending.push(dependency.fromIndex);
+      }
+    }
+  }
+  return [...found].sort((a, b) => a - b);
+}
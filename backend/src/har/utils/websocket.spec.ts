@@ -0,0 +1,198 @@
+import { HarEntry, WebSocketMessage } from './har-parser';
+import {
+  describeWebSocket,
+  describeWebSocketMessages,
+  generateWebSocketScripts,
+  isWebSocketEntry,
+  messageKind,
+  toWebSocketUrl,
+} from './websocket';
+
+/** Helper: create a minimal WebSocket upgrade entry for testing. */
+function makeEntry(overrides: {
+  url?: string;
+  status?: number;
+  headers?: Array<{ name: string; value: string }>;
+  messages?: WebSocketMessage[];
+}): HarEntry {
+  return {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 100,
+    request: {
+      method: 'GET',
+      url: overrides.url || 'wss://stream.example.com/ws',
+      httpVersion: 'HTTP/1.1',
+      headers: overrides.headers || [],
+      queryString: [],
+      headersSize: 0,
+      bodySize: 0,
+    },
+    response: {
+      status: overrides.status ?? 101,
+      statusText: 'Switching Protocols',
+      httpVersion: 'HTTP/1.1',
+      headers: [],
+      content: { size: 0, mimeType: 'x-unknown' },
+      redirectURL: '',
+      headersSize: 0,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 50, receive: 0 },
+    _webSocketMessages: overrides.messages,
+  };
+}
+
+/** Helper: a text frame sent or received at the given time. */
+function frame(
+  type: 'send' | 'receive',
+  data: string,
+  time = 1704067200,
+): WebSocketMessage {
+  return { type, time, opcode: 1, data };
+}
+
+describe('isWebSocketEntry', () => {
+  it('should recognize entries with frames or a ws:// URL', () => {
+    expect(isWebSocketEntry(makeEntry({ messages: [] }))).toBe(true);
+    expect(isWebSocketEntry(makeEntry({}))).toBe(true);
+  });
+
+  it('should recognize a 101 upgrade recorded with an http URL', () => {
+    const entry = makeEntry({
+      url: 'https://stream.example.com/ws',
+      headers: [{ name: 'Upgrade', value: 'websocket' }],
+    });
+    expect(isWebSocketEntry(entry)).toBe(true);
+  });
+
+  it('should not flag ordinary requests', () => {
+    const entry = makeEntry({
+      url: 'https://api.example.com/data',
+      status: 200,
+    });
+    expect(isWebSocketEntry(entry)).toBe(false);
+  });
+});
+
+describe('toWebSocketUrl', () => {
+  it('should convert http(s) URLs and keep ws(s) ones', () => {
+    expect(toWebSocketUrl('https://a.com/ws')).toBe('wss://a.com/ws');
+    expect(toWebSocketUrl('http://a.com/ws')).toBe('ws://a.com/ws');
+    expect(toWebSocketUrl('wss://a.com/ws')).toBe('wss://a.com/ws');
+  });
+});
+
+describe('messageKind', () => {
+  it('should use a type-like field of JSON objects', () => {
+    expect(messageKind(frame('send', '{"type":"subscribe","ch":"x"}'))).toBe(
+      'subscribe',
+    );
+    expect(messageKind(frame('send', '{"op":2,"d":{}}'))).toBe('2');
+  });
+
+  it('should fall back to the keys of other JSON objects', () => {
+    expect(messageKind(frame('receive', '{"price":1,"symbol":"A"}'))).toBe(
+      '{price,symbol}',
+    );
+  });
+
+  it('should use the event name of Socket.IO packets', () => {
+    expect(messageKind(frame('receive', '42["ticker",{"p":1}]'))).toBe(
+      'ticker',
+    );
+  });
+
+  it('should use the first word of text and label binary frames', () => {
+    expect(messageKind(frame('send', 'SUBSCRIBE prices'))).toBe('SUBSCRIBE');
+    expect(
+      messageKind({ type: 'receive', time: 0, opcode: 2, data: 'AAE=' }),
+    ).toBe('binary');
+  });
+
+  it('should strip characters that would break the summary line', () => {
+    expect(messageKind(frame('send', '{"type":"a (b) | c"}'))).toBe('a b c');
+  });
+});
+
+describe('describeWebSocketMessages', () => {
+  it('should count each direction and list kinds by frequency', () => {
+    const messages = [
+      frame('send', '{"type":"subscribe"}'),
+      frame('send', '{"type":"ping"}'),
+      frame('send', '{"type":"ping"}'),
+      frame('receive', '{"type":"ticker"}'),
+    ];
+    expect(describeWebSocketMessages(messages)).toBe(
+      '3 sent: ping, subscribe; 1 received: ticker',
+    );
+  });
+
+  it('should cap the kinds listed', () => {
+    const messages = ['a', 'b', 'c', 'd', 'e', 'f'].map((type) =>
+      frame('receive', JSON.stringify({ type })),
+    );
+    expect(describeWebSocketMessages(messages)).toBe(
+      '6 received: a, b, c, d, e, …',
+    );
+  });
+
+  it('should say when nothing was exchanged', () => {
+    expect(describeWebSocketMessages([])).toBe('no messages');
+  });
+});
+
+describe('describeWebSocket', () => {
+  it('should be undefined for ordinary requests', () => {
+    const entry = makeEntry({ url: 'https://a.com/api', status: 200 });
+    expect(describeWebSocket(entry)).toBeUndefined();
+  });
+});
+
+describe('generateWebSocketScripts', () => {
+  const entry = makeEntry({
+    headers: [
+      { name: 'Origin', value: 'https://app.example.com' },
+      { name: 'Cookie', value: 'session=secret' },
+      { name: 'Sec-WebSocket-Key', value: 'abc==' },
+      { name: 'Sec-WebSocket-Protocol', value: 'graphql-ws, json' },
+    ],
+    messages: [
+      frame('send', '{"type":"auth","token":"it\'s"}', 100),
+      frame('receive', '{"type":"ok"}', 100.5),
+      frame('send', '{"type":"subscribe"}', 101.25),
+      frame('send', '{"type":"ping"}', 160),
+      { type: 'send', time: 161, opcode: 2, data: 'AAE=' },
+    ],
+  });
+  const { websocat, node } = generateWebSocketScripts(entry);
+
+  it('should replay the sent text frames at their pace in websocat', () => {
+    expect(websocat).toContain(
+      `printf '%s\\n' '{"type":"auth","token":"it'\\''s"}'`,
+    );
+    expect(websocat).toContain('sleep 1.3');
+    // Long pauses are capped
+    expect(websocat).toContain('sleep 5\n');
+    expect(websocat).toContain('# binary frame skipped');
+    expect(websocat).not.toContain('"ok"');
+  });
+
+  it('should connect with the captured headers and subprotocols', () => {
+    expect(websocat).toContain("-H 'Origin: https://app.example.com'");
+    expect(websocat).toContain("-H 'Cookie: [REDACTED]'");
+    expect(websocat).toContain("--protocol 'graphql-ws'");
+    expect(websocat).not.toContain('Sec-WebSocket-Key');
+    expect(websocat).toMatch(/'wss:\/\/stream\.example\.com\/ws'$/);
+  });
+
+  it('should replay every sent frame in the Node script', () => {
+    expect(node).toContain("require('ws')");
+    expect(node).toContain(
+      'new WebSocket("wss://stream.example.com/ws", ["graphql-ws","json"], {',
+    );
+    expect(node).toContain('"Cookie": "[REDACTED]",');
+    expect(node).toContain('[1300, "{\\"type\\":\\"subscribe\\"}"],');
+    expect(node).toContain(`[1000, Buffer.from("AAE=", 'base64')],`);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * WebSocket Connections
+ *
+ * Chrome records a WebSocket as its HTTP upgrade entry (status 101) with the
+ * frames exchanged in `_webSocketMessages`. The upgrade alone says nothing
+ * about what the socket is for, so the summary describes the connection by
+ * its message kinds ("3 sent: subscribe, ping; 40 received: ticker"), and
+ * instead of a curl command a matched socket gets a `websocat` one-liner and
+ * a Node `ws` script that connect with the captured headers and replay the
+ * frames the page sent.
+ */
+
+import { escapeShell, isSensitiveHeader, REDACTED } from './curl-generator';
+import { describeKeys } from './body-context';
+import { HarEntry, WebSocketMessage } from './har-parser';
+
+/** Frame opcodes as recorded by Chrome */
+const TEXT_FRAME = 1;
+const BINARY_FRAME = 2;
+
+/** Distinct message kinds listed per direction; the rest are shown as "…" */
+const MAX_KINDS = 5;
+
+/** Longest message kind */
+const MAX_KIND_LENGTH = 30;
+
+/** Fields JSON messages commonly name their kind with */
+const KIND_FIELDS = [
+  'type',
+  'event',
+  'action',
+  'op',
+  'method',
+  'cmd',
+  'channel',
+];
+
+/** Longest pause replayed between two sent frames, in seconds */
+const MAX_REPLAY_DELAY = 5;
+
+/** Seconds the websocat script keeps listening after the last frame */
+const LISTEN_AFTER_REPLAY = 5;
+
+/** Headers the client negotiates itself on every handshake */
+const HANDSHAKE_HEADERS = new Set([
+  'host',
+  'connection',
+  'upgrade',
+  'content-length',
+  'accept-encoding',
+  'sec-websocket-key',
+  'sec-websocket-version',
+  'sec-websocket-extensions',
+  'sec-websocket-protocol',
+]);
+
+/** Scripts that reconnect to a captured socket and replay its sent frames */
+export interface WebSocketScripts {
+  /** Shell pipeline feeding the frames to websocat */
+  websocat: string;
+  /** Node script using the `ws` package */
+  node: string;
+}
+
+/** A header value, matched case-insensitively */
+function headerValue(
+  headers: Array<{ name: string; value: string }>,
+  name: string,
+): string | undefined {
+  return headers.find((h) => h.name.toLowerCase() === name)?.value;
+}
+
+/**
+ * Check whether an entry is a WebSocket connection: Chrome tags it by
+ * resource type and attaches its frames, and the exchange itself is a 101
+ * upgrade to `websocket` (or a ws:// URL in other tools' exports).
+ */
+export function isWebSocketEntry(entry: HarEntry): boolean {
+  if (entry._resourceType === 'websocket' || entry._webSocketMessages) {
+    return true;
+  }
+  if (/^wss?:/i.test(entry.request.url)) return true;
+  return (
+    entry.response.status === 101 &&
+    /websocket/i.test(headerValue(entry.request.headers, 'upgrade') ?? '')
+  );
+}
+
+/** The ws:// or wss:// URL of an upgrade request recorded as http(s). */
+export function toWebSocketUrl(url: string): string {
+  return url.replace(/^http(s?):/i, 'ws$1:');
+}
+
+/**
+ * Name the kind of a message: the first element of a JSON array (Socket.IO
+ * and Phoenix events), a type-like field of a JSON object, the object's keys,
+ * or else the first word of the text. Binary frames are "binary".
+ */
+export function messageKind(message: WebSocketMessage): string {
+  if (message.opcode === BINARY_FRAME) return 'binary';
+
+  // Socket.IO and Engine.IO prefix packets with numeric types ("42[...]")
+  const text = message.data.trim().replace(/^\d+(?=[[{])/, '');
+  let kind: string | undefined;
+  try {
+    const value = JSON.parse(text) as unknown;
+    if (Array.isArray(value)) {
+      const first: unknown = value[0];
+      kind = typeof first === 'string' ? first : describeKeys(value, 1);
+    } else if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const field = KIND_FIELDS.find(
+        (name) =>
+          typeof record[name] === 'string' || typeof record[name] === 'number',
+      );
+      kind = field ? String(record[field]) : describeKeys(value, 1);
+    }
+  } catch {
+    // Not JSON: plain-text protocols lead with a command ("PING", "SUBSCRIBE x")
+  }
+  kind ??= text.split(/\s/, 1)[0];
+
+  // Keep labels from breaking the summary line's "(WebSocket …)" syntax
+  const label = kind.replace(/[()|\s]+/g, ' ').trim() || 'empty';
+  return label.length > MAX_KIND_LENGTH
+    ? `${label.slice(0, MAX_KIND_LENGTH - 1)}…`
+    : label;
+}
+
+/** List the distinct kinds of some messages, most frequent first. */
+function describeKinds(messages: WebSocketMessage[]): string {
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    const kind = messageKind(message);
+    counts.set(kind, (counts.get(kind) ?? 0) + 1);
+  }
+  const kinds = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([kind]) => kind);
+  const listed = kinds.slice(0, MAX_KINDS);
+  if (kinds.length > MAX_KINDS) listed.push('…');
+  return listed.join(', ');
+}
+
+/**
+ * Describe the messages of a connection, e.g.
+ * "3 sent: subscribe, ping; 40 received: ticker, pong".
+ */
+export function describeWebSocketMessages(
+  messages: WebSocketMessage[],
+): string {
+  const sent = messages.filter((m) => m.type === 'send');
+  const received = messages.filter((m) => m.type === 'receive');
+  const parts = [
+    sent.length > 0 ? `${sent.length} sent: ${describeKinds(sent)}` : '',
+    received.length > 0
+      ? `${received.length} received: ${describeKinds(received)}`
+      : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('; ') : 'no messages';
+}
+
+/** Label a WebSocket entry by its messages; undefined for other entries. */
+export function describeWebSocket(entry: HarEntry): string | undefined {
+  return isWebSocketEntry(entry)
+    ? describeWebSocketMessages(entry._webSocketMessages ?? [])
+    : undefined;
+}
+
+/** A sent frame and how long after the previous one it was sent */
+interface ReplayFrame {
+  /** Seconds, capped at MAX_REPLAY_DELAY */
+  delay: number;
+  binary: boolean;
+  data: string;
+}
+
+/** The frames the page sent, with the pauses between them. */
+function replayFrames(entry: HarEntry): ReplayFrame[] {
+  const sent = (entry._webSocketMessages ?? []).filter(
+    (m) =>
+      m.type === 'send' &&
+      (m.opcode === TEXT_FRAME || m.opcode === BINARY_FRAME),
+  );
+  return sent.map((message, i) => {
+    const pause = i === 0 ? 0 : message.time - sent[i - 1].time;
+    return {
+      delay:
+        Math.round(Math.min(Math.max(pause, 0), MAX_REPLAY_DELAY) * 10) / 10,
+      binary: message.opcode === BINARY_FRAME,
+      data: message.data,
+    };
+  });
+}
+
+/** Handshake headers worth sending again, with sensitive values redacted */
+function replayHeaders(
+  entry: HarEntry,
+): Array<{ name: string; value: string }> {
+  return entry.request.headers
+    .filter(
+      (h) =>
+        !HANDSHAKE_HEADERS.has(h.name.toLowerCase()) && !h.name.startsWith(':'),
+    )
+    .map((h) => ({
+      name: h.name,
+      value: isSensitiveHeader(h.name) ? REDACTED : h.value,
+    }));
+}
+
+/** The subprotocols the page asked for */
+function requestedProtocols(entry: HarEntry): string[] {
+  const value = headerValue(entry.request.headers, 'sec-websocket-protocol');
+  return value
+    ? value
+        .split(',')
+        .map((p) => p.trim())
+        .filter(Boolean)
+    : [];
+}
+
+/**
+ * A websocat pipeline that connects with the captured headers, sends the
+ * captured text frames one per line at their original pace, and keeps
+ * listening for a few seconds. websocat sends each stdin line as one frame,
+ * so binary frames are left out.
+ */
+function generateWebsocat(entry: HarEntry, frames: ReplayFrame[]): string {
+  const steps: string[] = [];
+  for (const frame of frames) {
+    if (frame.delay > 0) steps.push(`sleep ${frame.delay}`);
+    steps.push(
+      frame.binary
+        ? '# binary frame skipped (see the Node script)'
+        : `printf '%s\\n' '${escapeShell(frame.data.replace(/\n/g, ' '))}'`,
+    );
+  }
+  steps.push(`sleep ${LISTEN_AFTER_REPLAY}`);
+
+  const command = ['websocat'];
+  for (const protocol of requestedProtocols(entry)) {
+    command.push(`--protocol '${escapeShell(protocol)}'`);
+  }
+  for (const header of replayHeaders(entry)) {
+    command.push(`-H '${escapeShell(`${header.name}: ${header.value}`)}'`);
+  }
+  command.push(`'${escapeShell(toWebSocketUrl(entry.request.url))}'`);
+
+  return [
+    '{',
+    ...steps.map((step) => `  ${step}`),
+    `} | ${command.join(' \\\n  ')}`,
+  ].join('\n');
+}
+
+/** A Node `ws` script that replays the sent frames and logs what comes back. */
+function generateNode(entry: HarEntry, frames: ReplayFrame[]): string {
+  const quote = (str: string) => JSON.stringify(str);
+  const protocols = requestedProtocols(entry);
+  const headers = replayHeaders(entry);
+
+  const lines = [
+    '// npm install ws',
+    "const WebSocket = require('ws');",
+    '',
+    `const ws = new WebSocket(${quote(toWebSocketUrl(entry.request.url))}, ${JSON.stringify(protocols)}, {`,
+    '  headers: {',
+    ...headers.map((h) => `    ${quote(h.name)}: ${quote(h.value)},`),
+    '  },',
+    '});',
+    '',
+    '// [delay in ms, frame], sent in order once connected',
+    'const frames = [',
+    ...frames.map((frame) => {
+      const data = frame.binary
+        ? `Buffer.from(${quote(frame.data)}, 'base64')`
+        : quote(frame.data);
+      return `  [${Math.round(frame.delay * 1000)}, ${data}],`;
+    }),
+    '];',
+    '',
+    "ws.on('open', async () => {",
+    '  for (const [delay, frame] of frames) {',
+    '    await new Promise((resolve) => setTimeout(resolve, delay));',
+    '    ws.send(frame);',
+    '  }',
+    '});',
+    "ws.on('message', (data, isBinary) =>",
+    "  console.log(isBinary ? data.toString('base64') : data.toString()),",
+    ');',
+    "ws.on('close', (code) => console.log('closed', code));",
+    "ws.on('error', (error) => console.error(error.message));",
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Generate scripts that reconnect to a captured WebSocket and replay the
+ * frames the page sent. Sensitive headers are redacted as in curl output.
+ */
+export function generateWebSocketScripts(entry: HarEntry): WebSocketScripts {
+  const frames = replayFrames(entry);
+  return {
+    websocat: generateWebsocat(entry, frames),
+    node: generateNode(entry, frames),
+  };
+}
@@ -0,0 +1,69 @@
+import {
+  flowResponseSchema,
+  MAX_FLOW_STEPS,
+  parseFlowResponse,
+} from './flow-response';
+
+const VALID_INDICES = new Set([0, 1, 2, 5]);
+
+describe('flowResponseSchema', () => {
+  it('should require every property, as strict mode demands', () => {
+    const { schema } = flowResponseSchema();
+    expect(schema.required).toEqual(['steps', 'explanation']);
+    expect(schema.additionalProperties).toBe(false);
+  });
+});
+
+describe('parseFlowResponse', () => {
+  it('should parse steps in order', () => {
+    const result = parseFlowResponse(
+      '```json\n{"steps":[{"index":1,"purpose":"Log in"},{"index":5,"purpose":"Target"}],"explanation":"Login first"}\n```',
+      VALID_INDICES,
+    );
+    expect(result).toEqual({
+      steps: [
+        { index: 1, purpose: 'Log in' },
+        { index: 5, purpose: 'Target' },
+      ],
+      explanation: 'Login first',
+    });
+  });
+
+  it('should default a missing explanation', () => {
+    const result = parseFlowResponse(
+      '{"steps":[{"index":2,"purpose":"Target"}]}',
+      VALID_INDICES,
+    );
+    expect(result.explanation).toBe('Flow found.');
+  });
+
+  it('should reject empty and overlong step lists', () => {
+    expect(() => parseFlowResponse('{"steps":[]}', VALID_INDICES)).toThrow(
+      '"steps" must be a non-empty array',
+    );
+    const steps = Array.from({ length: MAX_FLOW_STEPS + 1 }, () => ({
+      index: 0,
+      purpose: 'x',
+    }));
+    expect(() =>
+      parseFlowResponse(JSON.stringify({ steps }), VALID_INDICES),
+    ).toThrow(`at most ${MAX_FLOW_STEPS}`);
+  });
+
+  it('should list every problem with the steps', () => {
+    expect(() =>
+      parseFlowResponse(
+        '{"steps":[{"index":3,"purpose":"a"},{"index":1,"purpose":2},{"index":1,"purpose":"b"},"x"]}',
+        VALID_INDICES,
+      ),
+    ).toThrow(
+      '"steps[0].index" 3 is not one of the listed request indices; "steps[1].purpose" must be a string; "steps[2].index" 1 is listed twice; "steps[3]" must be an object',
+    );
+  });
+
+  it('should reject answers that are not JSON objects', () => {
+    expect(() => parseFlowResponse('[1, 2]', VALID_INDICES)).toThrow(
+      'Response must be a JSON object',
+    );
+  });
+});
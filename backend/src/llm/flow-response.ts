@@ -0,0 +1,117 @@
+/**
+ * Flow Response
+ *
+ * The JSON contract for identifyFlow answers: the requests that have to run,
+ * in order, to replay the described one — e.g. login → CSRF fetch → target.
+ * As with identify-response, the schema is offered to providers that can
+ * enforce it and every answer is validated regardless.
+ */
+
+import { isRecord } from '../har/utils/json';
+import { parseJsonAnswer } from './identify-response';
+import { LlmResponseSchema } from './providers/llm-provider';
+
+/** Most steps a flow may have, prerequisites and target included */
+export const MAX_FLOW_STEPS = 8;
+
+export interface FlowStepAnswer {
+  index: number;
+  /** What the step is for, e.g. "Log in and receive the access token" */
+  purpose: string;
+}
+
+/** A validated answer; the last step is the described request */
+export interface FlowResponse {
+  steps: FlowStepAnswer[];
+  explanation: string;
+}
+
+/** JSON schema for flow answers (strict: every property required). */
+export function flowResponseSchema(): LlmResponseSchema {
+  return {
+    name: 'identify_flow',
+    description:
+      'The requests to run in order, ending with the one matching the user description',
+    schema: {
+      type: 'object',
+      properties: {
+        steps: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer' },
+              purpose: { type: 'string' },
+            },
+            required: ['index', 'purpose'],
+            additionalProperties: false,
+          },
+        },
+        explanation: { type: 'string' },
+      },
+      required: ['steps', 'explanation'],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Parse and validate a flow answer. Step indices must be listed in the
+ * prompt (`validIndices`) and may not repeat.
+ *
+ * @throws Error listing every problem found, suitable for feeding back to the model
+ */
+export function parseFlowResponse(
+  content: string,
+  validIndices: ReadonlySet<number>,
+): FlowResponse {
+  const value = parseJsonAnswer(content);
+  const problems: string[] = [];
+
+  if (
+    value.explanation !== undefined &&
+    typeof value.explanation !== 'string'
+  ) {
+    problems.push('"explanation" must be a string');
+  }
+
+  const steps: FlowStepAnswer[] = [];
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    problems.push('"steps" must be a non-empty array');
+  } else if (value.steps.length > MAX_FLOW_STEPS) {
+    problems.push(`"steps" may have at most ${MAX_FLOW_STEPS} entries`);
+  } else {
+    const seen = new Set<number>();
+    value.steps.forEach((step: unknown, i) => {
+      const field = `steps[${i}]`;
+      if (!isRecord(step)) {
+        problems.push(`"${field}" must be an object`);
+        return;
+      }
+      const { index, purpose } = step;
+      if (typeof index !== 'number' || !Number.isInteger(index)) {
+        problems.push(`"${field}.index" must be an integer`);
+      } else if (!validIndices.has(index)) {
+        problems.push(
+          `"${field}.index" ${index} is not one of the listed request indices`,
+        );
+      } else if (seen.has(index)) {
+        problems.push(`"${field}.index" ${index} is listed twice`);
+      }
+      if (typeof purpose !== 'string') {
+        problems.push(`"${field}.purpose" must be a string`);
+      }
+      seen.add(index as number);
+      steps.push({ index: index as number, purpose: purpose as string });
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  return {
+    steps,
+    explanation: (value.explanation as string | undefined) || 'Flow found.',
+  };
+}
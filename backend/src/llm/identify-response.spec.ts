@@ -0,0 +1,93 @@
+import {
+  identifyResponseSchema,
+  parseIdentifyResponse,
+} from './identify-response';
+
+const ALL = { withCandidates: true, withReasoning: true };
+const INDICES = new Set([0, 3, 7]);
+
+describe('identifyResponseSchema', () => {
+  it('should require exactly the requested fields', () => {
+    const { schema } = identifyResponseSchema({
+      withCandidates: false,
+      withReasoning: false,
+    });
+    expect(schema.required).toEqual(['index', 'explanation']);
+    expect(schema.additionalProperties).toBe(false);
+    expect(identifyResponseSchema(ALL).schema.required).toEqual([
+      'reasoning',
+      'candidates',
+      'index',
+      'explanation',
+    ]);
+  });
+});
+
+describe('parseIdentifyResponse', () => {
+  it('should parse a valid answer, tolerating code fences', () => {
+    const content =
+      '```json\n' +
+      JSON.stringify({
+        reasoning: 'r',
+        candidates: [{ index: 3, url: '/a', reason: 'b', confidence: 80 }],
+        index: 3,
+        explanation: 'e',
+      }) +
+      '\n```';
+    expect(parseIdentifyResponse(content, ALL, INDICES)).toEqual({
+      index: 3,
+      explanation: 'e',
+      reasoning: 'r',
+      candidates: [{ index: 3, url: '/a', reason: 'b', confidence: 80 }],
+    });
+  });
+
+  it('should drop fields that were not asked for', () => {
+    const content = JSON.stringify({
+      index: 0,
+      reasoning: 'r',
+      candidates: [{ index: 0 }],
+    });
+    expect(
+      parseIdentifyResponse(
+        content,
+        { withCandidates: false, withReasoning: false },
+        INDICES,
+      ),
+    ).toEqual({
+      index: 0,
+      explanation: 'Match found.',
+      reasoning: '',
+      candidates: [],
+    });
+  });
+
+  it('should reject non-JSON and non-object answers', () => {
+    expect(() => parseIdentifyResponse('index: 3', ALL, INDICES)).toThrow(
+      'not valid JSON',
+    );
+    expect(() => parseIdentifyResponse('[3]', ALL, INDICES)).toThrow(
+      'must be a JSON object',
+    );
+  });
+
+  it('should list every problem', () => {
+    const content = JSON.stringify({
+      index: 5,
+      candidates: [
+        { index: 3, url: '/a', reason: 'b', confidence: 150 },
+        { index: 1.5, url: 2, reason: 'b', confidence: 10 },
+        'x',
+      ],
+    });
+    expect(() => parseIdentifyResponse(content, ALL, INDICES)).toThrow(
+      [
+        '"index" 5 is not one of the listed request indices',
+        '"candidates[0].confidence" must be an integer from 0 to 100',
+        '"candidates[1].index" must be an integer',
+        '"candidates[1].url" must be a string',
+        '"candidates[2]" must be an object',
+      ].join('; '),
+    );
+  });
+});
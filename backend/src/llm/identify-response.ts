@@ -0,0 +1,191 @@
+/**
+ * Identify Response
+ *
+ * The JSON contract for identifyRequest answers: a JSON schema handed to
+ * providers that support schema-constrained output, and a validator applied
+ * to every answer regardless, since local models and the heuristic provider
+ * only follow the prompt.
+ */
+
+import { isRecord } from '../har/utils/json';
+import { LlmResponseSchema } from './providers/llm-provider';
+
+export interface IdentifyCandidate {
+  index: number;
+  url: string;
+  reason: string;
+  confidence: number;
+}
+
+/** A validated answer; fields that weren't asked for are empty */
+export interface IdentifyResponse {
+  index: number;
+  explanation: string;
+  reasoning: string;
+  candidates: IdentifyCandidate[];
+}
+
+export interface IdentifyResponseOptions {
+  withCandidates: boolean;
+  withReasoning: boolean;
+}
+
+/**
+ * JSON schema for the requested fields. Every property is required and no
+ * others are allowed, as OpenAI's strict mode demands.
+ */
+export function identifyResponseSchema({
+  withCandidates,
+  withReasoning,
+}: IdentifyResponseOptions): LlmResponseSchema {
+  const properties: Record<string, unknown> = {};
+  if (withReasoning) properties.reasoning = { type: 'string' };
+  if (withCandidates) {
+    properties.candidates = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          url: { type: 'string' },
+          reason: { type: 'string' },
+          // Range is checked by parseIdentifyResponse; strict schemas can't express it everywhere
+          confidence: { type: 'integer', description: 'From 0 to 100' },
+        },
+        required: ['index', 'url', 'reason', 'confidence'],
+        additionalProperties: false,
+      },
+    };
+  }
+  properties.index = { type: 'integer' };
+  properties.explanation = { type: 'string' };
+
+  return {
+    name: 'identify_request',
+    description: 'The HAR entry that best matches the user description',
+    schema: {
+      type: 'object',
+      properties,
+      required: Object.keys(properties),
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Parse a model answer that should be a JSON object, tolerating markdown
+ * code fences around it.
+ *
+ * @throws Error when the answer is not a JSON object
+ */
+export function parseJsonAnswer(content: string): Record<string, unknown> {
+  const json = content
+    .replace(/```json?\s*/g, '')
+    .replace(/```/g, '')
+    .trim();
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Response is not valid JSON (${(error as Error).message})`);
+  }
+  if (!isRecord(value)) {
+    throw new Error('Response must be a JSON object');
+  }
+  return value;
+}
+
+/**
+ * Parse and validate a model answer. Markdown code fences are tolerated.
+ * `validIndices` are the entry indices listed in the prompt; the chosen
+ * index and every candidate index must be one of them.
+ *
+ * @throws Error listing every problem found, suitable for feeding back to the model
+ */
+export function parseIdentifyResponse(
+  content: string,
+  options: IdentifyResponseOptions,
+  validIndices: ReadonlySet<number>,
+): IdentifyResponse {
+  const value = parseJsonAnswer(content);
+
+  const problems: string[] = [];
+  const checkIndex = (index: unknown, field: string) => {
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+      problems.push(`"${field}" must be an integer`);
+    } else if (!validIndices.has(index)) {
+      problems.push(
+        `"${field}" ${index} is not one of the listed request indices`,
+      );
+    }
+  };
+
+  checkIndex(value.index, 'index');
+  if (
+    value.explanation !== undefined &&
+    typeof value.explanation !== 'string'
+  ) {
+    problems.push('"explanation" must be a string');
+  }
+  if (
+    options.withReasoning &&
+    value.reasoning !== undefined &&
+    typeof value.reasoning !== 'string'
+  ) {
+    problems.push('"reasoning" must be a string');
+  }
+
+  const candidates: IdentifyCandidate[] = [];
+  if (options.withCandidates && value.candidates !== undefined) {
+    if (!Array.isArray(value.candidates)) {
+      problems.push('"candidates" must be an array');
+    } else {
+      value.candidates.forEach((candidate: unknown, i) => {
+        const field = `candidates[${i}]`;
+        if (!isRecord(candidate)) {
+          problems.push(`"${field}" must be an object`);
+          return;
+        }
+        checkIndex(candidate.index, `${field}.index`);
+        if (typeof candidate.url !== 'string') {
+          problems.push(`"${field}.url" must be a string`);
+        }
+        if (typeof candidate.reason !== 'string') {
+          problems.push(`"${field}.reason" must be a string`);
+        }
+        const { confidence } = candidate;
+        if (
+          typeof confidence !== 'number' ||
+          !Number.isInteger(confidence) ||
+          confidence < 0 ||
+          confidence > 100
+        ) {
+          problems.push(
+            `"${field}.confidence" must be an integer from 0 to 100`,
+          );
+        }
+        candidates.push({
+          index: candidate.index as number,
+          url: candidate.url as string,
+          reason: candidate.reason as string,
+          confidence: confidence as number,
+        });
+      });
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  return {
+    index: value.index as number,
+    explanation: (value.explanation as string | undefined) || 'Match found.',
+    // Providers may answer fields that weren't asked for; only return what was
+    reasoning: options.withReasoning
+      ? (value.reasoning as string | undefined) || ''
+      : '',
+    candidates,
+  };
+}
@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common';
 import { LlmService } from './llm.service';
+import { llmProviderProvider } from './providers/llm-provider.provider';
 
 @Module({
-  providers: [LlmService],
+  providers: [LlmService, llmProviderProvider],
   exports: [LlmService],
 })
 export class LlmModule {}
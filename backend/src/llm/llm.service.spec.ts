@@ -0,0 +1,286 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from './llm.service';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from './providers/llm-provider';
+import { chunkLines, estimateTokens } from './token-budget';
+
+/** Fake model: picks the first summary line mentioning "weather", else the first line. */
+class FakeProvider extends LlmProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-model';
+  readonly summaries: string[] = [];
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.summaries.push(request.entrySummary);
+    const lines = request.entrySummary.split('\n');
+    const line = lines.find((l) => l.includes('weather')) ?? lines[0];
+    const index = Number(/^\[(\d+)\]/.exec(line)?.[1]);
+    return Promise.resolve({
+      content: JSON.stringify({ index, explanation: `picked ${index}` }),
+      usage: { prompt: 100, completion: 10, total: 110 },
+    });
+  }
+}
+
+/** Fake model that answers with the given replies in order. */
+class ScriptedProvider extends LlmProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted-model';
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private readonly replies: string[]) {
+    super();
+  }
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    // Copy follow-ups: the service keeps appending to the same array
+    this.requests.push({
+      ...request,
+      followUps: [...(request.followUps ?? [])],
+    });
+    return Promise.resolve({
+      content: this.replies[this.requests.length - 1],
+      usage: { prompt: 100, completion: 10, total: 110 },
+    });
+  }
+}
+
+/** Helper: build a summary with `count` lines, one of which is the weather API. */
+function makeSummary(count: number, weatherIndex: number): string {
+  return Array.from({ length: count }, (_, i) =>
+    i === weatherIndex
+      ? `[${i}] GET https://api.example.com/weather → 200 (application/json, 1 KB)`
+      : `[${i}] GET https://api.example.com/resource-${i} → 200 (application/json, 1 KB)`,
+  ).join('\n');
+}
+
+describe('token budget', () => {
+  it('should estimate tokens from length', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('a'.repeat(35))).toBe(10);
+  });
+
+  it('should chunk lines within the budget', () => {
+    const lines = ['a'.repeat(34), 'b'.repeat(34), 'c'.repeat(34)];
+    // Each line costs 10 + 1 tokens
+    expect(chunkLines(lines, 22)).toEqual([[lines[0], lines[1]], [lines[2]]]);
+    expect(chunkLines(lines, 5)).toEqual([[lines[0]], [lines[1]], [lines[2]]]);
+  });
+});
+
+describe('LlmService', () => {
+  function makeService(budget?: number) {
+    const provider = new FakeProvider();
+    const config = new ConfigService(
+      budget ? { LLM_PROMPT_TOKEN_BUDGET: String(budget) } : {},
+    );
+    return { provider, service: new LlmService(provider, config) };
+  }
+
+  it('should send a summary within budget in one call', async () => {
+    const { provider, service } = makeService();
+    const result = await service.identifyRequest(makeSummary(50, 7), 'weather');
+    expect(result.index).toBe(7);
+    expect(provider.summaries).toHaveLength(1);
+    expect(result.tokenUsage).toEqual({
+      prompt: 100,
+      completion: 10,
+      total: 110,
+    });
+  });
+
+  it('should run a tournament over chunks when the summary is over budget', async () => {
+    const { provider, service } = makeService(1500);
+    const summary = makeSummary(200, 150);
+    const result = await service.identifyRequest(summary, 'weather');
+
+    expect(result.index).toBe(150);
+    expect(result.model).toBe('fake-model');
+    // Every chunk fits the budget minus the prompt overhead
+    const calls = provider.summaries.length;
+    expect(calls).toBeGreaterThan(2);
+    for (const chunk of provider.summaries) {
+      expect(estimateTokens(chunk)).toBeLessThan(1500);
+    }
+    // The final round only sees chunk winners, including the weather line
+    const finalRound = provider.summaries[calls - 1].split('\n');
+    expect(finalRound.length).toBeLessThan(200);
+    expect(finalRound.some((line) => line.startsWith('[150]'))).toBe(true);
+    // Usage is summed across every call
+    expect(result.tokenUsage).toEqual({
+      prompt: 100 * calls,
+      completion: 10 * calls,
+      total: 110 * calls,
+    });
+  });
+
+  it('should reject a non-positive budget', () => {
+    expect(() => makeService(-1)).toThrow('LLM_PROMPT_TOKEN_BUDGET');
+  });
+
+  describe('repair retries', () => {
+    const valid = JSON.stringify({ index: 3, explanation: 'ok' });
+    const options = { candidates: false, reasoning: false };
+
+    it('should send a JSON schema and accept a valid answer', async () => {
+      const provider = new ScriptedProvider([valid]);
+      const service = new LlmService(provider, new ConfigService({}));
+      const result = await service.identifyRequest(
+        makeSummary(5, 0),
+        'x',
+        options,
+      );
+      expect(result.index).toBe(3);
+      expect(provider.requests[0].responseSchema?.schema.required).toEqual([
+        'index',
+        'explanation',
+      ]);
+    });
+
+    it('should feed validation errors back and sum usage', async () => {
+      const provider = new ScriptedProvider([
+        'not json',
+        '{"index": 99}',
+        valid,
+      ]);
+      const service = new LlmService(provider, new ConfigService({}));
+      const result = await service.identifyRequest(
+        makeSummary(5, 0),
+        'x',
+        options,
+      );
+
+      expect(result.index).toBe(3);
+      expect(result.tokenUsage.total).toBe(330);
+      const { followUps } = provider.requests[2];
+      expect(followUps).toHaveLength(4);
+      expect(followUps?.[2]).toEqual({
+        role: 'assistant',
+        content: '{"index": 99}',
+      });
+      expect(followUps?.[3].content).toContain(
+        '"index" 99 is not one of the listed request indices',
+      );
+    });
+
+    it('should give up after the bounded number of repairs', async () => {
+      const provider = new ScriptedProvider(['a', 'b', 'c', valid]);
+      const service = new LlmService(provider, new ConfigService({}));
+      await expect(
+        service.identifyRequest(makeSummary(5, 0), 'x', options),
+      ).rejects.toThrow(
+        'Failed to parse LLM response: Response is not valid JSON',
+      );
+      expect(provider.requests).toHaveLength(3);
+    });
+  });
+
+  describe('refineRequest', () => {
+    const refinements = [
+      { index: 3, explanation: 'Weather API', reply: 'no, the paginated one' },
+    ];
+
+    it('should replay earlier answers and replies as follow-ups', async () => {
+      const provider = new ScriptedProvider(['{"index": 1}']);
+      const service = new LlmService(provider, new ConfigService({}));
+      const result = await service.refineRequest(
+        makeSummary(5, 3),
+        'weather',
+        refinements,
+      );
+
+      expect(result.index).toBe(1);
+      const [request] = provider.requests;
+      expect(request.userPrompt).toContain('User wants to find: "weather"');
+      expect(request.refinements).toEqual(refinements);
+      expect(request.followUps).toEqual([
+        {
+          role: 'assistant',
+          content: '{"index":3,"explanation":"Weather API"}',
+        },
+        {
+          role: 'user',
+          content: expect.stringContaining(
+            'The user replied: "no, the paginated one"',
+          ) as string,
+        },
+      ]);
+    });
+
+    it('should keep the conversation when repairing an answer', async () => {
+      const provider = new ScriptedProvider(['{"index": 42}', '{"index": 2}']);
+      const service = new LlmService(provider, new ConfigService({}));
+      const result = await service.refineRequest(
+        makeSummary(5, 3),
+        'weather',
+        refinements,
+      );
+
+      expect(result.index).toBe(2);
+      expect(provider.requests[1].followUps).toHaveLength(4);
+      expect(provider.requests[1].followUps?.[2].content).toBe('{"index": 42}');
+    });
+
+    it('should start over with the replies in the description when over budget', async () => {
+      const { provider, service } = makeService(1500);
+      const result = await service.refineRequest(
+        makeSummary(200, 150),
+        'weather',
+        refinements,
+      );
+
+      expect(result.index).toBe(150);
+      expect(provider.summaries.length).toBeGreaterThan(2);
+    });
+  });
+
+  describe('identifyFlow', () => {
+    it('should ask for flow steps and return them in order', async () => {
+      const provider = new ScriptedProvider([
+        JSON.stringify({
+          steps: [
+            { index: 1, purpose: 'Log in' },
+            { index: 3, purpose: 'Fetch the data' },
+          ],
+          explanation: 'Login, then data',
+        }),
+      ]);
+      const service = new LlmService(provider, new ConfigService({}));
+      const result = await service.identifyFlow(makeSummary(5, 3), 'weather');
+
+      expect(result.steps.map((step) => step.index)).toEqual([1, 3]);
+      expect(result.explanation).toBe('Login, then data');
+      expect(provider.requests[0].task).toBe('flow');
+      expect(provider.requests[0].responseSchema?.name).toBe('identify_flow');
+    });
+
+    it('should repair steps that are not listed', async () => {
+      const provider = new ScriptedProvider([
+        '{"steps": [{"index": 42, "purpose": "?"}], "explanation": ""}',
+        '{"steps": [{"index": 2, "purpose": "Target"}], "explanation": ""}',
+      ]);
+      const service = new LlmService(provider, new ConfigService({}));
+      const result = await service.identifyFlow(makeSummary(5, 2), 'weather');
+
+      expect(result.steps).toEqual([{ index: 2, purpose: 'Target' }]);
+      expect(result.tokenUsage.total).toBe(220);
+      expect(provider.requests[1].followUps?.[1].content).toContain(
+        '"steps[0].index" 42 is not one of the listed request indices',
+      );
+    });
+
+    it('should fall back to the target alone when over budget', async () => {
+      const { provider, service } = makeService(1500);
+      const result = await service.identifyFlow(
+        makeSummary(200, 150),
+        'weather',
+      );
+
+      expect(result.steps).toEqual([{ index: 150, purpose: 'Target request' }]);
+      expect(provider.summaries.length).toBeGreaterThan(2);
+    });
+  });
+});
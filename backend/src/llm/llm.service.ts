@@ -1,21 +1,89 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
+import {
+  FlowStepAnswer,
+  flowResponseSchema,
+  parseFlowResponse,
+} from './flow-response';
+import {
+  IdentifyCandidate,
+  identifyResponseSchema,
+  parseIdentifyResponse,
+} from './identify-response';
+import {
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmRefinement,
+  LlmTokenUsage,
+} from './providers/llm-provider';
+import { chunkLines, estimateTokens } from './token-budget';
+
+/** Default prompt budget: fits a 128K-context model with room to spare */
+const DEFAULT_PROMPT_TOKEN_BUDGET = 100_000;
+
+/** How many times an invalid answer is sent back for repair before giving up */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** Summary lines start with the entry index: `[12] GET ...` */
+const LINE_INDEX = /^\[(\d+)\]/;
+
+/** How the summary lines are formatted, shared by every prompt */
+const SUMMARY_INSTRUCTIONS = `You are an expert at analyzing HTTP traffic. You will be given a list of HTTP requests captured from a browser session (HAR file), and a user's description of an API they want to find.
+
+Each request is formatted as:
+[index] METHOD URL → STATUS (content-type, size) [xN]
+
+Notes:
+- Query parameter VALUES may be replaced with "..." — focus on the parameter NAMES and URL path to understand what the endpoint does.
+- [xN] means this same endpoint pattern was called N times in the session.
+- The index refers to one representative request for that pattern.
+- GraphQL requests name their operation after the URL, e.g. "(GraphQL query GetCart)"; each operation is listed separately.
+- WebSocket connections list their messages after the URL, e.g. "(WebSocket 2 sent: subscribe; 40 received: ticker)" — match them by what the messages are about.
+- "SSE stream" or "NDJSON stream" after the size marks a streaming response (Server-Sent Events or newline-delimited JSON), e.g. a chat completion or live feed.
+- A line may end with "| " and the shape of the bodies: "vars {...}" (GraphQL variable names), "body {...}" (request field names), "op ..." (operation header) and "returns {...}" (response key structure).`;
+
+export interface IdentifyRequestResult {
+  index: number;
+  explanation: string;
+  reasoning: string;
+  candidates: IdentifyCandidate[];
+  tokenUsage: LlmTokenUsage;
+  model: string;
+}
+
+export interface IdentifyFlowResult {
+  /** Steps in the order they must run; the last one is the described request */
+  steps: FlowStepAnswer[];
+  explanation: string;
+  tokenUsage: LlmTokenUsage;
+  model: string;
+}
 
 @Injectable()
 export class LlmService {
   private readonly logger = new Logger(LlmService.name);
-  private readonly openai: OpenAI;
-  private readonly model: string;
+  private readonly promptTokenBudget: number;
 
-  constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
+  constructor(
+    private readonly provider: LlmProvider,
+    configService: ConfigService,
+  ) {
+    this.promptTokenBudget = Number(
+      configService.get<string>('LLM_PROMPT_TOKEN_BUDGET') ??
+        DEFAULT_PROMPT_TOKEN_BUDGET,
+    );
+    if (
+      !Number.isFinite(this.promptTokenBudget) ||
+      this.promptTokenBudget <= 0
+    ) {
+      throw new Error('LLM_PROMPT_TOKEN_BUDGET must be a positive number');
     }
+  }
 
-    this.openai = new OpenAI({ apiKey });
-    this.model = this.configService.get<string>('OPENAI_MODEL') || 'gpt-4o-mini';
+  /** Provider and model answering queries, e.g. "openai/gpt-4o-mini" */
+  get modelId(): string {
+    return `${this.provider.name}/${this.provider.model}`;
   }
 
   /**
@@ -26,6 +94,9 @@ export class LlmService {
    * - We ask the LLM to return just the index number
    * - This keeps prompt + response tokens minimal
    *
+   * Summaries larger than LLM_PROMPT_TOKEN_BUDGET are split into chunks and
+   * narrowed down tournament-style (see identifyInChunks).
+   *
    * @param entrySummary - Compact text summary of filtered HAR entries
    * @param userDescription - User's natural language description of the API
    * @returns The index of the best-matching entry and an explanation
@@ -34,26 +105,206 @@ export class LlmService {
     entrySummary: string,
     userDescription: string,
     options: { candidates?: boolean; reasoning?: boolean } = {},
-  ): Promise<{
-    index: number;
-    explanation: string;
-    reasoning: string;
-    candidates: Array<{ index: number; url: string; reason: string; confidence: number }>;
-    tokenUsage: { prompt: number; completion: number; total: number };
-    model: string;
-  }> {
-    const withCandidates = options.candidates !== false; // default true
-    const withReasoning = options.reasoning !== false; // default true
+  ): Promise<IdentifyRequestResult> {
+    const lines = entrySummary.split('\n');
+    const { systemPrompt, userPrompt } = this.buildPrompts(
+      '',
+      userDescription,
+      options,
+    );
+    const chunkBudget =
+      this.promptTokenBudget - estimateTokens(systemPrompt + userPrompt);
 
-    const baseInstructions = `You are an expert at analyzing HTTP traffic. You will be given a list of HTTP requests captured from a browser session (HAR file), and a user's description of an API they want to find.
+    if (estimateTokens(entrySummary) > chunkBudget) {
+      const chunks = chunkLines(lines, Math.max(chunkBudget, 1));
+      // Only split when it actually narrows the field; otherwise send as-is
+      if (chunks.length > 1 && chunks.length < lines.length) {
+        return this.identifyInChunks(chunks, userDescription, options);
+      }
+    }
 
-Each request is formatted as:
-[index] METHOD URL → STATUS (content-type, size) [xN]
+    return this.queryOnce(entrySummary, userDescription, options);
+  }
 
-Notes:
-- Query parameter VALUES may be replaced with "..." — focus on the parameter NAMES and URL path to understand what the endpoint does.
-- [xN] means this same endpoint pattern was called N times in the session.
-- The index refers to one representative request for that pattern.
+  /**
+   * Tournament selection for summaries over the prompt budget: ask for the
+   * best entry of each chunk (index only), then run identifyRequest again
+   * over the chunk winners — recursing if even they don't fit. Each chunk's
+   * answer is validated against that chunk's indices (see queryOnce), so
+   * every chunk contributes exactly one winner. Token usage is summed across
+   * every call.
+   */
+  private async identifyInChunks(
+    chunks: string[][],
+    userDescription: string,
+    options: { candidates?: boolean; reasoning?: boolean },
+  ): Promise<IdentifyRequestResult> {
+    this.logger.log(
+      `Summary exceeds the ${this.promptTokenBudget}-token budget, splitting into ${chunks.length} chunks`,
+    );
+
+    const usage: LlmTokenUsage = { prompt: 0, completion: 0, total: 0 };
+    const addUsage = (more: LlmTokenUsage) => {
+      usage.prompt += more.prompt;
+      usage.completion += more.completion;
+      usage.total += more.total;
+    };
+
+    const winners: string[] = [];
+    for (const chunk of chunks) {
+      const result = await this.queryOnce(chunk.join('\n'), userDescription, {
+        candidates: false,
+        reasoning: false,
+      });
+      addUsage(result.tokenUsage);
+
+      // queryOnce only accepts an index listed in the chunk, so this is one line
+      winners.push(
+        ...chunk.filter(
+          (line) => Number(LINE_INDEX.exec(line)?.[1]) === result.index,
+        ),
+      );
+    }
+
+    const final = await this.identifyRequest(
+      winners.join('\n'),
+      userDescription,
+      options,
+    );
+    addUsage(final.tokenUsage);
+    return { ...final, tokenUsage: usage };
+  }
+
+  /**
+   * Ask again after the user replied to earlier answers, e.g. "no, the one
+   * that returns paginated results" or "exclude graphql". The original
+   * prompt is replayed with each answer and reply as follow-up turns, so the
+   * model refines its choice instead of starting over.
+   *
+   * When the conversation no longer fits the prompt budget, the replies are
+   * appended to the description and identifyRequest starts afresh.
+   */
+  async refineRequest(
+    entrySummary: string,
+    userDescription: string,
+    refinements: LlmRefinement[],
+    options: { candidates?: boolean; reasoning?: boolean } = {},
+  ): Promise<IdentifyRequestResult> {
+    const { systemPrompt, userPrompt } = this.buildPrompts(
+      entrySummary,
+      userDescription,
+      options,
+    );
+    const followUps = refinements.flatMap((turn): LlmMessage[] => [
+      {
+        role: 'assistant',
+        content: JSON.stringify({
+          index: turn.index,
+          explanation: turn.explanation,
+        }),
+      },
+      {
+        role: 'user',
+        content: `The user replied: "${turn.reply}"
+Taking this into account, pick the request that best matches the original description. Answer with the same JSON fields as before.`,
+      },
+    ]);
+    const promptTokens = estimateTokens(
+      [systemPrompt, userPrompt, ...followUps.map((m) => m.content)].join('\n'),
+    );
+
+    if (promptTokens > this.promptTokenBudget) {
+      this.logger.log(
+        'Refinement exceeds the token budget, starting over with the replies in the description',
+      );
+      return this.identifyRequest(
+        entrySummary,
+        [userDescription, ...refinements.map((turn) => turn.reply)].join('. '),
+        options,
+      );
+    }
+
+    return this.queryOnce(entrySummary, userDescription, options, {
+      followUps,
+      refinements,
+    });
+  }
+
+  /**
+   * Identify the described request together with the earlier requests it
+   * needs to succeed (e.g. login → CSRF fetch → target), in run order.
+   *
+   * Summaries over the prompt budget fall back to identifyRequest's
+   * tournament, which finds the target alone.
+   */
+  async identifyFlow(
+    entrySummary: string,
+    userDescription: string,
+  ): Promise<IdentifyFlowResult> {
+    const systemPrompt = `${SUMMARY_INSTRUCTIONS}
+
+Your task:
+1. Find the request that matches the user's description (the target).
+2. Find the earlier requests the target depends on to succeed — typically a login or token request that returns credentials, or a request that returns a CSRF token or session ID. Requests are listed in capture order, so prerequisites have lower indices than the target.
+3. Leave out requests the target does not need; most flows have one to three steps, and a single step is fine.
+
+Return your answer as JSON with these fields:
+- "steps": The requests to run, in order, each with "index" and "purpose" (a short phrase saying what the step is for). The last step is the target.
+- "explanation": A 1-2 sentence summary of the flow
+
+Respond ONLY with valid JSON. No markdown, no code fences.`;
+    const userPrompt = `User wants to find: "${userDescription}"
+
+Here are the captured HTTP requests:
+${entrySummary}`;
+
+    if (estimateTokens(systemPrompt + userPrompt) > this.promptTokenBudget) {
+      this.logger.log(
+        'Flow prompt exceeds the token budget, identifying the target only',
+      );
+      const target = await this.identifyRequest(entrySummary, userDescription, {
+        candidates: false,
+        reasoning: false,
+      });
+      return {
+        steps: [{ index: target.index, purpose: 'Target request' }],
+        explanation: target.explanation,
+        tokenUsage: target.tokenUsage,
+        model: target.model,
+      };
+    }
+
+    this.logger.log(
+      `Querying LLM (${this.provider.name}/${this.provider.model}) for a flow over ${entrySummary.split('\n').length} entries`,
+    );
+
+    const validIndices = this.listedIndices(entrySummary);
+    const { answer, usage } = await this.completeWithRepairs(
+      {
+        task: 'flow',
+        systemPrompt,
+        userPrompt,
+        responseSchema: flowResponseSchema(),
+        maxTokens: 400,
+        temperature: 0.1,
+        entrySummary,
+        userDescription,
+      },
+      (content) => parseFlowResponse(content, validIndices),
+    );
+    return { ...answer, tokenUsage: usage, model: this.provider.model };
+  }
+
+  /** Build the system and user prompts for one identifyRequest call. */
+  private buildPrompts(
+    entrySummary: string,
+    userDescription: string,
+    options: { candidates?: boolean; reasoning?: boolean },
+  ): { systemPrompt: string; userPrompt: string } {
+    const withCandidates = options.candidates !== false; // default true
+    const withReasoning = options.reasoning !== false; // default true
+
+    const baseInstructions = `${SUMMARY_INSTRUCTIONS}
 
 Your task:
 1. Scan through all the requests and identify potential candidates that could match the user's description.
@@ -87,58 +338,112 @@ Your task:
 Here are the captured HTTP requests:
 ${entrySummary}`;
 
+    return { systemPrompt, userPrompt };
+  }
+
+  /**
+   * Send one summary to the provider and parse its answer. A refinement
+   * session passes its earlier turns as `conversation`.
+   */
+  private async queryOnce(
+    entrySummary: string,
+    userDescription: string,
+    options: { candidates?: boolean; reasoning?: boolean },
+    conversation: Pick<LlmCompletionRequest, 'followUps' | 'refinements'> = {},
+  ): Promise<IdentifyRequestResult> {
+    const withCandidates = options.candidates !== false; // default true
+    const withReasoning = options.reasoning !== false; // default true
+    const { systemPrompt, userPrompt } = this.buildPrompts(
+      entrySummary,
+      userDescription,
+      options,
+    );
+
     // Estimate max_tokens based on what we're asking for
     let maxTokens = 150; // minimal: just index + explanation
     if (withCandidates) maxTokens += 200; // candidates with confidence
     if (withReasoning) maxTokens += 150; // reasoning text
 
     this.logger.log(
-      `Querying LLM (${this.model}) with ${entrySummary.split('\n').length} entries [candidates=${withCandidates}, reasoning=${withReasoning}]`,
+      `Querying LLM (${this.provider.name}/${this.provider.model}) with ${entrySummary.split('\n').length} entries [candidates=${withCandidates}, reasoning=${withReasoning}, refinements=${conversation.refinements?.length ?? 0}]`,
     );
 
-    const response = await this.openai.chat.completions.create({
-      model: this.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.1, // Low temperature for deterministic matching
-      max_tokens: maxTokens,
-    });
-
-    const content = response.choices[0]?.message?.content?.trim();
-    if (!content) {
-      throw new Error('LLM returned an empty response');
-    }
+    const responseOptions = { withCandidates, withReasoning };
+    const validIndices = this.listedIndices(entrySummary);
+    const { answer, usage } = await this.completeWithRepairs(
+      {
+        task: 'identify',
+        systemPrompt,
+        userPrompt,
+        responseSchema: identifyResponseSchema(responseOptions),
+        maxTokens,
+        temperature: 0.1, // Low temperature for deterministic matching
+        entrySummary,
+        userDescription,
+        ...conversation,
+      },
+      (content) =>
+        parseIdentifyResponse(content, responseOptions, validIndices),
+    );
+    return { ...answer, tokenUsage: usage, model: this.provider.model };
+  }
 
-    this.logger.log(
-      `LLM usage: ${response.usage?.prompt_tokens} prompt + ${response.usage?.completion_tokens} completion = ${response.usage?.total_tokens} total tokens`,
+  /** Entry indices listed in a summary, which are the only valid answers. */
+  private listedIndices(entrySummary: string): Set<number> {
+    return new Set(
+      entrySummary
+        .split('\n')
+        .map((line) => Number(LINE_INDEX.exec(line)?.[1]))
+        .filter((index) => Number.isInteger(index)),
     );
+  }
 
-    try {
-      // Try to extract JSON from the response (handle potential markdown fences)
-      const jsonStr = content.replace(/```json?\s*/g, '').replace(/```/g, '').trim();
-      const result = JSON.parse(jsonStr);
+  /**
+   * Send a completion request and parse the answer. Invalid answers are sent
+   * back with the problems for a bounded number of repairs, after any
+   * follow-ups the request already has; token usage is summed across attempts.
+   */
+  private async completeWithRepairs<T>(
+    request: LlmCompletionRequest,
+    parse: (content: string) => T,
+  ): Promise<{ answer: T; usage: LlmTokenUsage }> {
+    const usage: LlmTokenUsage = { prompt: 0, completion: 0, total: 0 };
+    const followUps: LlmMessage[] = [...(request.followUps ?? [])];
 
-      if (typeof result.index !== 'number') {
-        throw new Error('LLM response missing "index" field');
-      }
+    for (let attempt = 0; ; attempt++) {
+      const completion = await this.provider.complete({
+        ...request,
+        followUps,
+      });
+      usage.prompt += completion.usage.prompt;
+      usage.completion += completion.usage.completion;
+      usage.total += completion.usage.total;
 
-      return {
-        index: result.index,
-        explanation: result.explanation || 'Match found.',
-        reasoning: result.reasoning || '',
-        candidates: result.candidates || [],
-        tokenUsage: {
-          prompt: response.usage?.prompt_tokens ?? 0,
-          completion: response.usage?.completion_tokens ?? 0,
-          total: response.usage?.total_tokens ?? 0,
-        },
-        model: this.model,
-      };
-    } catch (error) {
-      this.logger.error(`Failed to parse LLM response: ${content}`);
-      throw new Error(`Failed to parse LLM response: ${error.message}`);
+      this.logger.log(
+        `LLM usage: ${completion.usage.prompt} prompt + ${completion.usage.completion} completion = ${completion.usage.total} total tokens`,
+      );
+
+      try {
+        return { answer: parse(completion.content), usage };
+      } catch (error) {
+        const problem = (error as Error).message;
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+          this.logger.error(
+            `Failed to parse LLM response: ${completion.content}`,
+          );
+          throw new Error(`Failed to parse LLM response: ${problem}`);
+        }
+        this.logger.warn(
+          `Invalid LLM response (${problem}), asking for a repair`,
+        );
+        followUps.push(
+          { role: 'assistant', content: completion.content },
+          {
+            role: 'user',
+            content: `That answer is invalid: ${problem}. Reply again with only the JSON object, using indices from the list.`,
+          },
+        );
+      }
     }
   }
 }
@@ -0,0 +1,91 @@
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from './llm-provider';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** The parts of a Messages API response we read */
+interface AnthropicMessage {
+  content?: Array<{ type: string; text?: string; input?: unknown }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Completions through the Anthropic Messages API, called over plain fetch
+ * so no extra SDK is needed. A response schema is enforced by forcing a
+ * single tool call whose input schema is the response schema; the tool input
+ * becomes the completion content.
+ */
+export class AnthropicLlmProvider extends LlmProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    readonly model: string,
+    private readonly apiKey: string,
+    private readonly apiUrl = ANTHROPIC_API_URL,
+  ) {
+    super();
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const schema = request.responseSchema;
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: request.systemPrompt,
+        messages: [
+          { role: 'user', content: request.userPrompt },
+          ...(request.followUps ?? []),
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(schema && {
+          tools: [
+            {
+              name: schema.name,
+              description: schema.description,
+              input_schema: schema.schema,
+            },
+          ],
+          tool_choice: { type: 'tool', name: schema.name },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Anthropic API error ${response.status}: ${await response.text()}`,
+      );
+    }
+
+    const message = (await response.json()) as AnthropicMessage;
+    const blocks = message.content ?? [];
+    const toolUse = blocks.find((block) => block.type === 'tool_use');
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text ?? '')
+          .join('')
+          .trim();
+    if (!content) {
+      throw new Error('LLM returned an empty response');
+    }
+
+    const prompt = message.usage?.input_tokens ?? 0;
+    const completion = message.usage?.output_tokens ?? 0;
+    return {
+      content,
+      usage: { prompt, completion, total: prompt + completion },
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { SummaryPattern } from '../../har/utils/har-parser';
+import { StreamingKind } from '../../har/utils/streaming';
+import { matchLexically } from '../../har/utils/lexical-matcher';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from './llm-provider';
+
+const SUMMARY_LINE =
+  /^\[(\d+)\] (\S+) (\S+)(?: \((GraphQL|WebSocket) ([^)]+)\))? → (\d+) \(([^,)]*)[^)]*?(?:, (SSE|NDJSON) stream)?\)(?: \[x(\d+)\])?(?: \| (.+))?/;
+
+/**
+ * Parse the compact summary lines LlmService sends to chat models back into
+ * patterns. Response sizes are not recovered (they're rounded for display).
+ */
+export function parseSummaryLines(entrySummary: string): SummaryPattern[] {
+  const patterns: SummaryPattern[] = [];
+  for (const line of entrySummary.split('\n')) {
+    const match = SUMMARY_LINE.exec(line.trim());
+    if (!match) continue;
+    patterns.push({
+      index: Number(match[1]),
+      method: match[2],
+      url: match[3],
+      status: Number(match[6]),
+      responseType: match[7].trim(),
+      responseSize: 0,
+      count: match[9] ? Number(match[9]) : 1,
+      graphql: match[4] === 'GraphQL' ? match[5] : undefined,
+      websocket: match[4] === 'WebSocket' ? match[5] : undefined,
+      // Streaming labels are the kinds in capitals ("SSE stream")
+      streaming: match[8]?.toLowerCase() as StreamingKind | undefined,
+      context: match[10],
+    });
+  }
+  return patterns;
+}
+
+/**
+ * Deterministic, offline "model" backed by the lexical matcher: it ranks the
+ * summary lines by BM25 over URL words and answers in the same JSON shape the
+ * chat models are asked for, with zero token usage and no network access —
+ * the fallback when no cloud or local model is configured.
+ *
+ * Flow requests are answered with the best match as the only step; the
+ * summary has no values to reason about, so prerequisites are left to the
+ * caller's value-flow analysis. In a refinement session the replies are
+ * added to the description and earlier answers are ruled out, since the
+ * user rejected them; negations like "exclude graphql" aren't understood.
+ */
+export class HeuristicLlmProvider extends LlmProvider {
+  readonly name = 'heuristic';
+  readonly model = 'heuristic';
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    try {
+      const refinements = request.refinements ?? [];
+      const rejected = new Set(refinements.map((turn) => turn.index));
+      const patterns = parseSummaryLines(request.entrySummary).filter(
+        (pattern) => !rejected.has(pattern.index),
+      );
+      const { index, explanation, reasoning, candidates } = matchLexically(
+        patterns,
+        [
+          request.userDescription,
+          ...refinements.map((turn) => turn.reply),
+        ].join(' '),
+      );
+      const answer =
+        request.task === 'flow'
+          ? { steps: [{ index, purpose: 'Target request' }], explanation }
+          : { reasoning, candidates, index, explanation };
+      return Promise.resolve({
+        content: JSON.stringify(answer),
+        usage: { prompt: 0, completion: 0, total: 0 },
+      });
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+}
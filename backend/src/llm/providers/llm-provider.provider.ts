@@ -0,0 +1,82 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnthropicLlmProvider } from './anthropic-llm-provider';
+import { HeuristicLlmProvider } from './heuristic-llm-provider';
+import { LlmProvider } from './llm-provider';
+import { OpenAiLlmProvider } from './openai-llm-provider';
+
+/** Default models per provider */
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Build the LlmProvider selected by configuration:
+ * - LLM_PROVIDER: "openai", "anthropic", "openai-compatible" or "heuristic".
+ *   Defaults to "openai" when OPENAI_API_KEY is set, otherwise "heuristic",
+ *   so the backend always boots without a cloud key.
+ * - OPENAI_API_KEY / OPENAI_MODEL: for "openai"
+ * - ANTHROPIC_API_KEY / ANTHROPIC_MODEL: for "anthropic"
+ * - LLM_BASE_URL / LLM_MODEL / LLM_API_KEY: for "openai-compatible"
+ *   (Ollama, llama.cpp, vLLM, …); the key is optional for local servers.
+ *   LLM_STRUCTURED_OUTPUTS=true requests JSON-schema output from servers
+ *   that support it
+ */
+export function createLlmProvider(configService: ConfigService): LlmProvider {
+  const get = (key: string) => configService.get<string>(key) || undefined;
+  const openAiKey = get('OPENAI_API_KEY');
+  const driver = get('LLM_PROVIDER') ?? (openAiKey ? 'openai' : 'heuristic');
+
+  switch (driver) {
+    case 'openai':
+      if (!openAiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is not set');
+      }
+      return new OpenAiLlmProvider(
+        'openai',
+        get('OPENAI_MODEL') ?? DEFAULT_OPENAI_MODEL,
+        { apiKey: openAiKey, structuredOutputs: true },
+      );
+    case 'anthropic': {
+      const apiKey = get('ANTHROPIC_API_KEY');
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+      }
+      return new AnthropicLlmProvider(
+        get('ANTHROPIC_MODEL') ?? DEFAULT_ANTHROPIC_MODEL,
+        apiKey,
+      );
+    }
+    case 'openai-compatible':
+      return new OpenAiLlmProvider(
+        'openai-compatible',
+        get('LLM_MODEL') ?? DEFAULT_LOCAL_MODEL,
+        {
+          // The SDK requires a key; local servers ignore it
+          apiKey: get('LLM_API_KEY') ?? 'not-needed',
+          baseURL: get('LLM_BASE_URL') ?? DEFAULT_LOCAL_BASE_URL,
+          structuredOutputs: get('LLM_STRUCTURED_OUTPUTS') === 'true',
+        },
+      );
+    case 'heuristic':
+      return new HeuristicLlmProvider();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${driver}". Use "openai", "anthropic", "openai-compatible" or "heuristic".`,
+      );
+  }
+}
+
+/** Provides the configured LlmProvider to LlmService. */
+export const llmProviderProvider: Provider = {
+  provide: LlmProvider,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): LlmProvider => {
+    const provider = createLlmProvider(configService);
+    new Logger('LlmProvider').log(
+      `Using ${provider.name} provider (${provider.model})`,
+    );
+    return provider;
+  },
+};
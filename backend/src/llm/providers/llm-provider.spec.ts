@@ -0,0 +1,183 @@
+import { ConfigService } from '@nestjs/config';
+import { AnthropicLlmProvider } from './anthropic-llm-provider';
+import {
+  HeuristicLlmProvider,
+  parseSummaryLines,
+} from './heuristic-llm-provider';
+import { LlmCompletionRequest } from './llm-provider';
+import { createLlmProvider } from './llm-provider.provider';
+import { OpenAiLlmProvider } from './openai-llm-provider';
+
+const SUMMARY = [
+  '[0] GET https://example.com/api/session → 200 (application/json, 120B)',
+  '[1] GET https://example.com/api/weather/forecast?city=... → 200 (application/json, 2.1KB) [x3]',
+  '[2] POST https://example.com/api/users → 201 (application/json, 80B)',
+  '[3] GET https://example.com/api/users/{id} → 200 (application/json, 300B)',
+].join('\n');
+
+/** Helper: build a completion request for the given description. */
+function makeRequest(userDescription: string): LlmCompletionRequest {
+  return {
+    task: 'identify',
+    systemPrompt: '',
+    userPrompt: '',
+    maxTokens: 500,
+    temperature: 0.1,
+    entrySummary: SUMMARY,
+    userDescription,
+  };
+}
+
+/** Helper: a ConfigService backed by a plain object. */
+function makeConfig(env: Record<string, string>): ConfigService {
+  return new ConfigService(env);
+}
+
+describe('parseSummaryLines', () => {
+  it('should parse summary lines back into patterns', () => {
+    expect(parseSummaryLines(SUMMARY)[1]).toEqual({
+      index: 1,
+      method: 'GET',
+      url: 'https://example.com/api/weather/forecast?city=...',
+      status: 200,
+      responseType: 'application/json',
+      responseSize: 0,
+      count: 3,
+    });
+  });
+
+  it('should keep the GraphQL operation and the body context', () => {
+    const [pattern] = parseSummaryLines(
+      '[4] POST https://example.com/graphql (GraphQL query GetUser) → 200 (application/json, 1.0 KB) [x2] | vars {id}',
+    );
+    expect(pattern.url).toBe('https://example.com/graphql');
+    expect(pattern.graphql).toBe('query GetUser');
+    expect(pattern.count).toBe(2);
+    expect(pattern.context).toBe('vars {id}');
+  });
+
+  it('should keep the WebSocket message kinds', () => {
+    const [pattern] = parseSummaryLines(
+      '[2] GET wss://example.com/stream (WebSocket 1 sent: subscribe; 9 received: ticker) → 101 (x-unknown, 0 B)',
+    );
+    expect(pattern.status).toBe(101);
+    expect(pattern.graphql).toBeUndefined();
+    expect(pattern.websocket).toBe('1 sent: subscribe; 9 received: ticker');
+  });
+
+  it('should keep the streaming marker', () => {
+    const [pattern] = parseSummaryLines(
+      '[1] POST https://example.com/v1/chat → 200 (text/event-stream, 2.0 KB, SSE stream) [x2]',
+    );
+    expect(pattern.responseType).toBe('text/event-stream');
+    expect(pattern.streaming).toBe('sse');
+    expect(pattern.count).toBe(2);
+  });
+
+  it('should skip lines that are not entries', () => {
+    expect(parseSummaryLines('hello\n\n')).toEqual([]);
+  });
+});
+
+describe('HeuristicLlmProvider', () => {
+  const provider = new HeuristicLlmProvider();
+
+  it('should pick the entry whose URL matches the description', async () => {
+    const { content, usage } = await provider.complete(
+      makeRequest('Find the weather forecast for a city'),
+    );
+    const result = JSON.parse(content) as {
+      index: number;
+      candidates: Array<{ index: number; confidence: number }>;
+    };
+    expect(result.index).toBe(1);
+    expect(result.candidates[0].confidence).toBeGreaterThan(50);
+    expect(usage).toEqual({ prompt: 0, completion: 0, total: 0 });
+  });
+
+  it('should prefer the method implied by the description', async () => {
+    const { content } = await provider.complete(
+      makeRequest('The request that creates users'),
+    );
+    expect((JSON.parse(content) as { index: number }).index).toBe(2);
+  });
+
+  it('should answer flow requests with the best match as the only step', async () => {
+    const { content } = await provider.complete({
+      ...makeRequest('Find the weather forecast for a city'),
+      task: 'flow',
+    });
+    expect(JSON.parse(content)).toEqual({
+      steps: [{ index: 1, purpose: 'Target request' }],
+      explanation: expect.any(String) as string,
+    });
+  });
+
+  it('should rule out rejected answers and rank by the replies too', async () => {
+    const { content } = await provider.complete({
+      ...makeRequest('The users request'),
+      refinements: [
+        { index: 2, explanation: 'Creates users', reply: 'no, a single user' },
+      ],
+    });
+    expect((JSON.parse(content) as { index: number }).index).toBe(3);
+  });
+
+  it('should reject an empty summary', async () => {
+    await expect(
+      provider.complete({ ...makeRequest('anything'), entrySummary: '' }),
+    ).rejects.toThrow('No requests');
+  });
+});
+
+describe('createLlmProvider', () => {
+  // ConfigService falls back to process.env, so isolate from the host's keys
+  const savedEnv = { ...process.env };
+  beforeEach(() => {
+    for (const key of Object.keys(process.env)) {
+      if (/^(LLM_|OPENAI_|ANTHROPIC_)/.test(key)) delete process.env[key];
+    }
+  });
+  afterAll(() => {
+    process.env = savedEnv;
+  });
+
+  it('should fall back to the heuristic provider without an OpenAI key', () => {
+    expect(createLlmProvider(makeConfig({}))).toBeInstanceOf(
+      HeuristicLlmProvider,
+    );
+  });
+
+  it('should default to OpenAI when a key is configured', () => {
+    const provider = createLlmProvider(
+      makeConfig({ OPENAI_API_KEY: 'sk-test', OPENAI_MODEL: 'gpt-test' }),
+    );
+    expect(provider).toBeInstanceOf(OpenAiLlmProvider);
+    expect(provider.model).toBe('gpt-test');
+  });
+
+  it('should build an OpenAI-compatible provider without a key', () => {
+    const provider = createLlmProvider(
+      makeConfig({ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'qwen' }),
+    );
+    expect(provider.name).toBe('openai-compatible');
+    expect(provider.model).toBe('qwen');
+  });
+
+  it('should require the key of an explicitly selected provider', () => {
+    expect(() =>
+      createLlmProvider(makeConfig({ LLM_PROVIDER: 'anthropic' })),
+    ).toThrow('ANTHROPIC_API_KEY');
+    expect(
+      createLlmProvider(
+        makeConfig({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'k' }),
+      ),
+    ).toBeInstanceOf(AnthropicLlmProvider);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() =>
+      createLlmProvider(makeConfig({ LLM_PROVIDER: 'bard' })),
+    ).toThrow('Unknown LLM_PROVIDER');
+  });
+});
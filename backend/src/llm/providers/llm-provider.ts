@@ -0,0 +1,83 @@
+/**
+ * LLM Providers
+ *
+ * Abstract chat-completion backend used by LlmService. LlmService owns the
+ * prompt and the JSON response contract; providers only turn a system + user
+ * prompt into a completion and report token usage. Providers that can enforce
+ * a JSON schema (OpenAI structured outputs, Anthropic tool use) do so when one
+ * is given; the answer is validated by LlmService either way.
+ */
+
+/** Token counts for one completion */
+export interface LlmTokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+/** A conversation turn after the initial user prompt */
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** JSON schema the answer must follow, for providers that can enforce one */
+export interface LlmResponseSchema {
+  /** Identifier for the schema (OpenAI json_schema name / Anthropic tool name) */
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * What is being asked: the single best-matching entry, or the ordered steps
+ * (prerequisites first) needed to replay it
+ */
+export type LlmTask = 'identify' | 'flow';
+
+/** A single request to identify entries from the compact HAR summary */
+export interface LlmCompletionRequest {
+  task: LlmTask;
+  systemPrompt: string;
+  userPrompt: string;
+  /** Later turns, e.g. a rejected answer and the repair instructions */
+  followUps?: LlmMessage[];
+  /** Constrain the answer to this schema where the provider supports it */
+  responseSchema?: LlmResponseSchema;
+  maxTokens: number;
+  temperature: number;
+  /** The raw inputs behind the prompts, for providers that don't use text prompts */
+  entrySummary: string;
+  userDescription: string;
+  /** Earlier answers in a refinement session and the user's reply to each */
+  refinements?: LlmRefinement[];
+}
+
+/** An answer the user replied to, e.g. "no, the one that returns paginated results" */
+export interface LlmRefinement {
+  index: number;
+  explanation: string;
+  reply: string;
+}
+
+export interface LlmCompletion {
+  /** The model's answer — expected to be JSON, possibly wrapped in code fences */
+  content: string;
+  usage: LlmTokenUsage;
+}
+
+/**
+ * Base class for LLM providers. Also used as the Nest injection token, so
+ * LlmService depends on `LlmProvider` and the configured implementation is
+ * supplied by `llmProviderProvider`.
+ */
+export abstract class LlmProvider {
+  /** Provider identifier, e.g. "openai" or "heuristic" */
+  abstract readonly name: string;
+
+  /** Model name reported back to clients */
+  abstract readonly model: string;
+
+  /** Run one completion. Throws if the backend fails or returns nothing. */
+  abstract complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
@@ -0,0 +1,69 @@
+import OpenAI from 'openai';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from './llm-provider';
+
+/**
+ * Chat completions through the OpenAI SDK.
+ *
+ * With a `baseURL` the same client talks to any OpenAI-compatible server
+ * (Ollama, llama.cpp, vLLM, LM Studio), which is how local models are used.
+ * Structured outputs (`response_format: json_schema`) are only requested when
+ * `structuredOutputs` is set, since not every compatible server accepts them.
+ */
+export class OpenAiLlmProvider extends LlmProvider {
+  private readonly client: OpenAI;
+  private readonly structuredOutputs: boolean;
+
+  constructor(
+    readonly name: string,
+    readonly model: string,
+    options: { apiKey: string; baseURL?: string; structuredOutputs: boolean },
+  ) {
+    super();
+    const { structuredOutputs, ...clientOptions } = options;
+    this.client = new OpenAI(clientOptions);
+    this.structuredOutputs = structuredOutputs;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+        ...(request.followUps ?? []),
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(this.structuredOutputs &&
+        request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: request.responseSchema.name,
+              description: request.responseSchema.description,
+              schema: request.responseSchema.schema,
+              strict: true,
+            },
+          },
+        }),
+    });
+
+    const content = response.choices[0]?.message?.content?.trim();
+    if (!content) {
+      throw new Error('LLM returned an empty response');
+    }
+
+    return {
+      content,
+      usage: {
+        prompt: response.usage?.prompt_tokens ?? 0,
+        completion: response.usage?.completion_tokens ?? 0,
+        total: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Token Budget
+ *
+ * Rough prompt-size accounting so summaries that would overflow the model's
+ * context can be split up before they're sent. Estimates are deliberately
+ * pessimistic: URLs tokenize worse than prose.
+ */
+
+/** Average characters per token for URL-heavy summary text */
+const CHARS_PER_TOKEN = 3.5;
+
+/** Estimate how many tokens `text` costs in a prompt. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split lines into consecutive chunks whose estimated size stays within
+ * `maxTokens`. A single line larger than the budget gets a chunk of its own.
+ */
+export function chunkLines(lines: string[], maxTokens: number): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const line of lines) {
+    // +1 for the newline joining it to the previous line
+    const lineTokens = estimateTokens(line) + 1;
+    if (current.length > 0 && currentTokens + lineTokens > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(line);
+    currentTokens += lineTokens;
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
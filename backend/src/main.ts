@@ -17,8 +17,15 @@ async function bootstrap() {
   // Enable CORS for frontend communication
   app.enableCors({
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
-    methods: ['GET', 'POST'],
+    methods: ['GET', 'POST', 'DELETE'],
     allowedHeaders: ['Content-Type'],
+    // Metadata of raw execute downloads, which have no JSON body to carry it
+    exposedHeaders: [
+      'X-Upstream-Status',
+      'X-Max-Bytes',
+      'X-Truncated',
+      'Content-Disposition',
+    ],
   });
 
   // Global prefix for all API routes
@@ -8,6 +8,9 @@
  *   2. Inspect the parsed HTTP requests (filtered vs all)
  *   3. Describe the API to find (free-text input)
  *   4. View the LLM result: curl command, AI candidates, token stats
+ *      (or a curl generated directly from an inspector row, without the LLM);
+ *      in flow mode also the prerequisite requests and a script chaining them,
+ *      in single mode a conversation panel to reply to a wrong match
  *   5. Execute the curl command and view the live API response
  *
  * Steps are progressively revealed as the user completes each one.
@@ -18,18 +21,45 @@ import { toast, Toaster } from 'sonner';
 import { FileUpload } from '@/components/FileUpload';
 import { RequestInspector } from '@/components/RequestInspector';
 import { CurlDisplay } from '@/components/CurlDisplay';
+import { FlowDisplay } from '@/components/FlowDisplay';
+import { ConversationPanel } from '@/components/ConversationPanel';
 import { ResponseViewer } from '@/components/ResponseViewer';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { uploadHarFile, analyzeHar, executeRequest } from '@/lib/api';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  uploadHarFile,
+  analyzeHar,
+  refineAnalysis,
+  executeRequest,
+  generateEntryCurl,
+  exportPostmanCollection,
+  exportOpenApi,
+  fetchWebSocketMessages,
+} from '@/lib/api';
 import {
   CompactEntry,
+  AnalyzeMode,
   AnalyzeResponse,
+  CurlResponse,
+  EntryScope,
   ExecuteResponse,
+  Matcher,
+  SNIPPET_LANGUAGES,
 } from '@/types/har';
 
+/** Save a blob through a temporary download link. */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export default function Home() {
   // File upload state
   const [currentFile, setCurrentFile] = useState<File | null>(null);
@@ -45,10 +75,19 @@ export default function Home() {
 
   // Analysis state
   const [description, setDescription] = useState('');
+  const [matcher, setMatcher] = useState<Matcher>('llm');
+  const [mode, setMode] = useState<AnalyzeMode>('single');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState<AnalyzeResponse | null>(
-    null,
-  );
+  const [isRefining, setIsRefining] = useState(false);
+  const [analysisResult, setAnalysisResult] = useState<
+    AnalyzeResponse | CurlResponse | null
+  >(null);
+  const [resultScope, setResultScope] = useState<EntryScope>('filtered');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Only LLM analyses carry explanation, candidates and token stats
+  const llmResult =
+    analysisResult && 'explanation' in analysisResult ? analysisResult : null;
 
   // Execution state
   const [isExecuting, setIsExecuting] = useState(false);
@@ -84,7 +123,7 @@ export default function Home() {
   };
 
   /**
-   * Handle analysis — send description to LLM.
+   * Handle analysis — send description to the selected matcher.
    */
   const handleAnalyze = async () => {
     if (!harId || !description.trim()) return;
@@ -94,9 +133,21 @@ export default function Home() {
     setExecuteResponse(null);
 
     try {
-      const result = await analyzeHar(harId, description, { reasoning: false });
+      const result = await analyzeHar(harId, description, {
+        reasoning: false,
+        languages: SNIPPET_LANGUAGES,
+        matcher,
+        mode,
+      });
       setAnalysisResult(result);
-      toast.success('Found matching API request');
+      setResultScope('filtered');
+      toast.success(
+        result.matcher === 'lexical'
+          ? 'Found matching API request (lexical, no LLM call)'
+          : result.cached
+            ? 'Found matching API request (cached, no LLM call)'
+            : 'Found matching API request',
+      );
     } catch (error) {
       toast.error(
         error instanceof Error ? error.message : 'Analysis failed',
@@ -106,6 +157,97 @@ export default function Home() {
     }
   };
 
+  /**
+   * Handle a reply to the current analysis — ask again with the conversation
+   * so far. Errors are rethrown so the panel keeps the unsent reply.
+   */
+  const handleRefine = async (message: string) => {
+    const sessionId = llmResult?.session?.id;
+    if (!sessionId) return;
+
+    setIsRefining(true);
+    setExecuteResponse(null);
+
+    try {
+      const result = await refineAnalysis(sessionId, message);
+      setAnalysisResult(result);
+      setResultScope('filtered');
+      toast.success(`Updated match: request #${result.matchedEntry.index}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Refinement failed',
+      );
+      throw error;
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  /**
+   * Handle direct curl generation for an inspector row — no LLM call.
+   */
+  const handleGenerateCurl = async (index: number, scope: EntryScope) => {
+    if (!harId) return;
+
+    setIsGenerating(true);
+    setExecuteResponse(null);
+
+    try {
+      const result = await generateEntryCurl(
+        harId,
+        index,
+        scope,
+        SNIPPET_LANGUAGES,
+      );
+      setAnalysisResult(result);
+      setResultScope(scope);
+      toast.success(`Generated curl for request #${index}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Curl generation failed',
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Download the current result's entry as a Postman collection.
+   */
+  const handleExportPostman = async () => {
+    if (!harId || !analysisResult) return;
+
+    const index = analysisResult.matchedEntry.index;
+    try {
+      const blob = await exportPostmanCollection(harId, [index], resultScope);
+      downloadBlob(blob, `request-${index}.postman_collection.json`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
+  /**
+   * Download an OpenAPI spec inferred from the API requests.
+   */
+  const handleExportOpenApi = async (format: 'json' | 'yaml') => {
+    if (!harId) return;
+
+    try {
+      const blob = await exportOpenApi(harId, format);
+      downloadBlob(blob, `openapi.${format}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
+  /**
+   * Load the frames of a WebSocket row the user expands in the inspector.
+   */
+  const handleLoadWebSocketMessages = async (index: number, scope: EntryScope) => {
+    if (!harId) return [];
+    return fetchWebSocketMessages(harId, index, scope);
+  };
+
   /**
    * Handle curl execution through backend proxy.
    */
@@ -116,12 +258,16 @@ export default function Home() {
 
     try {
       const details = analysisResult.requestDetails;
-      const result = await executeRequest({
-        url: details.url,
-        method: details.method,
-        headers: details.headers,
-        body: details.body,
-      });
+      const result = await executeRequest(
+        {
+          url: details.url,
+          method: details.method,
+          headers: details.headers,
+          body: details.body,
+        },
+        // Show streamed responses as they arrive
+        setExecuteResponse,
+      );
       setExecuteResponse(result);
       toast.success(`Response received: ${result.status} ${result.statusText}`);
     } catch (error) {
@@ -197,6 +343,11 @@ export default function Home() {
                 allEntries={allEntries}
                 stats={stats}
                 highlightedIndex={analysisResult?.matchedEntry.index ?? null}
+                highlightedScope={resultScope}
+                onGenerateCurl={handleGenerateCurl}
+                isGenerating={isGenerating}
+                onExportOpenApi={handleExportOpenApi}
+                onLoadWebSocketMessages={handleLoadWebSocketMessages}
               />
             </section>
 
@@ -221,7 +372,30 @@ export default function Home() {
                       rows={3}
                       className="resize-none"
                     />
-                    <div className="flex justify-end">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Tabs
+                          value={matcher}
+                          onValueChange={(value) => setMatcher(value as Matcher)}
+                        >
+                          <TabsList>
+                            <TabsTrigger value="llm">AI</TabsTrigger>
+                            <TabsTrigger value="hybrid">Hybrid</TabsTrigger>
+                            <TabsTrigger value="lexical">Lexical (no AI)</TabsTrigger>
+                          </TabsList>
+                        </Tabs>
+                        <Tabs
+                          value={mode}
+                          onValueChange={(value) => setMode(value as AnalyzeMode)}
+                        >
+                          <TabsList>
+                            <TabsTrigger value="single">Single request</TabsTrigger>
+                            <TabsTrigger value="flow" title="Also find the login, token or CSRF requests it depends on">
+                              Flow
+                            </TabsTrigger>
+                          </TabsList>
+                        </Tabs>
+                      </div>
                       <Button
                         onClick={handleAnalyze}
                         disabled={
@@ -249,7 +423,9 @@ export default function Home() {
                                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
                               />
                             </svg>
-                            Analyzing with AI...
+                            {matcher === 'lexical'
+                              ? 'Ranking requests...'
+                              : 'Analyzing with AI...'}
                           </span>
                         ) : (
                           'Find API Request'
@@ -274,20 +450,46 @@ export default function Home() {
                 </span>
                 <h2 className="text-sm font-medium">Result</h2>
               </div>
+              {llmResult?.flow && (
+                <div className="mb-4">
+                  <FlowDisplay
+                    steps={llmResult.flow.steps}
+                    script={llmResult.flow.script}
+                  />
+                </div>
+              )}
               <CurlDisplay
                 curl={analysisResult.curl}
-                explanation={analysisResult.explanation}
-                reasoning={analysisResult.reasoning}
-                candidates={analysisResult.candidates}
+                snippets={analysisResult.snippets}
+                websocket={analysisResult.websocket}
+                explanation={
+                  llmResult?.explanation ??
+                  `Generated directly from request #${analysisResult.matchedEntry.index} (${resultScope === 'all' ? 'all requests' : 'API requests'}) — no LLM call.`
+                }
+                reasoning={llmResult?.reasoning}
+                candidates={llmResult?.candidates}
                 matchedIndex={analysisResult.matchedEntry.index}
+                dependsOn={analysisResult.dependsOn}
                 onExecute={handleExecute}
                 isExecuting={isExecuting}
-                tokenUsage={analysisResult.tokenUsage}
-                model={analysisResult.model}
-                entriesAnalyzed={analysisResult.entriesAnalyzed}
-                totalEntries={analysisResult.totalEntries}
-                llmLatency={analysisResult.llmLatency}
+                onExportPostman={handleExportPostman}
+                tokenUsage={llmResult?.tokenUsage}
+                model={llmResult?.model}
+                entriesAnalyzed={llmResult?.entriesAnalyzed}
+                patternsDropped={llmResult?.patternsDropped}
+                totalEntries={llmResult?.totalEntries}
+                llmLatency={llmResult?.llmLatency}
+                cached={llmResult?.cached}
               />
+              {llmResult?.session && (
+                <div className="mt-4">
+                  <ConversationPanel
+                    turns={llmResult.session.turns}
+                    onReply={handleRefine}
+                    isReplying={isRefining}
+                  />
+                </div>
+              )}
             </section>
           </>
         )}
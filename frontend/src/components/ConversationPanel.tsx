@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * ConversationPanel — Lets the user reply to an analysis result.
+ *
+ * Shows the conversation so far (the description, each match with its
+ * explanation, and each reply) and a reply box. A reply such as
+ * "no, the one that returns paginated results" or "exclude graphql" asks
+ * the LLM again with the whole conversation as context, instead of starting
+ * a fresh analysis.
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { AnalysisTurn } from '@/types/har';
+
+interface ConversationPanelProps {
+  turns: AnalysisTurn[];
+  onReply: (message: string) => Promise<void>;
+  isReplying: boolean;
+}
+
+export function ConversationPanel({ turns, onReply, isReplying }: ConversationPanelProps) {
+  const [message, setMessage] = useState('');
+
+  /** Send the reply; the box is cleared only once the new match arrives. */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!message.trim() || isReplying) return;
+    try {
+      await onReply(message.trim());
+      setMessage('');
+    } catch {
+      // The page reports the error; keep the text so it can be sent again
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Not the right request?</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ol className="space-y-2">
+          {turns.map((turn, i) => (
+            <li
+              key={i}
+              className={`rounded-md border px-3 py-2 text-xs ${
+                turn.role === 'user'
+                  ? 'border-border bg-muted/30 mr-12'
+                  : 'border-primary/30 bg-primary/5 ml-12'
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="font-medium">{turn.role === 'user' ? 'You' : 'Match'}</span>
+                {turn.index !== undefined && (
+                  <Badge variant="outline" className="font-mono text-[10px] px-1.5 py-0">
+                    #{turn.index}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-foreground/80 leading-relaxed">{turn.content}</p>
+            </li>
+          ))}
+        </ol>
+
+        <form className="flex gap-2" onSubmit={handleSubmit}>
+          <Input
+            value={message}
+            onChange={(event) => setMessage(event.target.value)}
+            placeholder='e.g. "no, the one that returns paginated results" or "exclude graphql"'
+            disabled={isReplying}
+          />
+          <Button type="submit" size="sm" className="h-9" disabled={isReplying || !message.trim()}>
+            {isReplying ? 'Asking...' : 'Reply'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,50 +7,101 @@
  * 1. Dedup info banner — shown when entries were condensed before LLM analysis
  * 2. AI Analysis panel — collapsible; shows reasoning text and candidate list
  *    with confidence bars (sorted by confidence, best match highlighted)
- * 3. Curl command — copyable code block with Copy and Execute buttons
- * 4. Token usage stats — model, prompt/completion/total tokens, latency
+ * 3. Curl command — copyable code block with Copy, Postman export and Execute buttons, plus
+ *    language tabs when code snippets were generated alongside curl, and the
+ *    values it sends that earlier responses returned ("Depends on"). WebSocket
+ *    matches show websocat and Node replay scripts instead, without Execute
+ *    or Postman export (neither speaks WebSocket)
+ * 4. Token usage stats — model, prompt/completion/total tokens, latency, and
+ *    whether the answer came from the backend's analysis cache
  */
 
 import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CurlResponse, SNIPPET_LANGUAGES, SnippetLanguage, ValueDependency } from '@/types/har';
+
+/** Tab labels for each snippet language */
+const LANGUAGE_LABELS: Record<SnippetLanguage, string> = {
+  python: 'Python',
+  fetch: 'fetch',
+  axios: 'axios',
+  go: 'Go',
+  httpie: 'HTTPie',
+  powershell: 'PowerShell',
+};
+
+/** What the code block shows: curl (websocat for WebSockets), a snippet, or the Node WebSocket script */
+type CodeTab = 'curl' | SnippetLanguage | 'node';
 
 interface CurlDisplayProps {
   curl: string;
+  snippets?: Partial<Record<SnippetLanguage, string>>;
+  /** WebSocket matches: replay scripts (`curl` is then the websocat one) */
+  websocket?: CurlResponse['websocket'];
   explanation: string;
   reasoning?: string;
   candidates?: Array<{ index: number; url: string; reason: string; confidence: number }>;
   matchedIndex?: number;
+  /** Values the request sends that earlier responses returned */
+  dependsOn?: ValueDependency[];
   onExecute: () => void;
   isExecuting: boolean;
+  onExportPostman?: () => void;
   tokenUsage?: { prompt: number; completion: number; total: number };
   model?: string;
   entriesAnalyzed?: number;
+  /** Unique patterns left out of the LLM prompt by lexical pre-ranking */
+  patternsDropped?: number;
   totalEntries?: number;
   llmLatency?: number;
+  /** The LLM answer was served from the analysis cache (zero tokens) */
+  cached?: boolean;
 }
 
 export function CurlDisplay({
   curl,
+  snippets,
+  websocket,
   explanation,
   reasoning,
   candidates,
   matchedIndex,
+  dependsOn = [],
   onExecute,
   isExecuting,
+  onExportPostman,
   tokenUsage,
   model,
   entriesAnalyzed,
+  patternsDropped = 0,
   totalEntries,
   llmLatency,
+  cached = false,
 }: CurlDisplayProps) {
   const [copied, setCopied] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
+  const [language, setLanguage] = useState<CodeTab>('curl');
 
-  /** Copy the curl command to clipboard with a 2-second "Copied" feedback. */
+  // Only offer tabs for languages the backend actually returned
+  const languages = SNIPPET_LANGUAGES.filter((lang) => snippets?.[lang]);
+  const code =
+    language === 'node'
+      ? (websocket?.node ?? curl)
+      : (language !== 'curl' && snippets?.[language]) || curl;
+  const title = websocket
+    ? language === 'node'
+      ? 'Node WebSocket Script'
+      : 'websocat Replay Command'
+    : language === 'curl' || language === 'node'
+      ? 'Generated curl Command'
+      : `Generated ${LANGUAGE_LABELS[language]} Snippet`;
+
+  /** Copy the displayed command/snippet to clipboard with a 2-second "Copied" feedback. */
   const handleCopy = async () => {
-    await navigator.clipboard.writeText(curl);
+    await navigator.clipboard.writeText(code);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -68,8 +119,14 @@ export function CurlDisplay({
               <span className="font-medium text-blue-800 dark:text-blue-300">Smart deduplication: </span>
               <span className="text-blue-700 dark:text-blue-400">
                 {totalEntries} API requests were condensed into{' '}
-                <span className="font-semibold">{entriesAnalyzed} unique patterns</span>{' '}
+                <span className="font-semibold">{entriesAnalyzed + patternsDropped} unique patterns</span>{' '}
                 before sending to the LLM. Duplicate endpoints with different parameter values are grouped together.
+                {patternsDropped > 0 && (
+                  <>
+                    {' '}Only the <span className="font-semibold">{entriesAnalyzed} most relevant</span> were sent;{' '}
+                    {patternsDropped} were dropped by lexical pre-ranking.
+                  </>
+                )}
               </span>
             </div>
           </div>
@@ -184,7 +241,9 @@ export function CurlDisplay({
       <Card>
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
-            <CardTitle className="text-lg">Generated curl Command</CardTitle>
+            <CardTitle className="text-lg">
+              {title}
+            </CardTitle>
             <div className="flex gap-2">
               <Button variant="outline" size="sm" onClick={handleCopy}>
                 {copied ? (
@@ -203,25 +262,37 @@ export function CurlDisplay({
                   </span>
                 )}
               </Button>
-              <Button size="sm" onClick={onExecute} disabled={isExecuting}>
-                {isExecuting ? (
-                  <span className="flex items-center gap-1">
-                    <svg className="h-3.5 w-3.5 animate-spin" viewBox="0 0 24 24" fill="none">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                    </svg>
-                    Executing...
-                  </span>
-                ) : (
+              {onExportPostman && !websocket && (
+                <Button variant="outline" size="sm" onClick={onExportPostman} title="Download as Postman collection">
                   <span className="flex items-center gap-1">
                     <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                     </svg>
-                    Execute
+                    Postman
                   </span>
-                )}
-              </Button>
+                </Button>
+              )}
+              {!websocket && (
+                <Button size="sm" onClick={onExecute} disabled={isExecuting}>
+                  {isExecuting ? (
+                    <span className="flex items-center gap-1">
+                      <svg className="h-3.5 w-3.5 animate-spin" viewBox="0 0 24 24" fill="none">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                      </svg>
+                      Executing...
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1">
+                      <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      Execute
+                    </span>
+                  )}
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -272,14 +343,72 @@ export function CurlDisplay({
                   </div>
                 </>
               )}
+              {cached && (
+                <>
+                  <div className="h-4 w-px bg-border" />
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0" title="Identical analysis answered from the cache; no tokens spent">
+                    Cached
+                  </Badge>
+                </>
+              )}
             </div>
           )}
 
+          {websocket && (
+            <p className="text-xs text-muted-foreground">
+              Reconnects with the captured headers and replays the {websocket.sent} sent{' '}
+              {websocket.sent === 1 ? 'frame' : 'frames'} ({websocket.received} received in the capture).
+            </p>
+          )}
+
+          {websocket && (
+            <Tabs value={language} onValueChange={(value) => setLanguage(value as CodeTab)}>
+              <TabsList>
+                <TabsTrigger value="curl">websocat</TabsTrigger>
+                <TabsTrigger value="node">Node (ws)</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {languages.length > 0 && (
+            <Tabs
+              value={language}
+              onValueChange={(value) => setLanguage(value as CodeTab)}
+            >
+              <TabsList>
+                <TabsTrigger value="curl">curl</TabsTrigger>
+                {languages.map((lang) => (
+                  <TabsTrigger key={lang} value={lang}>
+                    {LANGUAGE_LABELS[lang]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          )}
+
           <div className="relative">
             <pre className="bg-muted rounded-lg p-4 overflow-x-auto text-sm font-mono leading-relaxed">
-              <code>{curl}</code>
+              <code>{code}</code>
             </pre>
           </div>
+
+          {/* Values this request needs from earlier responses */}
+          {dependsOn.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Depends on</p>
+              <ul className="space-y-1 text-xs">
+                {dependsOn.map((dependency, i) => (
+                  <li key={i} className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-1.5">
+                    <span className="font-mono text-muted-foreground">[{dependency.fromIndex}]</span>
+                    <span className="flex-1 truncate" title={dependency.description}>
+                      {dependency.description}
+                    </span>
+                    <code className="font-mono text-muted-foreground">{dependency.preview}</code>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -3,7 +3,8 @@
 /**
  * FileUpload — Drag-and-drop HAR file upload component.
  *
- * Provides a drop zone and file picker for .har files (up to 150MB).
+ * Provides a drop zone and file picker for .har files (up to 150MB),
+ * optionally gzip, brotli or zip compressed.
  * Files are immediately passed to the parent via `onFileSelected` for upload.
  */
 
@@ -20,9 +21,18 @@ interface FileUploadProps {
   currentFile: File | null;
 }
 
+/** File extensions accepted by the backend upload endpoint. */
+const HAR_FILE_EXTENSIONS = ['.har', '.gz', '.br', '.zip'];
+
+/** Check a file name against the accepted HAR / archive extensions. */
+function isHarFileName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return HAR_FILE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
 /**
  * Drag-and-drop file upload zone with fallback file picker.
- * Only accepts files with the .har extension.
+ * Only accepts .har files and compressed HAR archives (see HAR_FILE_EXTENSIONS).
  */
 export function FileUpload({
   onFileSelected,
@@ -49,7 +59,7 @@ export function FileUpload({
     setIsDragging(false);
   }, []);
 
-  /** Validate dropped file has .har extension before forwarding to parent. */
+  /** Validate dropped file has a supported extension before forwarding to parent. */
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -59,7 +69,7 @@ export function FileUpload({
       const files = e.dataTransfer.files;
       if (files?.length > 0) {
         const file = files[0];
-        if (file.name.endsWith('.har')) {
+        if (isHarFileName(file.name)) {
           onFileSelected(file);
         }
       }
@@ -122,7 +132,7 @@ export function FileUpload({
                   Drop your .har file here, or click to browse
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Supports HTTP Archive (.har) files up to 150MB
+                  Supports HTTP Archive (.har) files up to 150MB, plain or as .gz, .br or .zip
                 </p>
               </div>
             )}
@@ -139,7 +149,7 @@ export function FileUpload({
             <input
               id="har-file-input"
               type="file"
-              accept=".har"
+              accept={HAR_FILE_EXTENSIONS.join(',')}
               className="hidden"
               onChange={handleFileInput}
             />
@@ -0,0 +1,77 @@
+'use client';
+
+/**
+ * FlowDisplay — Shows a multi-request flow found in flow mode.
+ *
+ * Lists the steps in run order (prerequisites such as a login or CSRF fetch
+ * first, the matched request last) with what each one is for, and the bash
+ * script that runs them with captured values passed between requests.
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FlowStep } from '@/types/har';
+
+interface FlowDisplayProps {
+  steps: FlowStep[];
+  script: string;
+}
+
+export function FlowDisplay({ steps, script }: FlowDisplayProps) {
+  const [copied, setCopied] = useState(false);
+
+  /** Copy the script to clipboard with a 2-second "Copied" feedback. */
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(script);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">
+            Request Flow
+            <Badge variant="secondary" className="text-xs ml-2 align-middle">
+              {steps.length} {steps.length === 1 ? 'step' : 'steps'}
+            </Badge>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy script'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ol className="space-y-2">
+          {steps.map((step, i) => (
+            <li
+              key={step.index}
+              className={`rounded-md border px-3 py-2 text-xs ${
+                i === steps.length - 1
+                  ? 'border-primary/30 bg-primary/5'
+                  : 'border-border bg-muted/30'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{i + 1}.</span>
+                <Badge variant="outline" className="font-mono text-[10px] px-1.5 py-0">
+                  {step.method}
+                </Badge>
+                <span className="font-mono truncate flex-1">{step.url}</span>
+                <span className="font-mono text-muted-foreground">[{step.index}]</span>
+              </div>
+              <p className="text-muted-foreground mt-1">{step.purpose}</p>
+            </li>
+          ))}
+        </ol>
+
+        <pre className="bg-muted rounded-lg p-4 overflow-x-auto text-sm font-mono leading-relaxed">
+          <code>{script}</code>
+        </pre>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,12 +5,21 @@
  *
  * Displays two tabs: "API Requests" (filtered) and "All Requests" (unfiltered).
  * The LLM-matched entry is highlighted with a primary-color left border.
- * Shows filtering stats (total / removed / kept) in the header.
+ * GraphQL rows show their operation next to the URL, since every operation
+ * goes to the same endpoint. WebSocket rows show a badge and can be expanded
+ * to list the frames the socket exchanged, and streaming responses are
+ * tagged SSE or NDJSON.
+ * Each row has a "curl" action that generates a curl command directly,
+ * without an LLM call.
+ * Shows filtering stats (total / removed / kept) in the header, plus
+ * OpenAPI export buttons when an export handler is provided.
  */
 
-import { useState } from 'react';
-import { CompactEntry } from '@/types/har';
+import { Fragment, useState } from 'react';
+import { CompactEntry, EntryScope, WebSocketMessage } from '@/types/har';
+import { WebSocketFrames } from '@/components/WebSocketFrames';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -30,8 +39,25 @@ interface RequestInspectorProps {
   allEntries: CompactEntry[];
   /** Filtering statistics: how many entries were kept vs removed. */
   stats: { total: number; removed: number; kept: number } | null;
-  /** Index of the LLM-matched entry to highlight in the table, or null. */
+  /** Index of the matched entry to highlight in the table, or null. */
   highlightedIndex: number | null;
+  /** Which tab `highlightedIndex` refers to (filtered and all indices differ). */
+  highlightedScope: EntryScope;
+  /** Called when the user asks for a curl command for a specific row. */
+  onGenerateCurl: (index: number, scope: EntryScope) => void;
+  /** True while a direct curl generation request is in flight. */
+  isGenerating: boolean;
+  /** Called to download an OpenAPI spec inferred from the API requests. */
+  onExportOpenApi?: (format: 'json' | 'yaml') => void;
+  /** Loads the frames of a WebSocket row when it is expanded. */
+  onLoadWebSocketMessages?: (index: number, scope: EntryScope) => Promise<WebSocketMessage[]>;
+}
+
+/** The expanded WebSocket row and its frames (null while loading) */
+interface ExpandedFrames {
+  index: number;
+  messages: WebSocketMessage[] | null;
+  error: string | null;
 }
 
 /** Map HTTP method to a color-coded Tailwind class (supports dark mode). */
@@ -78,10 +104,38 @@ function truncateUrl(url: string, maxLength = 80): string {
 function RequestTable({
   entries,
   highlightedIndex,
+  onGenerateCurl,
+  isGenerating,
+  onLoadMessages,
 }: {
   entries: CompactEntry[];
   highlightedIndex: number | null;
+  onGenerateCurl: (index: number) => void;
+  isGenerating: boolean;
+  onLoadMessages?: (index: number) => Promise<WebSocketMessage[]>;
 }) {
+  const [expanded, setExpanded] = useState<ExpandedFrames | null>(null);
+
+  /** Expand a WebSocket row (collapsing any other) and load its frames. */
+  const toggleFrames = async (index: number) => {
+    if (!onLoadMessages || expanded?.index === index) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded({ index, messages: null, error: null });
+    try {
+      const messages = await onLoadMessages(index);
+      setExpanded((current) =>
+        current?.index === index ? { ...current, messages } : current,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load frames';
+      setExpanded((current) =>
+        current?.index === index ? { ...current, error: message } : current,
+      );
+    }
+  };
+
   return (
     <ScrollArea className="h-[300px] rounded-md border">
       <Table>
@@ -93,47 +147,99 @@ function RequestTable({
             <TableHead className="w-[70px]">Status</TableHead>
             <TableHead className="w-[120px]">Type</TableHead>
             <TableHead className="w-[80px] text-right">Size</TableHead>
+            <TableHead className="w-[60px]" />
           </TableRow>
         </TableHeader>
         <TableBody>
           {entries.map((entry) => (
-            <TableRow
-              key={entry.index}
-              className={
-                highlightedIndex === entry.index
-                  ? 'bg-primary/10 border-l-2 border-l-primary'
-                  : ''
-              }
-            >
-              <TableCell className="font-mono text-xs text-muted-foreground">
-                {entry.index}
-              </TableCell>
-              <TableCell>
-                <Badge
-                  variant="secondary"
-                  className={`font-mono text-xs ${getMethodColor(entry.method)}`}
-                >
-                  {entry.method}
-                </Badge>
-              </TableCell>
-              <TableCell
-                className="font-mono text-xs max-w-[400px] truncate"
-                title={entry.url}
-              >
-                {truncateUrl(entry.url)}
-              </TableCell>
-              <TableCell
-                className={`font-mono text-xs font-medium ${getStatusColor(entry.status)}`}
+            <Fragment key={entry.index}>
+              <TableRow
+                className={
+                  highlightedIndex === entry.index
+                    ? 'bg-primary/10 border-l-2 border-l-primary'
+                    : ''
+                }
               >
-                {entry.status}
-              </TableCell>
-              <TableCell className="text-xs text-muted-foreground truncate max-w-[120px]">
+                <TableCell className="font-mono text-xs text-muted-foreground">
+                  {entry.index}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant="secondary"
+                    className={`font-mono text-xs ${getMethodColor(entry.method)}`}
+                  >
+                    {entry.method}
+                  </Badge>
+                </TableCell>
+                <TableCell
+                  className="font-mono text-xs max-w-[400px] truncate"
+                  title={
+                    entry.graphql
+                      ? `${entry.url}\nGraphQL ${entry.graphql}`
+                      : entry.websocket
+                        ? `${entry.url}\nWebSocket: ${entry.websocket}`
+                        : entry.url
+                  }
+                >
+                  {entry.websocket && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 mr-1.5">
+                      WebSocket
+                    </Badge>
+                  )}
+                  {entry.graphql && (
+                    <Badge variant="outline" className="font-mono text-[10px] px-1.5 py-0 mr-1.5">
+                      {entry.graphql}
+                    </Badge>
+                  )}
+                  {truncateUrl(entry.url)}
+                </TableCell>
+                <TableCell
+                  className={`font-mono text-xs font-medium ${getStatusColor(entry.status)}`}
+                >
+                  {entry.status}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground truncate max-w-[120px]">
+                  {entry.streaming && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 mr-1.5" title="Streaming response">
+                    {entry.streaming === 'sse' ? 'SSE' : 'NDJSON'}
+                  </Badge>
+                )}
                 {entry.responseType}
-              </TableCell>
-              <TableCell className="text-xs text-right text-muted-foreground">
-                {formatBytes(entry.responseSize)}
-              </TableCell>
-            </TableRow>
+                </TableCell>
+                <TableCell className="text-xs text-right text-muted-foreground">
+                  {formatBytes(entry.responseSize)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {entry.websocket && onLoadMessages && (
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      title={`Show frames (${entry.websocket})`}
+                      onClick={() => toggleFrames(entry.index)}
+                    >
+                      {expanded?.index === entry.index ? 'hide' : 'frames'}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="xs"
+                    className="font-mono"
+                    title={entry.websocket ? 'Generate replay scripts (no LLM)' : 'Generate curl (no LLM)'}
+                    disabled={isGenerating}
+                    onClick={() => onGenerateCurl(entry.index)}
+                  >
+                    {entry.websocket ? 'script' : 'curl'}
+                  </Button>
+                </TableCell>
+              </TableRow>
+              {expanded?.index === entry.index && (
+                <TableRow>
+                  <TableCell colSpan={7} className="bg-muted/30">
+                    <WebSocketFrames messages={expanded.messages} error={expanded.error} />
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
           ))}
         </TableBody>
       </Table>
@@ -146,6 +252,11 @@ export function RequestInspector({
   allEntries,
   stats,
   highlightedIndex,
+  highlightedScope,
+  onGenerateCurl,
+  isGenerating,
+  onExportOpenApi,
+  onLoadWebSocketMessages,
 }: RequestInspectorProps) {
   if (entries.length === 0) {
     return null;
@@ -155,7 +266,29 @@ export function RequestInspector({
     <Card>
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
-          <CardTitle className="text-lg">Request Inspector</CardTitle>
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-lg">Request Inspector</CardTitle>
+            {onExportOpenApi && (
+              <>
+                <Button
+                  variant="outline"
+                  size="xs"
+                  title="Download an OpenAPI 3.1 spec inferred from the API requests"
+                  onClick={() => onExportOpenApi('yaml')}
+                >
+                  OpenAPI YAML
+                </Button>
+                <Button
+                  variant="outline"
+                  size="xs"
+                  title="Download an OpenAPI 3.1 spec inferred from the API requests"
+                  onClick={() => onExportOpenApi('json')}
+                >
+                  JSON
+                </Button>
+              </>
+            )}
+          </div>
           {stats && (
             <div className="flex gap-2 text-xs text-muted-foreground">
               <span>{stats.total} total</span>
@@ -180,10 +313,28 @@ export function RequestInspector({
             </TabsTrigger>
           </TabsList>
           <TabsContent value="filtered">
-            <RequestTable entries={entries} highlightedIndex={highlightedIndex} />
+            <RequestTable
+              entries={entries}
+              highlightedIndex={highlightedScope === 'filtered' ? highlightedIndex : null}
+              onGenerateCurl={(index) => onGenerateCurl(index, 'filtered')}
+              isGenerating={isGenerating}
+              onLoadMessages={
+                onLoadWebSocketMessages &&
+                ((index) => onLoadWebSocketMessages(index, 'filtered'))
+              }
+            />
           </TabsContent>
           <TabsContent value="all">
-            <RequestTable entries={allEntries} highlightedIndex={highlightedIndex} />
+            <RequestTable
+              entries={allEntries}
+              highlightedIndex={highlightedScope === 'all' ? highlightedIndex : null}
+              onGenerateCurl={(index) => onGenerateCurl(index, 'all')}
+              isGenerating={isGenerating}
+              onLoadMessages={
+                onLoadWebSocketMessages &&
+                ((index) => onLoadWebSocketMessages(index, 'all'))
+              }
+            />
           </TabsContent>
         </Tabs>
       </CardContent>
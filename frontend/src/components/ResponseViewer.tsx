@@ -6,12 +6,18 @@
  * Shows a tabbed view with:
  * - Body tab: auto-formatted JSON (or raw text if not valid JSON)
  * - Headers tab: key-value list of response headers
+ * - Redirects tab (when any were followed): each hop's status, target and time
  * Status badge is color-coded (green 2xx, yellow 3xx, red 4xx/5xx).
+ * Streamed responses (SSE, NDJSON) fill in as they arrive, with a badge
+ * saying whether more is coming and a note if the stream broke off.
+ * Binary bodies arrive as base64 and are offered as a download instead of
+ * shown; bodies cut at the proxy's byte cap say so.
  */
 
 import { ExecuteResponse } from '@/types/har';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
@@ -35,8 +41,30 @@ function formatJson(text: string): string {
   }
 }
 
+/** Format a byte count as a human-readable string (B, KB, or MB). */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1048576).toFixed(1)} MB`;
+}
+
+/** Save a base64 body as a file of its content type. */
+function downloadBase64(body: string, contentType: string | undefined) {
+  const bytes = Uint8Array.from(atob(body), (char) => char.charCodeAt(0));
+  const url = URL.createObjectURL(
+    new Blob([bytes], { type: contentType || 'application/octet-stream' }),
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'response';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export function ResponseViewer({ response }: ResponseViewerProps) {
-  const formattedBody = formatJson(response.body);
+  const binary = response.encoding === 'base64';
+  const redirects = response.redirects ?? [];
+  const formattedBody = binary ? '' : formatJson(response.body);
 
   return (
     <Card>
@@ -47,7 +75,14 @@ export function ResponseViewer({ response }: ResponseViewerProps) {
             <Badge variant="secondary" className={getStatusBadgeVariant(response.status)}>
               {response.status} {response.statusText}
             </Badge>
-            <span className="text-muted-foreground">{response.duration}ms</span>
+            {response.streamed && (
+              <Badge variant="outline" className={response.streaming ? 'animate-pulse' : ''}>
+                {response.streaming ? 'Streaming...' : 'Streamed'}
+              </Badge>
+            )}
+            <span className="text-muted-foreground">
+              {response.streaming ? '...' : `${response.duration}ms`}
+            </span>
           </div>
         </div>
       </CardHeader>
@@ -58,13 +93,44 @@ export function ResponseViewer({ response }: ResponseViewerProps) {
             <TabsTrigger value="headers">
               Headers ({Object.keys(response.headers).length})
             </TabsTrigger>
+            {redirects.length > 0 && (
+              <TabsTrigger value="redirects">Redirects ({redirects.length})</TabsTrigger>
+            )}
           </TabsList>
           <TabsContent value="body">
-            <ScrollArea className="h-[400px] rounded-md border">
-              <pre className="p-4 text-xs font-mono leading-relaxed">
-                <code>{formattedBody}</code>
-              </pre>
-            </ScrollArea>
+            {response.streamError && (
+              <p className="mb-2 text-xs text-red-600 dark:text-red-400">
+                Stream ended early: {response.streamError}
+              </p>
+            )}
+            {response.truncated && (
+              <p className="mb-2 text-xs text-yellow-700 dark:text-yellow-400">
+                Body truncated
+                {response.size !== undefined && ` after ${formatBytes(response.size)}`} (the
+                proxy&apos;s size limit); run the curl command for the full response.
+              </p>
+            )}
+            {binary ? (
+              <div className="flex items-center justify-between rounded-md border p-4 text-sm">
+                <span className="text-muted-foreground">
+                  Binary body ({response.headers['content-type'] || 'unknown type'}
+                  {response.size !== undefined && `, ${formatBytes(response.size)}`})
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadBase64(response.body, response.headers['content-type'])}
+                >
+                  Download
+                </Button>
+              </div>
+            ) : (
+              <ScrollArea className="h-[400px] rounded-md border">
+                <pre className="p-4 text-xs font-mono leading-relaxed">
+                  <code>{formattedBody}</code>
+                </pre>
+              </ScrollArea>
+            )}
           </TabsContent>
           <TabsContent value="headers">
             <ScrollArea className="h-[400px] rounded-md border">
@@ -82,6 +148,33 @@ export function ResponseViewer({ response }: ResponseViewerProps) {
               </div>
             </ScrollArea>
           </TabsContent>
+          {redirects.length > 0 && (
+            <TabsContent value="redirects">
+              <ol className="space-y-2 rounded-md border p-4">
+                {redirects.map((hop, i) => (
+                  <li key={i} className="flex items-start gap-2 text-xs font-mono">
+                    <Badge
+                      variant="secondary"
+                      className={`shrink-0 ${getStatusBadgeVariant(hop.status)}`}
+                    >
+                      {hop.status}
+                    </Badge>
+                    <span className="break-all">
+                      <span className="text-muted-foreground">{hop.url}</span>
+                      {' → '}
+                      {hop.location}
+                      {hop.refused && (
+                        <span className="block text-red-600 dark:text-red-400">
+                          Refused: {hop.refused}
+                        </span>
+                      )}
+                    </span>
+                    <span className="ml-auto shrink-0 text-muted-foreground">{hop.duration}ms</span>
+                  </li>
+                ))}
+              </ol>
+            </TabsContent>
+          )}
         </Tabs>
       </CardContent>
     </Card>
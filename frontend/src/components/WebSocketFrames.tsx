@@ -0,0 +1,67 @@
+'use client';
+
+/**
+ * WebSocketFrames — The frames a captured WebSocket exchanged.
+ *
+ * Shown when a WebSocket row of the Request Inspector is expanded; frames
+ * aren't part of the upload response, so the inspector loads them then. Each
+ * frame shows its direction, the time since the first frame and its data;
+ * binary frames are shown as base64.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { WebSocketMessage } from '@/types/har';
+
+interface WebSocketFramesProps {
+  /** The frames, or null while they load */
+  messages: WebSocketMessage[] | null;
+  error?: string | null;
+}
+
+/** Longest frame data shown before truncating */
+const MAX_DATA_LENGTH = 500;
+
+export function WebSocketFrames({ messages, error }: WebSocketFramesProps) {
+  if (error) {
+    return <p className="text-xs text-red-600 dark:text-red-400">{error}</p>;
+  }
+  if (!messages) {
+    return <p className="text-xs text-muted-foreground">Loading frames...</p>;
+  }
+  if (messages.length === 0) {
+    return <p className="text-xs text-muted-foreground">No frames were captured.</p>;
+  }
+
+  const start = messages[0].time;
+  return (
+    <ol className="space-y-1 max-h-[240px] overflow-auto">
+      {messages.map((message, i) => (
+        <li key={i} className="flex items-start gap-2 text-xs">
+          <span
+            className={`font-mono shrink-0 ${
+              message.type === 'send'
+                ? 'text-green-600 dark:text-green-400'
+                : 'text-blue-600 dark:text-blue-400'
+            }`}
+            title={message.type === 'send' ? 'Sent' : 'Received'}
+          >
+            {message.type === 'send' ? '↑' : '↓'}
+          </span>
+          <span className="font-mono text-muted-foreground shrink-0 w-[60px] text-right">
+            +{(message.time - start).toFixed(2)}s
+          </span>
+          {message.opcode === 2 && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0 shrink-0">
+              binary
+            </Badge>
+          )}
+          <code className="font-mono break-all whitespace-pre-wrap">
+            {message.data.length > MAX_DATA_LENGTH
+              ? `${message.data.slice(0, MAX_DATA_LENGTH)}...`
+              : message.data}
+          </code>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,8 +1,14 @@
 import {
   UploadResponse,
+  AnalyzeMode,
   AnalyzeResponse,
+  CurlResponse,
+  EntryScope,
   ExecuteRequest,
   ExecuteResponse,
+  Matcher,
+  SnippetLanguage,
+  WebSocketMessage,
 } from '@/types/har';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
@@ -34,7 +40,13 @@ export async function uploadHarFile(file: File): Promise<UploadResponse> {
 export async function analyzeHar(
   harId: string,
   description: string,
-  options?: { deduplication?: boolean; reasoning?: boolean },
+  options?: {
+    deduplication?: boolean;
+    reasoning?: boolean;
+    languages?: readonly SnippetLanguage[];
+    matcher?: Matcher;
+    mode?: AnalyzeMode;
+  },
 ): Promise<AnalyzeResponse> {
   const response = await fetch(`${API_BASE}/har/analyze`, {
     method: 'POST',
@@ -50,11 +62,114 @@ export async function analyzeHar(
   return response.json();
 }
 
+/**
+ * Reply to an analysis result (e.g. "no, the one that returns paginated results")
+ * and get the new match, with the session's updated conversation.
+ */
+export async function refineAnalysis(
+  sessionId: string,
+  message: string,
+): Promise<AnalyzeResponse> {
+  const response = await fetch(`${API_BASE}/har/analyze/${sessionId}/refine`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Refinement failed' }));
+    throw new Error(error.message || `Refinement failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Generate a curl command for a specific entry directly (no LLM call).
+ */
+export async function generateEntryCurl(
+  harId: string,
+  index: number,
+  scope: EntryScope,
+  languages: readonly SnippetLanguage[] = [],
+): Promise<CurlResponse> {
+  const params = new URLSearchParams({ scope });
+  if (languages.length > 0) params.set('languages', languages.join(','));
+  const response = await fetch(
+    `${API_BASE}/har/${harId}/entries/${index}/curl?${params}`,
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Curl generation failed' }));
+    throw new Error(error.message || `Curl generation failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch the frames a WebSocket entry exchanged.
+ */
+export async function fetchWebSocketMessages(
+  harId: string,
+  index: number,
+  scope: EntryScope,
+): Promise<WebSocketMessage[]> {
+  const response = await fetch(`${API_BASE}/har/${harId}/entries/${index}?scope=${scope}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Failed to load messages' }));
+    throw new Error(error.message || `Failed to load messages with status ${response.status}`);
+  }
+
+  const detail: { webSocketMessages?: WebSocketMessage[] } = await response.json();
+  return detail.webSocketMessages ?? [];
+}
+
+/**
+ * Export entries as a Postman Collection v2.1 file.
+ */
+export async function exportPostmanCollection(
+  harId: string,
+  indices: number[],
+  scope: EntryScope,
+): Promise<Blob> {
+  const params = new URLSearchParams({ scope, indices: indices.join(',') });
+  const response = await fetch(`${API_BASE}/har/${harId}/postman?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Export failed' }));
+    throw new Error(error.message || `Export failed with status ${response.status}`);
+  }
+
+  return response.blob();
+}
+
+/**
+ * Download an OpenAPI 3.1 document inferred from the HAR's API requests.
+ */
+export async function exportOpenApi(
+  harId: string,
+  format: 'json' | 'yaml',
+): Promise<Blob> {
+  const response = await fetch(`${API_BASE}/har/${harId}/openapi?format=${format}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Export failed' }));
+    throw new Error(error.message || `Export failed with status ${response.status}`);
+  }
+
+  return response.blob();
+}
+
 /**
  * Execute an API request through the backend proxy.
+ * Streaming responses arrive as the proxy's response/chunk/end events;
+ * `onProgress` gets the response so far after each one.
  */
 export async function executeRequest(
   request: ExecuteRequest,
+  onProgress?: (partial: ExecuteResponse) => void,
 ): Promise<ExecuteResponse> {
   const response = await fetch(`${API_BASE}/har/execute`, {
     method: 'POST',
@@ -67,5 +182,52 @@ export async function executeRequest(
     throw new Error(error.message || `Execution failed with status ${response.status}`);
   }
 
+  if (response.headers.get('content-type')?.startsWith('text/event-stream') && response.body) {
+    return readExecuteStream(response.body, onProgress);
+  }
   return response.json();
 }
+
+/**
+ * Build the response from the proxy's relay events as they arrive.
+ */
+async function readExecuteStream(
+  body: ReadableStream<Uint8Array>,
+  onProgress?: (partial: ExecuteResponse) => void,
+): Promise<ExecuteResponse> {
+  let result: ExecuteResponse = {
+    status: 0,
+    statusText: '',
+    headers: {},
+    body: '',
+    duration: 0,
+    streamed: true,
+    streaming: true,
+  };
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    // Events end with a blank line; keep a partial one for the next read
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      const name = /^event: (.*)$/m.exec(event)?.[1];
+      const dataLine = /^data: (.*)$/m.exec(event)?.[1];
+      if (!name || dataLine === undefined) continue;
+      const data = JSON.parse(dataLine);
+      if (name === 'response') result = { ...result, ...data };
+      else if (name === 'chunk') result = { ...result, body: result.body + data };
+      else if (name === 'end') {
+        result = { ...result, duration: data.duration, truncated: data.truncated, streaming: false };
+      }
+      else if (name === 'error') result = { ...result, streaming: false, streamError: data.message };
+      onProgress?.(result);
+    }
+  }
+  return { ...result, streaming: false };
+}
@@ -6,6 +6,22 @@ export interface CompactEntry {
   status: number;
   responseType: string;
   responseSize: number;
+  /** GraphQL calls: the operation, e.g. "query GetCart" or "query #1a2b3c4d" when anonymous */
+  graphql?: string;
+  /** WebSocket connections: the messages exchanged, e.g. "2 sent: subscribe; 40 received: ticker" */
+  websocket?: string;
+  /** Streaming responses: Server-Sent Events or newline-delimited JSON */
+  streaming?: 'sse' | 'ndjson';
+}
+
+/** One frame of a WebSocket connection as captured */
+export interface WebSocketMessage {
+  type: 'send' | 'receive';
+  /** Seconds since the epoch */
+  time: number;
+  /** 1 = text, 2 = binary (data is base64) */
+  opcode: number;
+  data: string;
 }
 
 /** Response from POST /api/har/upload */
@@ -20,9 +36,43 @@ export interface UploadResponse {
   };
 }
 
-/** Response from POST /api/har/analyze */
-export interface AnalyzeResponse {
+/** Which entry list an index refers to: filtered API requests or all raw entries */
+export type EntryScope = 'filtered' | 'all';
+
+/** Languages the backend can generate code snippets for, besides curl */
+export const SNIPPET_LANGUAGES = [
+  'python',
+  'fetch',
+  'axios',
+  'go',
+  'httpie',
+  'powershell',
+] as const;
+
+export type SnippetLanguage = (typeof SNIPPET_LANGUAGES)[number];
+
+/** A value a request sends that an earlier response returned first */
+export interface ValueDependency {
+  index: number;
+  location: { kind: 'header' | 'cookie' | 'query' | 'body'; name: string };
+  fromIndex: number;
+  source: { kind: 'header' | 'cookie' | 'json' | 'text'; name: string };
+  /** Start of the value only */
+  preview: string;
+  description: string;
+}
+
+/** Response from GET /api/har/:id/entries/:index/curl (no LLM involved) */
+export interface CurlResponse {
   curl: string;
+  snippets?: Partial<Record<SnippetLanguage, string>>;
+  /** WebSocket matches: replay scripts (`curl` holds the websocat one) */
+  websocket?: {
+    websocat: string;
+    node: string;
+    sent: number;
+    received: number;
+  };
   requestDetails: {
     url: string;
     method: string;
@@ -30,6 +80,23 @@ export interface AnalyzeResponse {
     body?: string;
   };
   matchedEntry: CompactEntry;
+  /** Values the request sends that earlier responses returned */
+  dependsOn: ValueDependency[];
+}
+
+/** How /analyze finds the match: LLM, local lexical ranking, or lexical with LLM fallback */
+export type Matcher = 'llm' | 'lexical' | 'hybrid';
+
+/** What /analyze returns: the single match, or the match plus the requests it depends on */
+export type AnalyzeMode = 'single' | 'flow';
+
+/** A step of a multi-request flow, with what it is for */
+export interface FlowStep extends CompactEntry {
+  purpose: string;
+}
+
+/** Response from POST /api/har/analyze */
+export interface AnalyzeResponse extends CurlResponse {
   explanation: string;
   reasoning: string;
   candidates: Array<{ index: number; url: string; reason: string; confidence: number }>;
@@ -39,9 +106,34 @@ export interface AnalyzeResponse {
     total: number;
   };
   model: string;
+  /** Which matcher produced the result; "lexical" means no LLM call was made */
+  matcher: 'llm' | 'lexical';
+  /** The LLM answer came from the backend's analysis cache; token usage is zero */
+  cached: boolean;
   entriesAnalyzed: number;
+  /** Unique patterns left out of the LLM prompt by pre-ranking */
+  patternsDropped: number;
+  /** Estimated prompt tokens spent on body context (0 unless it was requested) */
+  contextTokens: number;
   totalEntries: number;
   llmLatency: number;
+  /** Flow mode only: the steps in run order (the match last) and a bash script chaining them */
+  flow?: {
+    steps: FlowStep[];
+    script: string;
+  };
+  /** Single mode only: the conversation to reply to with refineAnalysis */
+  session?: {
+    id: string;
+    turns: AnalysisTurn[];
+  };
+}
+
+/** One message of an analysis conversation; assistant turns carry the matched index */
+export interface AnalysisTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  index?: number;
 }
 
 /** Request body for POST /api/har/execute */
@@ -52,11 +144,39 @@ export interface ExecuteRequest {
   body?: string;
 }
 
+/** A redirect the execute proxy followed, or refused to */
+export interface RedirectHop {
+  /** URL that answered with the redirect */
+  url: string;
+  status: number;
+  statusText: string;
+  /** Absolute URL it redirected to */
+  location: string;
+  /** Milliseconds until the redirect arrived */
+  duration: number;
+  /** Why the proxy didn't request the Location (it failed the SSRF checks) */
+  refused?: string;
+}
+
 /** Response from POST /api/har/execute */
 export interface ExecuteResponse {
   status: number;
   statusText: string;
   headers: Record<string, string>;
   body: string;
+  /** Set when the body is binary and `body` holds its bytes as base64 */
+  encoding?: 'base64';
+  /** Bytes of the upstream body returned */
+  size?: number;
+  /** The body was longer than the proxy's byte cap and was cut at it */
+  truncated?: boolean;
+  /** Redirects followed on the way, in order */
+  redirects?: RedirectHop[];
   duration: number;
+  /** The response was relayed as it arrived (SSE or NDJSON) */
+  streamed?: boolean;
+  /** A relayed response that is still arriving */
+  streaming?: boolean;
+  /** Set when a relayed stream broke off, e.g. at the proxy timeout */
+  streamError?: string;
 }
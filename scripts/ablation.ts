@@ -4,14 +4,17 @@
  *
  * Runs the same HAR file + query through all feature flag combinations
  * and generates a comparison report showing the trade-offs between
- * token efficiency (deduplication) and explainability (reasoning).
+ * token efficiency (deduplication) and explainability (reasoning), and the
+ * accuracy/cost trade-off of adding body context to the summary.
  *
  * Usage:
- *   npx tsx scripts/ablation.ts [--har <path>] [--query <description>]
+ *   npx tsx scripts/ablation.ts [--har <path>] [--query <description>] [--cache]
  *
  * Defaults:
  *   --har   examples/jokes/jokes.har
  *   --query "Find the API that fetches jokes"
+ *   The backend's analysis cache is bypassed so token costs are measured;
+ *   --cache reuses cached answers (quick reruns, zero tokens reported)
  *
  * Prerequisites:
  *   Backend must be running on http://localhost:3001
@@ -23,17 +26,19 @@ import * as path from 'path';
 const API_BASE = process.env.API_BASE || 'http://localhost:3001/api';
 
 // --- Parse CLI args ---
-function parseArgs(): { harPath: string; query: string } {
+function parseArgs(): { harPath: string; query: string; cache: boolean } {
   const args = process.argv.slice(2);
   let harPath = 'examples/jokes/jokes.har';
   let query = 'Find the API that fetches jokes';
+  let cache = false;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--har' && args[i + 1]) harPath = args[++i];
     if (args[i] === '--query' && args[i + 1]) query = args[++i];
+    if (args[i] === '--cache') cache = true;
   }
 
-  return { harPath, query };
+  return { harPath, query, cache };
 }
 
 // --- API helpers ---
@@ -78,7 +83,9 @@ interface AnalyzeResult {
   candidates: Array<{ index: number; url: string; confidence: number }>;
   tokenUsage: { prompt: number; completion: number; total: number };
   model: string;
+  cached: boolean;
   entriesAnalyzed: number;
+  contextTokens: number;
   totalEntries: number;
   llmLatency: number;
 }
@@ -86,7 +93,15 @@ interface AnalyzeResult {
 async function analyzeHar(
   harId: string,
   description: string,
-  options: { deduplication: boolean; candidates: boolean; reasoning: boolean },
+  options: {
+    deduplication: boolean;
+    pathTemplating: boolean;
+    candidates: boolean;
+    reasoning: boolean;
+    bodyContext?: boolean;
+    matcher?: 'llm' | 'lexical' | 'hybrid';
+    cache: boolean;
+  },
 ): Promise<AnalyzeResult> {
   const res = await fetch(`${API_BASE}/har/analyze`, {
     method: 'POST',
@@ -99,20 +114,27 @@ async function analyzeHar(
 }
 
 // --- Feature flag combinations ---
-// Tests each feature independently to measure its isolated token cost
+// Tests each feature independently to measure its isolated token cost.
+// Path templating only applies when deduplicating, so it is compared against
+// exact-path dedup to isolate its extra savings.
 const CONFIGS = [
-  { name: 'Baseline (minimal)',              deduplication: false, candidates: false, reasoning: false },
-  { name: '+ Deduplication only',            deduplication: true,  candidates: false, reasoning: false },
-  { name: '+ Candidates only',              deduplication: false, candidates: true,  reasoning: false },
-  { name: '+ Reasoning only',               deduplication: false, candidates: false, reasoning: true },
-  { name: '+ Candidates + Reasoning',       deduplication: false, candidates: true,  reasoning: true },
-  { name: 'Dedup + Candidates (default)',    deduplication: true,  candidates: true,  reasoning: false },
-  { name: 'All features (with reasoning)',   deduplication: true,  candidates: true,  reasoning: true },
+  { name: 'Baseline (minimal)',              deduplication: false, pathTemplating: false, candidates: false, reasoning: false },
+  { name: '+ Dedup (exact paths)',           deduplication: true,  pathTemplating: false, candidates: false, reasoning: false },
+  { name: '+ Deduplication only',            deduplication: true,  pathTemplating: true,  candidates: false, reasoning: false },
+  { name: '+ Candidates only',              deduplication: false, pathTemplating: false, candidates: true,  reasoning: false },
+  { name: '+ Reasoning only',               deduplication: false, pathTemplating: false, candidates: false, reasoning: true },
+  { name: '+ Candidates + Reasoning',       deduplication: false, pathTemplating: false, candidates: true,  reasoning: true },
+  { name: 'Dedup + Candidates (default)',    deduplication: true,  pathTemplating: true,  candidates: true,  reasoning: false },
+  { name: 'All features (with reasoning)',   deduplication: true,  pathTemplating: true,  candidates: true,  reasoning: true },
+  // Default plus request/response body context — what the extra summary text costs and whether it changes the match
+  { name: 'Default + Body context',          deduplication: true,  pathTemplating: true,  candidates: true,  reasoning: false, bodyContext: true },
+  // Local BM25 ranking — no LLM call, so zero tokens; compare the match it picks
+  { name: 'Lexical matcher (no LLM)',        deduplication: true,  pathTemplating: true,  candidates: true,  reasoning: false, matcher: 'lexical' as const },
 ];
 
 // --- Main ---
 async function main() {
-  const { harPath, query } = parseArgs();
+  const { harPath, query, cache } = parseArgs();
 
   console.log('╔══════════════════════════════════════════════════════════════╗');
   console.log('║              HAR-to-Curl Ablation Study                     ║');
@@ -121,6 +143,7 @@ async function main() {
   console.log(`HAR file:  ${harPath}`);
   console.log(`Query:     "${query}"`);
   console.log(`API:       ${API_BASE}`);
+  console.log(`Cache:     ${cache ? 'reuse cached answers' : 'bypassed'}`);
   console.log();
 
   // Step 1: Upload HAR file (once — reuse for all configs)
@@ -135,9 +158,12 @@ async function main() {
   const results: Array<{
     config: string;
     dedup: boolean;
+    templating: boolean;
     withCandidates: boolean;
     reasoning: boolean;
+    bodyContext: boolean;
     entriesSent: number;
+    contextTokens: number;
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
@@ -146,6 +172,7 @@ async function main() {
     matchedUrl: string;
     explanation: string;
     candidateCount: number;
+    model: string;
   }> = [];
 
   for (const config of CONFIGS) {
@@ -153,16 +180,23 @@ async function main() {
 
     const result = await analyzeHar(upload.id, query, {
       deduplication: config.deduplication,
+      pathTemplating: config.pathTemplating,
       candidates: config.candidates,
       reasoning: config.reasoning,
+      bodyContext: 'bodyContext' in config ? config.bodyContext : false,
+      matcher: 'matcher' in config ? config.matcher : 'llm',
+      cache,
     });
 
     const row = {
       config: config.name,
       dedup: config.deduplication,
+      templating: config.pathTemplating,
       withCandidates: config.candidates,
       reasoning: config.reasoning,
+      bodyContext: 'bodyContext' in config ? config.bodyContext : false,
       entriesSent: result.entriesAnalyzed,
+      contextTokens: result.contextTokens,
       promptTokens: result.tokenUsage.prompt,
       completionTokens: result.tokenUsage.completion,
       totalTokens: result.tokenUsage.total,
@@ -171,10 +205,11 @@ async function main() {
       matchedUrl: result.matchedEntry.url,
       explanation: result.explanation,
       candidateCount: result.candidates?.length || 0,
+      model: result.model,
     };
 
     results.push(row);
-    console.log(`  ✓ ${result.tokenUsage.total} tokens, ${result.llmLatency}ms, matched [${row.matchedIndex}]`);
+    console.log(`  ✓ ${result.tokenUsage.total} tokens, ${result.llmLatency}ms, matched [${row.matchedIndex}]${result.cached ? ' (cached)' : ''}`);
   }
 
   console.log();
@@ -198,9 +233,12 @@ function generateReport(
   results: Array<{
     config: string;
     dedup: boolean;
+    templating: boolean;
     withCandidates: boolean;
     reasoning: boolean;
+    bodyContext: boolean;
     entriesSent: number;
+    contextTokens: number;
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
@@ -209,22 +247,38 @@ function generateReport(
     matchedUrl: string;
     explanation: string;
     candidateCount: number;
+    model: string;
   }>,
 ): string {
   const baseline = results[0];
-  const allFeatures = results[results.length - 1];
+  const allFeatures = results.find((r) => r.dedup && r.withCandidates && r.reasoning) ?? results[results.length - 1];
+  const withBodyContext = results.find((r) => r.bodyContext);
 
   // Check if all configs matched the same entry
   const allSameMatch = results.every((r) => r.matchedIndex === results[0].matchedIndex);
 
-  // Get dedup count from the config that has dedup on + nothing else
-  const dedupConfig = results.find((r) => r.dedup && !r.withCandidates && !r.reasoning);
-  const afterDedup = dedupConfig ? dedupConfig.entriesSent : upload.stats.kept;
+  // Get dedup counts from the configs that have dedup on + nothing else
+  const exactDedupConfig = results.find((r) => r.dedup && !r.templating && !r.withCandidates && !r.reasoning);
+  const dedupConfig = results.find((r) => r.dedup && r.templating && !r.withCandidates && !r.reasoning);
+  const afterExactDedup = exactDedupConfig ? exactDedupConfig.entriesSent : upload.stats.kept;
+  const afterDedup = dedupConfig ? dedupConfig.entriesSent : afterExactDedup;
+
+  // The offline heuristic provider reports no token usage; percentages vs a
+  // zero baseline are meaningless then
+  const offline = baseline.totalTokens === 0;
+  const pctVsBaseline = (value: number) =>
+    offline ? 'n/a' : ((value - baseline.totalTokens) / baseline.totalTokens * 100).toFixed(1);
+  const savingsVsBaseline = (value: number) =>
+    offline ? 'n/a' : ((1 - value / baseline.totalTokens) * 100).toFixed(1);
 
   let md = `# Ablation Study: Token Efficiency vs Explainability\n\n`;
   md += `**Date:** ${new Date().toISOString().split('T')[0]}\n`;
   md += `**HAR file:** \`${harPath}\` (${upload.stats.total} total entries, ${upload.stats.kept} after filtering)\n`;
-  md += `**Query:** "${query}"\n\n`;
+  md += `**Query:** "${query}"\n`;
+  md += `**Model:** ${baseline.model}\n\n`;
+  if (offline) {
+    md += `> **Note — offline run:** this provider makes no LLM call, so every token column is zero and latency is local ranking time. The entry counts still show what each stage saves; rerun with an LLM provider configured for token costs.\n\n`;
+  }
 
   // Processing Pipeline section
   const fb = upload.filterBreakdown;
@@ -253,29 +307,26 @@ function generateReport(
     md += `| ${stage.name} | ${remaining} | -${stage.removed} | -${pctReduction}% |\n`;
   }
 
-  // Deduplication row
-  if (afterDedup !== upload.stats.kept) {
-    const dedupRemoved = upload.stats.kept - afterDedup;
-    const pctReduction = ((1 - afterDedup / upload.stats.total) * 100).toFixed(1);
-    md += `| **Deduplicate** (same endpoint pattern) | **${afterDedup}** | -${dedupRemoved} | -${pctReduction}% |\n`;
-  } else {
-    md += `| **Deduplicate** (same endpoint pattern) | **${afterDedup}** | 0 | -${((1 - afterDedup / upload.stats.total) * 100).toFixed(1)}% |\n`;
-  }
+  // Deduplication rows: exact endpoint pattern, then path templating on top
+  const exactRemoved = upload.stats.kept - afterExactDedup;
+  md += `| Deduplicate (same endpoint pattern) | ${afterExactDedup} | ${exactRemoved > 0 ? `-${exactRemoved}` : '0'} | -${((1 - afterExactDedup / upload.stats.total) * 100).toFixed(1)}% |\n`;
+  const templatingRemoved = afterExactDedup - afterDedup;
+  md += `| **Template path parameters** (IDs, UUIDs, hashes, dates, slugs → \`{id}\`) | **${afterDedup}** | ${templatingRemoved > 0 ? `-${templatingRemoved}` : '0'} | -${((1 - afterDedup / upload.stats.total) * 100).toFixed(1)}% |\n`;
 
   md += `\n`;
   md += `> **Summary:** ${upload.stats.total} raw entries → ${upload.stats.kept} after filtering (${((1 - upload.stats.kept / upload.stats.total) * 100).toFixed(1)}% removed) → ${afterDedup} unique patterns after dedup (${((1 - afterDedup / upload.stats.total) * 100).toFixed(1)}% total reduction)\n\n`;
-  md += `> **Note — Body stripping:** After filtering, response bodies are dropped entirely and request bodies are truncated to 10 KB. This does not reduce entry count but significantly lowers memory usage for large HAR files (e.g. 87 MB → lightweight metadata only). The LLM never sees response bodies — only method, URL, status, MIME type, and size.\n\n`;
+  md += `> **Note — Body stripping:** After filtering, response bodies are dropped entirely and request bodies are truncated to 10 KB. This does not reduce entry count but significantly lowers memory usage for large HAR files (e.g. 87 MB → lightweight metadata only). By default the LLM never sees bodies — only method, URL, status, MIME type, and size; body context adds operation names and key names (never values).\n\n`;
 
   // Main results table
   md += `## LLM Feature Flag Ablation\n\n`;
   md += `*Latency = LLM API call time only (excludes parsing, filtering, dedup)*\n\n`;
-  md += `| Configuration | Dedup | Candidates | Reasoning | Entries | Prompt Tok | Compl Tok | Total Tok | % vs Baseline | Latency | Match |\n`;
-  md += `|---|---|---|---|---|---|---|---|---|---|---|\n`;
+  md += `| Configuration | Dedup | Templating | Candidates | Reasoning | Body Ctx | Entries | Prompt Tok | Context Tok | Compl Tok | Total Tok | % vs Baseline | Latency | Match |\n`;
+  md += `|---|---|---|---|---|---|---|---|---|---|---|---|---|---|\n`;
 
   for (const r of results) {
-    const pctChange = ((r.totalTokens - baseline.totalTokens) / baseline.totalTokens * 100).toFixed(1);
-    const pctLabel = r === baseline ? '—' : `${Number(pctChange) > 0 ? '+' : ''}${pctChange}%`;
-    md += `| ${r.config} | ${r.dedup ? '✓' : '✗'} | ${r.withCandidates ? '✓' : '✗'} | ${r.reasoning ? '✓' : '✗'} | ${r.entriesSent} | ${r.promptTokens.toLocaleString()} | ${r.completionTokens} | ${r.totalTokens.toLocaleString()} | ${pctLabel} | ${r.latencyMs}ms | [${r.matchedIndex}] |\n`;
+    const pctChange = pctVsBaseline(r.totalTokens);
+    const pctLabel = r === baseline ? '—' : offline ? 'n/a' : `${Number(pctChange) > 0 ? '+' : ''}${pctChange}%`;
+    md += `| ${r.config} | ${r.dedup ? '✓' : '✗'} | ${r.dedup && r.templating ? '✓' : '✗'} | ${r.withCandidates ? '✓' : '✗'} | ${r.reasoning ? '✓' : '✗'} | ${r.bodyContext ? '✓' : '✗'} | ${r.entriesSent} | ${r.promptTokens.toLocaleString()} | ${r.contextTokens.toLocaleString()} | ${r.completionTokens} | ${r.totalTokens.toLocaleString()} | ${pctLabel} | ${r.latencyMs}ms | [${r.matchedIndex}] |\n`;
   }
 
   md += `\n`;
@@ -283,11 +334,11 @@ function generateReport(
   // Isolated feature costs
   md += `## Isolated Feature Costs\n\n`;
 
-  const dedupOnly = results.find((r) => r.dedup && !r.withCandidates && !r.reasoning);
+  const dedupOnly = dedupConfig;
   const candidatesOnly = results.find((r) => !r.dedup && r.withCandidates && !r.reasoning);
   const reasoningOnly = results.find((r) => !r.dedup && !r.withCandidates && r.reasoning);
   const candidatesPlusReasoning = results.find((r) => !r.dedup && r.withCandidates && r.reasoning);
-  const dedupPlusCandidates = results.find((r) => r.dedup && r.withCandidates && !r.reasoning);
+  const dedupPlusCandidates = results.find((r) => r.dedup && r.withCandidates && !r.reasoning && !r.bodyContext);
 
   md += `| Feature | Prompt Δ | Completion Δ | Total Δ | What you get |\n`;
   md += `|---|---|---|---|---|\n`;
@@ -298,6 +349,12 @@ function generateReport(
     const totalDelta = dedupOnly.totalTokens - baseline.totalTokens;
     md += `| Deduplication | ${promptDelta >= 0 ? '+' : ''}${promptDelta.toLocaleString()} | ${compDelta >= 0 ? '+' : ''}${compDelta} | ${totalDelta >= 0 ? '+' : ''}${totalDelta.toLocaleString()} | URL compaction, fewer entries sent |\n`;
   }
+  if (dedupOnly && exactDedupConfig) {
+    const promptDelta = dedupOnly.promptTokens - exactDedupConfig.promptTokens;
+    const compDelta = dedupOnly.completionTokens - exactDedupConfig.completionTokens;
+    const totalDelta = dedupOnly.totalTokens - exactDedupConfig.totalTokens;
+    md += `| Path templating (vs exact-path dedup) | ${promptDelta >= 0 ? '+' : ''}${promptDelta.toLocaleString()} | ${compDelta >= 0 ? '+' : ''}${compDelta} | ${totalDelta >= 0 ? '+' : ''}${totalDelta.toLocaleString()} | \`/users/1\` and \`/users/2\` sent as one \`/users/{id}\` pattern |\n`;
+  }
   if (candidatesOnly) {
     const promptDelta = candidatesOnly.promptTokens - baseline.promptTokens;
     const compDelta = candidatesOnly.completionTokens - baseline.completionTokens;
@@ -310,6 +367,12 @@ function generateReport(
     const totalDelta = reasoningOnly.totalTokens - baseline.totalTokens;
     md += `| Reasoning text | +${promptDelta} | +${compDelta} | +${totalDelta} | Verbose thought process explanation |\n`;
   }
+  if (withBodyContext && dedupPlusCandidates) {
+    const promptDelta = withBodyContext.promptTokens - dedupPlusCandidates.promptTokens;
+    const compDelta = withBodyContext.completionTokens - dedupPlusCandidates.completionTokens;
+    const totalDelta = withBodyContext.totalTokens - dedupPlusCandidates.totalTokens;
+    md += `| Body context (vs default) | ${promptDelta >= 0 ? '+' : ''}${promptDelta.toLocaleString()} | ${compDelta >= 0 ? '+' : ''}${compDelta} | ${totalDelta >= 0 ? '+' : ''}${totalDelta.toLocaleString()} | Operation names and body keys; GraphQL operations listed separately |\n`;
+  }
 
   md += `\n`;
 
@@ -317,17 +380,32 @@ function generateReport(
   md += `## Shipping Default vs All Features\n\n`;
 
   if (dedupPlusCandidates) {
-    const savings = ((1 - dedupPlusCandidates.totalTokens / baseline.totalTokens) * 100).toFixed(1);
-    md += `**Dedup + Candidates (shipping default):** ${dedupPlusCandidates.totalTokens.toLocaleString()} tokens (${savings}% vs baseline)\n`;
+    const savings = savingsVsBaseline(dedupPlusCandidates.totalTokens);
+    md += `**Dedup + Candidates (shipping default):** ${dedupPlusCandidates.totalTokens.toLocaleString()} tokens (${savings}${offline ? '' : '%'} vs baseline)\n`;
     md += `- Confidence bars + candidate list provide the high-value UX\n`;
     md += `- Reasoning text omitted — adds ~${reasoningOnly ? reasoningOnly.completionTokens - baseline.completionTokens : '?'} completion tokens for limited end-user value\n\n`;
   }
 
   md += `**All features (with reasoning):** ${allFeatures.totalTokens.toLocaleString()} tokens\n`;
-  const allSavings = ((1 - allFeatures.totalTokens / baseline.totalTokens) * 100).toFixed(1);
-  md += `- Full transparency including verbose reasoning text (${allSavings}% vs baseline)\n`;
+  const allSavings = savingsVsBaseline(allFeatures.totalTokens);
+  md += `- Full transparency including verbose reasoning text (${allSavings}${offline ? '' : '%'} vs baseline)\n`;
   md += `- Available via \`reasoning: true\` flag for debugging or detailed analysis\n\n`;
 
+  if (withBodyContext && dedupPlusCandidates) {
+    const sameMatch = withBodyContext.matchedIndex === dedupPlusCandidates.matchedIndex;
+    md += `**Default + Body context:** ${withBodyContext.totalTokens.toLocaleString()} tokens (~${withBodyContext.contextTokens.toLocaleString()} of them body context), matched [${withBodyContext.matchedIndex}]`;
+    md += sameMatch ? ` — same as the default\n` : ` — differs from the default [${dedupPlusCandidates.matchedIndex}]\n`;
+    md += `- Available via \`bodyContext: true\` for captures where URLs alone are ambiguous (GraphQL, RPC)\n\n`;
+  }
+
+  const lexical = results.find((r) => r.config.startsWith('Lexical'));
+  if (lexical) {
+    const agrees = dedupPlusCandidates && lexical.matchedIndex === dedupPlusCandidates.matchedIndex;
+    md += `**Lexical matcher (no LLM):** 0 tokens, ${lexical.latencyMs}ms, matched [${lexical.matchedIndex}]`;
+    md += agrees ? ` — same as the LLM default\n` : ` — differs from the LLM default; use \`matcher: 'hybrid'\` to fall back to the LLM\n`;
+    md += `- Available via \`matcher: 'lexical'\` or \`matcher: 'hybrid'\`\n\n`;
+  }
+
   // Correctness
   md += `## Correctness\n\n`;
   md += `${allSameMatch ? '**All configurations returned the same match** ✓ — feature flags do not affect accuracy.' : '⚠️ Configurations returned different matches — see details below.'}\n\n`;